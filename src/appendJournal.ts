@@ -0,0 +1,78 @@
+import * as fs from "fs";
+
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+
+/**
+ * An append-only file that buffers writes and flushes them to disk at a fixed interval, so a
+ * busy log does not block the extension host on every line and a crash loses at most one
+ * interval of data. Flushes are synced, so what was flushed survives the machine going down
+ * too.
+ */
+export class AppendJournal {
+  private fd: number;
+  private pending: string[] = [];
+  private onError: (error: unknown) => void;
+  private timer: NodeJS.Timeout;
+  private closed = false;
+
+  /**
+   * Opens the file for appending, creating it if needed.
+   *
+   * @param filePath - The file.
+   * @param onError - Called when a flush fails. The unwritten data is dropped.
+   * @param flushIntervalMs - How often buffered writes go to disk.
+   */
+  constructor(
+    filePath: string,
+    onError: (error: unknown) => void,
+    flushIntervalMs: number = DEFAULT_FLUSH_INTERVAL_MS
+  ) {
+    this.fd = fs.openSync(filePath, "a");
+    this.onError = onError;
+    this.timer = setInterval(() => this.flush(), flushIntervalMs);
+    this.timer.unref?.(); // Never keep the process alive for a flush
+  }
+
+  /**
+   * Queues text to be written with the next flush.
+   */
+  public append(text: string): void {
+    if (!this.closed) {
+      this.pending.push(text);
+    }
+  }
+
+  /**
+   * Writes the queued text to disk now.
+   */
+  public flush(): void {
+    if (this.closed || this.pending.length === 0) {
+      return;
+    }
+    const text = this.pending.join("");
+    this.pending = [];
+    try {
+      fs.writeSync(this.fd, text);
+      fs.fsyncSync(this.fd);
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+
+  /**
+   * Flushes and closes the file. Later appends are ignored.
+   */
+  public close(): void {
+    if (this.closed) {
+      return;
+    }
+    clearInterval(this.timer);
+    this.flush();
+    this.closed = true;
+    try {
+      fs.closeSync(this.fd);
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+}
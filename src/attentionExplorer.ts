@@ -0,0 +1,363 @@
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { AttentionRecorder } from "./attentionRecorder";
+import {
+  AttentionSample,
+  AttentionSortKey,
+  FileStats,
+  formatStats,
+  LineRangeStats,
+  shiftSamples,
+  summarizeAttention,
+  SymbolStats,
+} from "./attentionStats";
+import { loadScanpath, pickSession, readTags } from "./recordedSessions";
+import { Scanpath } from "./scanpathReplay";
+import { formatSymbolPath } from "./symbolAttention";
+import { TagSegment, tagSegments } from "./tagLog";
+import {
+  getAttentionRecorder,
+  getRecordingSession,
+  onDidChangeAttentionRecorder,
+} from "./trackingState";
+
+const VIEW_ID = "gp3attention.attentionExplorer";
+// Live fixations arrive several times a second, far more often than the tree needs to redraw
+const REFRESH_DELAY_MS = 1000;
+
+const SORT_LABELS: Record<AttentionSortKey, string> = {
+  dwell: "Dwell time",
+  fixations: "Fixation count",
+  revisits: "Revisit count",
+};
+
+type ExplorerNode =
+  | { kind: "file"; stats: FileStats }
+  | { kind: "symbol"; uri: string; stats: SymbolStats }
+  | { kind: "range"; uri: string; stats: LineRangeStats };
+
+/**
+ * Ranks the files, symbols and line ranges of either the running tracking session or a loaded
+ * past one by how much they were looked at, optionally within the segments of one tag.
+ */
+export class AttentionExplorerProvider
+  implements vscode.TreeDataProvider<ExplorerNode>, vscode.Disposable
+{
+  private samples: AttentionSample[] = [];
+  private pastSession: { id: string; scanpath: Scanpath } | null = null; // Null while live
+  private sortBy: AttentionSortKey = "dwell";
+  private tag: string | null = null; // The tag to limit the statistics to, if any
+  private files: FileStats[] = [];
+  private recorderSubscription: vscode.Disposable | undefined;
+  private subscription: vscode.Disposable;
+  private editSubscription: vscode.Disposable;
+  private refreshTimer: NodeJS.Timeout | undefined;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  public readonly onDidChangeTreeData: vscode.Event<void> =
+    this.changeEmitter.event;
+
+  constructor() {
+    this.attach(getAttentionRecorder());
+    this.subscription = onDidChangeAttentionRecorder((recorder) => {
+      if (!this.pastSession) {
+        this.samples = [];
+        this.attach(recorder);
+        this.refresh();
+      }
+    });
+    // Lines of a past session are those of its recording, live ones follow the edits
+    this.editSubscription = vscode.workspace.onDidChangeTextDocument(
+      (event) => {
+        if (this.pastSession || event.contentChanges.length === 0) {
+          return;
+        }
+        this.samples = shiftSamples(
+          this.samples,
+          event.document.uri.toString(),
+          event.contentChanges.map((change) => ({
+            start: change.range.start,
+            end: change.range.end,
+            text: change.text,
+          }))
+        );
+        this.scheduleRefresh();
+      }
+    );
+  }
+
+  public getTreeItem(node: ExplorerNode): vscode.TreeItem {
+    const uri = vscode.Uri.parse(
+      node.kind === "file" ? node.stats.uri : node.uri
+    );
+    let item: vscode.TreeItem;
+    let startLine: number;
+    let endLine: number;
+    if (node.kind === "file") {
+      item = new vscode.TreeItem(
+        path.basename(uri.fsPath),
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+      item.resourceUri = uri;
+      item.iconPath = vscode.ThemeIcon.File;
+      [startLine, endLine] = [0, 0];
+    } else if (node.kind === "symbol") {
+      item = new vscode.TreeItem(
+        formatSymbolPath(node.stats.path),
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+      item.iconPath = new vscode.ThemeIcon("symbol-method");
+      startLine = Math.min(
+        ...node.stats.ranges.map((range) => range.startLine)
+      );
+      endLine = Math.max(...node.stats.ranges.map((range) => range.endLine));
+    } else {
+      const { startLine: first, endLine: last } = node.stats;
+      item = new vscode.TreeItem(
+        first === last ? `Line ${first + 1}` : `Lines ${first + 1}–${last + 1}`,
+        vscode.TreeItemCollapsibleState.None
+      );
+      [startLine, endLine] = [first, last];
+    }
+    item.description = formatStats(node.stats);
+    item.tooltip = `${vscode.workspace.asRelativePath(uri)}\n${formatStats(
+      node.stats
+    )}`;
+    item.command = {
+      command: "gp3attention.attentionExplorer.reveal",
+      title: "Reveal",
+      arguments: [uri, startLine, endLine],
+    };
+    return item;
+  }
+
+  public getChildren(node?: ExplorerNode): ExplorerNode[] {
+    if (!node) {
+      return this.files.map((stats) => ({ kind: "file", stats }));
+    }
+    if (node.kind === "file") {
+      return node.stats.symbols.map((stats) => ({
+        kind: "symbol",
+        uri: node.stats.uri,
+        stats,
+      }));
+    }
+    if (node.kind === "symbol") {
+      return node.stats.ranges.map((stats) => ({
+        kind: "range",
+        uri: node.uri,
+        stats,
+      }));
+    }
+    return [];
+  }
+
+  /** What the view shows, for its description. */
+  public describe(): string {
+    const source = this.pastSession ? `Session ${this.pastSession.id}` : "Live";
+    const tag = this.tag ? ` · ${this.tag}` : "";
+    return `${source}${tag} · by ${SORT_LABELS[this.sortBy].toLowerCase()}`;
+  }
+
+  /**
+   * Shows the fixations of a recorded session instead of the live ones.
+   *
+   * @param sessionId - The ID of the session, for the description.
+   * @param scanpath - The loaded session.
+   */
+  public showPastSession(sessionId: string, scanpath: Scanpath): void {
+    this.attach(null);
+    this.pastSession = { id: sessionId, scanpath };
+    this.samples = scanpath.getFixations().map((fixation) => ({
+      uri: fixation.uri,
+      symbols: fixation.symbols,
+      // Where the code ended up, so that revealing it lands on the right lines
+      line: (scanpath.positionOf(fixation) ?? fixation.position).line,
+      start: fixation.start,
+      duration: fixation.duration,
+    }));
+    this.setTag(null);
+  }
+
+  /** Goes back to the fixations of the running tracking session. */
+  public showLive(): void {
+    this.pastSession = null;
+    this.samples = [];
+    this.attach(getAttentionRecorder());
+    this.setTag(null);
+  }
+
+  /** The tagged segments of the session shown. */
+  public getSegments(): TagSegment[] {
+    if (this.pastSession) {
+      return this.pastSession.scanpath.getSegments();
+    }
+    const session = getRecordingSession();
+    return session ? tagSegments(readTags(session), Date.now()) : [];
+  }
+
+  /**
+   * Limits the statistics to the segments a tag was shown for.
+   *
+   * @param tag - The tag, or `null` for the whole session.
+   */
+  public setTag(tag: string | null): void {
+    this.tag = tag;
+    this.refresh();
+  }
+
+  public setSortBy(sortBy: AttentionSortKey): void {
+    this.sortBy = sortBy;
+    this.refresh();
+  }
+
+  public dispose(): void {
+    clearTimeout(this.refreshTimer);
+    this.recorderSubscription?.dispose();
+    this.subscription.dispose();
+    this.editSubscription.dispose();
+    this.changeEmitter.dispose();
+  }
+
+  private attach(recorder: AttentionRecorder | null): void {
+    this.recorderSubscription?.dispose();
+    this.recorderSubscription = recorder?.onDidAttribute(
+      ({ fixation, uri, position, symbols }) => {
+        if (uri && position) {
+          this.samples.push({
+            uri,
+            symbols,
+            line: position.line,
+            start: fixation.start,
+            duration: fixation.duration,
+          });
+          this.scheduleRefresh();
+        }
+      }
+    );
+  }
+
+  private scheduleRefresh(): void {
+    if (!this.refreshTimer) {
+      this.refreshTimer = setTimeout(() => this.refresh(), REFRESH_DELAY_MS);
+    }
+  }
+
+  private refresh(): void {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = undefined;
+    // Segments of the live session grow, so they are read again every time
+    const intervals = this.tag
+      ? this.getSegments().filter((segment) => segment.tag === this.tag)
+      : undefined;
+    this.files = summarizeAttention(this.samples, this.sortBy, intervals);
+    this.changeEmitter.fire();
+  }
+}
+
+/**
+ * Registers the Attention Explorer view and its commands.
+ */
+export function registerAttentionExplorer(): vscode.Disposable {
+  const provider = new AttentionExplorerProvider();
+  const treeView = vscode.window.createTreeView(VIEW_ID, {
+    treeDataProvider: provider,
+  });
+  const describe = () => (treeView.description = provider.describe());
+  describe();
+
+  return vscode.Disposable.from(
+    provider,
+    treeView,
+    provider.onDidChangeTreeData(describe),
+    vscode.commands.registerCommand(
+      "gp3attention.attentionExplorer.reveal",
+      async (uri: vscode.Uri, startLine: number, endLine: number) => {
+        let editor: vscode.TextEditor;
+        try {
+          editor = await vscode.window.showTextDocument(uri, {
+            preserveFocus: true,
+          });
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to open ${uri}: ${error}`);
+          return;
+        }
+        const lastLine = editor.document.lineCount - 1;
+        const range = new vscode.Range(
+          Math.min(startLine, lastLine),
+          0,
+          Math.min(endLine, lastLine),
+          Number.MAX_SAFE_INTEGER
+        );
+        editor.selection = new vscode.Selection(range.start, range.end);
+        editor.revealRange(
+          range,
+          vscode.TextEditorRevealType.InCenterIfOutsideViewport
+        );
+      }
+    ),
+    vscode.commands.registerCommand(
+      "gp3attention.attentionExplorer.loadSession",
+      async () => {
+        const session = await pickSession("Pick the session to explore");
+        if (!session) {
+          return;
+        }
+        try {
+          provider.showPastSession(
+            session.getSessionId(),
+            loadScanpath(session)
+          );
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to load the session: ${error}`
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "gp3attention.attentionExplorer.showLive",
+      () => provider.showLive()
+    ),
+    vscode.commands.registerCommand(
+      "gp3attention.attentionExplorer.filterByTag",
+      async () => {
+        const tags = [
+          ...new Set(provider.getSegments().map((segment) => segment.tag)),
+        ];
+        if (tags.length === 0) {
+          vscode.window.showInformationMessage(
+            "The session has no tagged segments."
+          );
+          return;
+        }
+        const picked = await vscode.window.showQuickPick(
+          [
+            { label: "Whole session", tag: null },
+            ...tags.map((tag) => ({ label: tag, tag })),
+          ],
+          { placeHolder: "Limit the statistics to the segments of a tag" }
+        );
+        if (picked) {
+          provider.setTag(picked.tag);
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "gp3attention.attentionExplorer.sortBy",
+      async () => {
+        const picked = await vscode.window.showQuickPick(
+          (Object.keys(SORT_LABELS) as AttentionSortKey[]).map((sortBy) => ({
+            label: SORT_LABELS[sortBy],
+            sortBy,
+          })),
+          { placeHolder: "Rank files, symbols and lines by" }
+        );
+        if (picked) {
+          provider.setSortBy(picked.sortBy);
+        }
+      }
+    )
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * Keeps the recent dwell time per line or token of each document, for painting where the
+ * participant is reading as it happens. Dwell fades out linearly over a time window, so the
+ * heatmap follows the reading rather than adding up the whole session.
+ */
+
+import { mapThrough, TextChange, TextPosition } from "./documentHistory";
+
+export type HeatmapGranularity = "line" | "token";
+
+/** A stretch of a line, characters from `start` up to but not including `end`. */
+export interface TokenSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * A line or token that was looked at within the time window.
+ */
+export interface HeatSpot {
+  line: number;
+  token?: TokenSpan; // Undefined for the whole line
+  dwellMs: number; // Faded dwell time
+  intensity: number; // 0 to 1, relative to the hottest spot of the document
+}
+
+interface Hit {
+  line: number;
+  token?: TokenSpan;
+  durationMs: number;
+  time: number; // End of the fixation, in ms
+}
+
+/**
+ * The fading dwell time of every document looked at.
+ */
+export class AttentionHeatmap {
+  private granularity: HeatmapGranularity;
+  private windowMs: number;
+  private hits: Map<string, Hit[]> = new Map(); // Keyed by URI, oldest first
+
+  constructor(granularity: HeatmapGranularity, windowMs: number) {
+    this.granularity = granularity;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Adds a fixation.
+   *
+   * @param uri - The document.
+   * @param line - The line the fixation landed on.
+   * @param token - The token it landed on, if any. Fixations off any token are left out of a
+   *                token heatmap.
+   * @param durationMs - How long the fixation lasted.
+   * @param time - When it ended, in ms.
+   */
+  public record(
+    uri: string,
+    line: number,
+    token: TokenSpan | undefined,
+    durationMs: number,
+    time: number
+  ): void {
+    if (this.granularity === "token" && !token) {
+      return;
+    }
+    const hits = this.hits.get(uri) ?? [];
+    hits.push({
+      line,
+      token: this.granularity === "token" ? token : undefined,
+      durationMs,
+      time,
+    });
+    this.hits.set(uri, hits);
+  }
+
+  /**
+   * Moves the fixations of a document along with an edit, dropping the ones whose text was
+   * removed.
+   *
+   * @param uri - The document.
+   * @param changes - The changes of the edit, applied one after the other.
+   */
+  public applyChanges(uri: string, changes: TextChange[]): void {
+    const hits = this.hits.get(uri);
+    if (!hits) {
+      return;
+    }
+
+    const moved: Hit[] = [];
+    for (const hit of hits) {
+      let position: TextPosition | undefined = {
+        line: hit.line,
+        character: hit.token?.start ?? 0,
+      };
+      for (const change of changes) {
+        position = position && mapThrough(position, change);
+      }
+      if (!position) {
+        continue;
+      }
+      const token = hit.token && {
+        start: position.character,
+        end: position.character + hit.token.end - hit.token.start,
+      };
+      moved.push({ ...hit, line: position.line, token });
+    }
+    this.hits.set(uri, moved);
+  }
+
+  /**
+   * The lines or tokens of a document looked at within the time window.
+   *
+   * @param uri - The document.
+   * @param now - The current time, in ms.
+   */
+  public spots(uri: string, now: number): HeatSpot[] {
+    const spots: Map<string, HeatSpot> = new Map();
+    for (const hit of this.hits.get(uri) ?? []) {
+      const age = now - hit.time;
+      if (age >= this.windowMs) {
+        continue;
+      }
+      const key = hit.token ? `${hit.line}:${hit.token.start}` : `${hit.line}`;
+      let spot = spots.get(key);
+      if (!spot) {
+        spot = { line: hit.line, token: hit.token, dwellMs: 0, intensity: 0 };
+        spots.set(key, spot);
+      }
+      spot.dwellMs += hit.durationMs * (1 - Math.max(age, 0) / this.windowMs);
+    }
+
+    const result = [...spots.values()];
+    const hottest = Math.max(...result.map((spot) => spot.dwellMs));
+    for (const spot of result) {
+      spot.intensity = hottest > 0 ? spot.dwellMs / hottest : 0;
+    }
+    return result;
+  }
+
+  /**
+   * Drops the fixations that faded out.
+   *
+   * @param now - The current time, in ms.
+   */
+  public prune(now: number): void {
+    for (const [uri, hits] of this.hits) {
+      const recent = hits.filter((hit) => now - hit.time < this.windowMs);
+      if (recent.length > 0) {
+        this.hits.set(uri, recent);
+      } else {
+        this.hits.delete(uri);
+      }
+    }
+  }
+}
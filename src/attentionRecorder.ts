@@ -0,0 +1,133 @@
+import * as vscode from "vscode";
+
+import { FixationEvent } from "./fixationDetection";
+import { GazePipeline } from "./gazePipeline";
+import { documentSymbols, resolveGaze } from "./positionMapper";
+import { readTokenRadius } from "./settings";
+import {
+  AttentionLedger,
+  formatSymbolPath,
+  symbolPath,
+  Token,
+  tokenAt,
+} from "./symbolAttention";
+import { getAttentionRecorder } from "./trackingState";
+import { GazeRegion } from "./workbenchLayout";
+
+/**
+ * A fixation resolved to the code it landed on.
+ */
+export interface AttributedFixation {
+  fixation: FixationEvent;
+  region: GazeRegion;
+  uri?: string; // The document, if the fixation landed on an editor
+  version?: number; // Document version shown at the time
+  position?: vscode.Position;
+  token?: Token; // Undefined when not on text or too far from any token
+  symbols: string[]; // Enclosing symbols, outermost first
+}
+
+/**
+ * Attributes every fixation of a tracking session to the token and symbols it landed on, and
+ * adds up the dwell time per symbol.
+ */
+export class AttentionRecorder implements vscode.Disposable {
+  private ledger = new AttentionLedger();
+  private subscription: vscode.Disposable;
+  private readonly attributionEmitter =
+    new vscode.EventEmitter<AttributedFixation>();
+
+  /** Fires for every fixation once it is attributed. */
+  public readonly onDidAttribute: vscode.Event<AttributedFixation> =
+    this.attributionEmitter.event;
+
+  constructor(pipeline: GazePipeline) {
+    this.subscription = pipeline.onFixation((fixation) =>
+      this.attribute(fixation)
+    );
+  }
+
+  /** The dwell time per symbol so far. */
+  public getLedger(): AttentionLedger {
+    return this.ledger;
+  }
+
+  public dispose(): void {
+    this.subscription.dispose();
+    this.attributionEmitter.dispose();
+  }
+
+  private attribute(fixation: FixationEvent): void {
+    const { region, gaze } = resolveGaze({ x: fixation.x, y: fixation.y });
+    if (!gaze) {
+      this.attributionEmitter.fire({ fixation, region, symbols: [] });
+      return;
+    }
+
+    const document = gaze.editor.document;
+    const token =
+      gaze.kind === "text"
+        ? tokenAt(
+            document.lineAt(gaze.position.line).text,
+            gaze.position.character,
+            readTokenRadius()
+          )
+        : undefined;
+    // Code lenses and sticky headers belong to the symbol of their line
+    const position = token
+      ? gaze.position.with({ character: token.start })
+      : gaze.kind === "text"
+        ? gaze.position
+        : gaze.position.with({
+            character: document.lineAt(gaze.position.line)
+              .firstNonWhitespaceCharacterIndex,
+          });
+    const symbols = symbolPath(documentSymbols(gaze.editor), position).map(
+      (symbol) => symbol.name
+    );
+
+    this.ledger.record(document.uri.toString(), symbols, fixation.duration);
+    this.attributionEmitter.fire({
+      fixation,
+      region,
+      uri: document.uri.toString(),
+      version: document.version,
+      position: gaze.position,
+      token,
+      symbols,
+    });
+  }
+}
+
+export function showSymbolAttention() {
+  let channel: vscode.OutputChannel | undefined;
+  return vscode.commands.registerCommand(
+    "gp3attention.showSymbolAttention",
+    () => {
+      const recorder = getAttentionRecorder();
+      if (!recorder) {
+        vscode.window.showInformationMessage(
+          "Launch a tracking session first."
+        );
+        return;
+      }
+
+      channel ??= vscode.window.createOutputChannel("GP3 Attention");
+      channel.clear();
+      for (const entry of recorder.getLedger().getEntries()) {
+        const file = vscode.workspace.asRelativePath(
+          vscode.Uri.parse(entry.uri)
+        );
+        // The empty path totals the whole file, symbols and all
+        const label =
+          entry.path.length > 0 ? formatSymbolPath(entry.path) : "(whole file)";
+        channel.appendLine(
+          `${(entry.totalMs / 1000).toFixed(1)} s\t${
+            entry.fixations
+          } fixations\t${file} ${label}`
+        );
+      }
+      channel.show(true);
+    }
+  );
+}
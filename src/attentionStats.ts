@@ -0,0 +1,221 @@
+/**
+ * Ranks the files, symbols and line ranges of a session by how much they were looked at, for
+ * the Attention Explorer. Besides dwell time and fixation count, revisits count how often the
+ * gaze came back to a node after looking elsewhere, a sign of code that was hard to follow.
+ */
+
+import { mapThrough, TextChange } from "./documentHistory";
+import { formatSymbolPath } from "./symbolAttention";
+
+/** A fixation attributed to code. */
+export interface AttentionSample {
+  uri: string;
+  symbols: string[]; // Enclosing symbols, outermost first
+  line: number;
+  start: number; // Milliseconds since the epoch
+  duration: number;
+}
+
+export type AttentionSortKey = "dwell" | "fixations" | "revisits";
+
+export interface AttentionStats {
+  dwellMs: number;
+  fixations: number;
+  revisits: number; // Visits after the first one
+}
+
+/** Consecutive lines of a symbol that were looked at. */
+export interface LineRangeStats extends AttentionStats {
+  startLine: number;
+  endLine: number; // Inclusive
+}
+
+export interface SymbolStats extends AttentionStats {
+  path: string[]; // Names from the outermost symbol in, empty for code outside any symbol
+  ranges: LineRangeStats[];
+}
+
+export interface FileStats extends AttentionStats {
+  uri: string;
+  symbols: SymbolStats[];
+}
+
+/** A stretch of a session, e.g. a tagged segment. */
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+interface LineSpan {
+  start: number;
+  end: number; // Inclusive
+}
+
+/**
+ * Adds up the attention per file, symbol and line range.
+ *
+ * @param samples - The fixations.
+ * @param sortBy - What to rank the nodes of each level by, highest first.
+ * @param intervals - Only count fixations that started within one of these, all if omitted.
+ */
+export function summarizeAttention(
+  samples: AttentionSample[],
+  sortBy: AttentionSortKey,
+  intervals?: TimeInterval[]
+): FileStats[] {
+  const included = samples
+    .filter(
+      (sample) =>
+        !intervals ||
+        intervals.some(
+          (interval) =>
+            interval.start <= sample.start && sample.start < interval.end
+        )
+    )
+    .sort((a, b) => a.start - b.start);
+
+  // Lines looked at per symbol, to merge into ranges first
+  const lines: Map<string, Set<number>> = new Map();
+  for (const sample of included) {
+    const key = symbolKey(sample);
+    lines.set(key, (lines.get(key) ?? new Set()).add(sample.line));
+  }
+  const ranges: Map<string, LineSpan[]> = new Map();
+  for (const [key, symbolLines] of lines) {
+    ranges.set(key, mergeLines([...symbolLines]));
+  }
+
+  const files: Map<string, FileStats> = new Map();
+  const symbols: Map<string, SymbolStats> = new Map();
+  const lineRanges: Map<string, LineRangeStats> = new Map();
+  const previous: { file?: string; symbol?: string; range?: string } = {};
+  for (const sample of included) {
+    let file = files.get(sample.uri);
+    if (!file) {
+      file = { uri: sample.uri, symbols: [], ...emptyStats() };
+      files.set(sample.uri, file);
+    }
+
+    const key = symbolKey(sample);
+    let symbol = symbols.get(key);
+    if (!symbol) {
+      symbol = { path: sample.symbols, ranges: [], ...emptyStats() };
+      symbols.set(key, symbol);
+      file.symbols.push(symbol);
+    }
+
+    const range = ranges
+      .get(key)!
+      .find(({ start, end }) => start <= sample.line && sample.line <= end)!;
+    const rangeKey = `${key}\u0000${range.start}`;
+    let lineRange = lineRanges.get(rangeKey);
+    if (!lineRange) {
+      lineRange = {
+        startLine: range.start,
+        endLine: range.end,
+        ...emptyStats(),
+      };
+      lineRanges.set(rangeKey, lineRange);
+      symbol.ranges.push(lineRange);
+    }
+
+    count(file, sample, previous.file, sample.uri);
+    count(symbol, sample, previous.symbol, key);
+    count(lineRange, sample, previous.range, rangeKey);
+    previous.file = sample.uri;
+    previous.symbol = key;
+    previous.range = rangeKey;
+  }
+
+  const result = sortStats([...files.values()], sortBy);
+  for (const file of result) {
+    file.symbols = sortStats(file.symbols, sortBy);
+    for (const symbol of file.symbols) {
+      symbol.ranges = sortStats(symbol.ranges, sortBy);
+    }
+  }
+  return result;
+}
+
+/**
+ * Moves the samples of a document along with an edit, so the lines of the live session still
+ * point at the code that was looked at. The dwell time on deleted lines stays in the symbol,
+ * on the line where the deletion starts.
+ *
+ * @param samples - The fixations.
+ * @param uri - The edited document.
+ * @param changes - The changes of the edit, applied one after the other.
+ */
+export function shiftSamples(
+  samples: AttentionSample[],
+  uri: string,
+  changes: TextChange[]
+): AttentionSample[] {
+  return samples.map((sample) => {
+    if (sample.uri !== uri) {
+      return sample;
+    }
+    let position = { line: sample.line, character: 0 };
+    for (const change of changes) {
+      position = mapThrough(position, change) ?? change.start;
+    }
+    return { ...sample, line: position.line };
+  });
+}
+
+/**
+ * Formats the statistics of a node the way the Attention Explorer shows them.
+ */
+export function formatStats(stats: AttentionStats): string {
+  return `${(stats.dwellMs / 1000).toFixed(1)} s · ${stats.fixations} fixations · ${stats.revisits} revisits`;
+}
+
+// Symbol paths are only unique within a file
+function symbolKey(sample: AttentionSample): string {
+  return `${sample.uri}\u0000${formatSymbolPath(sample.symbols)}`;
+}
+
+// Lines next to each other form one range
+function mergeLines(lines: number[]): LineSpan[] {
+  const merged: LineSpan[] = [];
+  for (const line of lines.sort((a, b) => a - b)) {
+    const last = merged[merged.length - 1];
+    if (last && line <= last.end + 1) {
+      last.end = line;
+    } else {
+      merged.push({ start: line, end: line });
+    }
+  }
+  return merged;
+}
+
+function emptyStats(): AttentionStats {
+  return { dwellMs: 0, fixations: 0, revisits: 0 };
+}
+
+// A fixation right after one elsewhere starts a new visit
+function count(
+  stats: AttentionStats,
+  sample: AttentionSample,
+  previousKey: string | undefined,
+  key: string
+): void {
+  if (stats.fixations > 0 && previousKey !== key) {
+    stats.revisits++;
+  }
+  stats.dwellMs += sample.duration;
+  stats.fixations++;
+}
+
+function sortStats<T extends AttentionStats>(
+  nodes: T[],
+  sortBy: AttentionSortKey
+): T[] {
+  const value = (stats: AttentionStats) =>
+    sortBy === "dwell"
+      ? stats.dwellMs
+      : sortBy === "fixations"
+        ? stats.fixations
+        : stats.revisits;
+  return nodes.sort((a, b) => value(b) - value(a) || b.dwellMs - a.dwellMs);
+}
@@ -0,0 +1,192 @@
+import * as vscode from "vscode";
+
+import { readAutoTagSources } from "./settings";
+import { commandName } from "./shellCommand";
+import { TagHolds, TagSink } from "./tagHolds";
+
+/** Which IDE activity is tagged, see the `gp3attention.autoTags` settings. */
+export interface AutoTagSources {
+  debug: boolean; // `debug: <session>` while a debug session runs
+  tasks: boolean; // `task: <task>` while a task runs
+  tests: boolean; // `test: <task>` while a task of the test group runs
+  terminal: boolean; // `terminal: <name>` when switched to, `command: <program>` while it runs
+  activeFile: boolean; // `file: <path>` while a file is the active editor
+  save: boolean; // `save: <path>` when a file is saved
+  windowFocus: boolean; // `window: unfocused` while the window has no focus
+  navigation: boolean; // `hover: <path>:<line>` and `definition: <path>:<line>` when requested
+}
+
+/**
+ * Tags the activity in the IDE while a session runs, so the tag CSV shows the context of the
+ * task without an operator pressing buttons. Activity that lasts, like a running task, is shown
+ * as a tag until it ends, moments, like a save, are shown and hidden at once.
+ *
+ * VS Code does not tell extensions when the terminal gains focus or when a hover or peek is
+ * shown, so terminals are tagged when switched to and while they run a command, and hovers and
+ * definitions when the editor asks the language providers for them. Definitions are also asked
+ * for while Ctrl is held over a word.
+ */
+export class AutoTagger implements vscode.Disposable {
+  private holds: TagHolds;
+  private subscriptions: vscode.Disposable[] = [];
+  private configSubscription: vscode.Disposable;
+
+  /**
+   * Starts tagging with the sources enabled in the settings, and follows changes to them.
+   *
+   * @param sink - Where the tags go.
+   */
+  constructor(sink: TagSink) {
+    this.holds = new TagHolds(sink);
+    this.subscribe(readAutoTagSources());
+    this.configSubscription = vscode.workspace.onDidChangeConfiguration(
+      (event) => {
+        if (event.affectsConfiguration("gp3attention.autoTags")) {
+          this.unsubscribe();
+          this.subscribe(readAutoTagSources());
+        }
+      }
+    );
+  }
+
+  /**
+   * Stops tagging and hides the tags still shown.
+   */
+  public dispose(): void {
+    this.configSubscription.dispose();
+    this.unsubscribe();
+  }
+
+  private subscribe(sources: AutoTagSources): void {
+    if (sources.debug) {
+      const active = vscode.debug.activeDebugSession;
+      if (active) {
+        this.holds.hold(active.id, `debug: ${active.name}`);
+      }
+      this.subscriptions.push(
+        vscode.debug.onDidStartDebugSession((session) =>
+          this.holds.hold(session.id, `debug: ${session.name}`)
+        ),
+        vscode.debug.onDidTerminateDebugSession((session) =>
+          this.holds.release(session.id)
+        )
+      );
+    }
+
+    if (sources.tasks || sources.tests) {
+      const taskTag = (task: vscode.Task): string | undefined =>
+        task.group?.id === vscode.TaskGroup.Test.id
+          ? sources.tests
+            ? `test: ${task.name}`
+            : undefined
+          : sources.tasks
+            ? `task: ${task.name}`
+            : undefined;
+      const holdTask = (execution: vscode.TaskExecution) => {
+        const tag = taskTag(execution.task);
+        if (tag) {
+          this.holds.hold(execution, tag);
+        }
+      };
+      vscode.tasks.taskExecutions.forEach(holdTask);
+      this.subscriptions.push(
+        vscode.tasks.onDidStartTask((event) => holdTask(event.execution)),
+        vscode.tasks.onDidEndTask((event) =>
+          this.holds.release(event.execution)
+        )
+      );
+    }
+
+    if (sources.terminal) {
+      this.subscriptions.push(
+        vscode.window.onDidChangeActiveTerminal((terminal) => {
+          if (terminal) {
+            this.holds.mark(`terminal: ${terminal.name}`);
+          }
+        }),
+        vscode.window.onDidStartTerminalShellExecution((event) => {
+          // Only the program, the arguments may hold secrets
+          const name = commandName(event.execution.commandLine.value);
+          if (name) {
+            this.holds.hold(event.execution, `command: ${name}`);
+          }
+        }),
+        vscode.window.onDidEndTerminalShellExecution((event) =>
+          this.holds.release(event.execution)
+        )
+      );
+    }
+
+    if (sources.activeFile) {
+      const holdFile = (editor: vscode.TextEditor | undefined) => {
+        if (editor) {
+          this.holds.hold("activeFile", `file: ${pathOf(editor.document.uri)}`);
+        } else {
+          this.holds.release("activeFile");
+        }
+      };
+      holdFile(vscode.window.activeTextEditor);
+      this.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(holdFile)
+      );
+    }
+
+    if (sources.save) {
+      this.subscriptions.push(
+        vscode.workspace.onDidSaveTextDocument((document) =>
+          this.holds.mark(`save: ${pathOf(document.uri)}`)
+        )
+      );
+    }
+
+    if (sources.windowFocus) {
+      const holdFocus = (state: vscode.WindowState) => {
+        if (state.focused) {
+          this.holds.release("windowFocus");
+        } else {
+          this.holds.hold("windowFocus", "window: unfocused");
+        }
+      };
+      holdFocus(vscode.window.state);
+      this.subscriptions.push(vscode.window.onDidChangeWindowState(holdFocus));
+    }
+
+    if (sources.navigation) {
+      // Providers that contribute nothing, they only see the requests
+      this.subscriptions.push(
+        vscode.languages.registerHoverProvider(
+          { scheme: "file" },
+          {
+            provideHover: (document, position) => {
+              this.holds.mark(
+                `hover: ${pathOf(document.uri)}:${position.line + 1}`
+              );
+              return undefined;
+            },
+          }
+        ),
+        vscode.languages.registerDefinitionProvider(
+          { scheme: "file" },
+          {
+            provideDefinition: (document, position) => {
+              this.holds.mark(
+                `definition: ${pathOf(document.uri)}:${position.line + 1}`
+              );
+              return undefined;
+            },
+          }
+        )
+      );
+    }
+  }
+
+  private unsubscribe(): void {
+    this.subscriptions.forEach((subscription) => subscription.dispose());
+    this.subscriptions = [];
+    this.holds.releaseAll();
+  }
+}
+
+function pathOf(uri: vscode.Uri): string {
+  return vscode.workspace.asRelativePath(uri, false);
+}
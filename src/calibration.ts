@@ -0,0 +1,146 @@
+/**
+ * Evaluation of Gazepoint calibration results. Gazepoint Control reports each calibration point
+ * with the gaze estimate of both eyes in a `CALIB_RESULT` message, e.g.
+ * `<CAL ID="CALIB_RESULT" CALX1="0.5" CALY1="0.5" LX1="0.51" LY1="0.49" LV1="1" RX1=... />`.
+ */
+
+/** A point on screen in normalized coordinates. */
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+/** Where one eye was estimated to look while the target was shown. */
+export interface EyeEstimate extends ScreenPoint {
+  valid: boolean;
+}
+
+export interface CalibrationPoint {
+  index: number; // 1-based point number as reported by the server
+  target: ScreenPoint; // Where the calibration target was shown
+  left: EyeEstimate;
+  right: EyeEstimate;
+  error: number; // Distance between the target and the mean valid estimate, NaN if no eye was valid
+  valid: boolean; // Whether at least one eye produced a valid estimate
+}
+
+export interface CalibrationResult {
+  points: CalibrationPoint[];
+  averageError: number; // Mean error over the valid points, NaN if there are none
+  validPoints: number;
+}
+
+/**
+ * Limits a calibration must meet before a study session may use it. Errors are in normalized
+ * screen units, so `0.05` is 5% of the screen size.
+ */
+export interface CalibrationThresholds {
+  maxAverageError: number;
+  maxPointError: number;
+  minValidRatio: number; // Share of the points that must be valid, the average only covers those
+}
+
+/**
+ * Builds a `CalibrationResult` from the attributes of a `CALIB_RESULT` message.
+ *
+ * @param attributes - The attributes of the message, numbered per point (`CALX1`, `LV1`, ...).
+ */
+export function parseCalibrationResult(
+  attributes: Record<string, string>
+): CalibrationResult {
+  const points: CalibrationPoint[] = [];
+  for (let index = 1; attributes[`CALX${index}`] !== undefined; index++) {
+    const num = (key: string) => Number(attributes[`${key}${index}`]);
+    const eye = (prefix: "L" | "R"): EyeEstimate => ({
+      x: num(`${prefix}X`),
+      y: num(`${prefix}Y`),
+      valid: attributes[`${prefix}V${index}`] === "1",
+    });
+
+    points.push(
+      createPoint(index, { x: num("CALX"), y: num("CALY") }, eye("L"), eye("R"))
+    );
+  }
+  return summarize(points);
+}
+
+/**
+ * Replaces the points of an earlier result with the points of a re-run, matched by target
+ * position, and recomputes the summary.
+ *
+ * @param previous - The result the re-run improves on.
+ * @param rerun - The result of re-running some of the points.
+ */
+export function mergeCalibrationResults(
+  previous: CalibrationResult,
+  rerun: CalibrationResult
+): CalibrationResult {
+  const points = previous.points.map((point) => {
+    const replacement = rerun.points.find(
+      (candidate) =>
+        Math.abs(candidate.target.x - point.target.x) < 1e-3 &&
+        Math.abs(candidate.target.y - point.target.y) < 1e-3
+    );
+    return replacement ? { ...replacement, index: point.index } : point;
+  });
+  return summarize(points);
+}
+
+/**
+ * Lists the points that should be calibrated again: points without a valid estimate and points
+ * whose error exceeds the threshold.
+ *
+ * @param result - The calibration result.
+ * @param thresholds - The limits to check against.
+ */
+export function findBadPoints(
+  result: CalibrationResult,
+  thresholds: CalibrationThresholds
+): CalibrationPoint[] {
+  return result.points.filter(
+    (point) => !point.valid || point.error > thresholds.maxPointError
+  );
+}
+
+/**
+ * Whether a calibration is good enough to run a study session on.
+ *
+ * @param result - The calibration result.
+ * @param thresholds - The limits to check against.
+ */
+export function isCalibrationAcceptable(
+  result: CalibrationResult,
+  thresholds: CalibrationThresholds
+): boolean {
+  return (
+    result.validPoints > 0 &&
+    result.validPoints >= result.points.length * thresholds.minValidRatio &&
+    result.averageError <= thresholds.maxAverageError
+  );
+}
+
+function createPoint(
+  index: number,
+  target: ScreenPoint,
+  left: EyeEstimate,
+  right: EyeEstimate
+): CalibrationPoint {
+  const eyes = [left, right].filter((eye) => eye.valid);
+  if (eyes.length === 0) {
+    return { index, target, left, right, error: NaN, valid: false };
+  }
+
+  const x = eyes.reduce((sum, eye) => sum + eye.x, 0) / eyes.length;
+  const y = eyes.reduce((sum, eye) => sum + eye.y, 0) / eyes.length;
+  const error = Math.hypot(x - target.x, y - target.y);
+  return { index, target, left, right, error, valid: true };
+}
+
+function summarize(points: CalibrationPoint[]): CalibrationResult {
+  const valid = points.filter((point) => point.valid);
+  const averageError =
+    valid.length === 0
+      ? NaN
+      : valid.reduce((sum, point) => sum + point.error, 0) / valid.length;
+  return { points, averageError, validPoints: valid.length };
+}
@@ -1,65 +1,94 @@
 import * as vscode from "vscode";
 
 import { gp3Interface } from "./gp3Interface";
+import { GazePosition, resolveGaze } from "./positionMapper";
+import { readTrackerSettings } from "./settings";
+import { getGazePipeline, getViewportTransform } from "./trackingState";
 
 export function grabStatically() {
   return vscode.commands.registerCommand("gp3attention.grabStatically", () => {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) {
-      vscode.window.showInformationMessage("No active editor!");
+    const gaze = mapLatestGaze();
+    if (!gaze) {
       return;
     }
 
-    // The code you place here will be executed every time your command is executed
-    // Display a message box to the user
-    const one = new vscode.Position(0, 0);
-    const two = new vscode.Position(0, 5);
-    const range = new vscode.Range(one, two);
-
-    const document = editor.document;
+    // Grab the word the user is looking at
+    const document = gaze.editor.document;
+    const range =
+      document.getWordRangeAtPosition(gaze.position) ??
+      new vscode.Range(gaze.position, gaze.position.translate(0, 1));
     const textInRange = document.getText(range);
 
     vscode.window.showInformationMessage(
-      `Text in range (0,0)-(0,5): "${textInRange}"`
+      `Looking at "${textInRange}" at ${gaze.position.line + 1}:${
+        gaze.position.character + 1
+      } (confidence ${gaze.confidence.toFixed(2)})`
     );
   });
 }
 
 export function grabOnYCoord() {
   return vscode.commands.registerCommand("gp3attention.grabOnYCoord", () => {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) {
-      vscode.window.showInformationMessage("No active editor!");
+    const gaze = mapLatestGaze();
+    if (!gaze) {
       return;
     }
 
-    // TODO: solve this Mac vs Everybody else issue
-    //   const GOLDEN_LINE_HEIGHT_RATIO = platform.isMacintosh ? 1.5 : 1.35;
-    const GOLDEN_LINE_HEIGHT_RATIO = 1.5;
-    const MINIMUM_LINE_HEIGHT = 8;
-
-    const config = vscode.workspace.getConfiguration("editor");
-    const fontSize = config.get<number>("fontSize") || 10;
-    console.log("Editor font size is:", fontSize);
-
-    const lineHeight = Math.round(GOLDEN_LINE_HEIGHT_RATIO * fontSize);
-
-    // Test grabbing line 7
-    const lineHeightInPixels = Math.max(lineHeight, MINIMUM_LINE_HEIGHT);
-    const input = Math.round((7 * lineHeightInPixels) / lineHeightInPixels) - 1;
-    const pos1 = new vscode.Position(input, 0);
-    const pos2 = new vscode.Position(input, 3);
-    const range = new vscode.Range(pos1, pos2);
-
-    const document = editor.document;
-    const textInRange = document.getText(range);
+    // Grab the line the user is looking at
+    const line = gaze.editor.document.lineAt(gaze.position.line);
 
     vscode.window.showInformationMessage(
-      `Text in range (0,0)-(0,5): "${textInRange}"`
+      `Line ${line.lineNumber + 1}: "${line.text.trim()}" (confidence ${gaze.confidence.toFixed(
+        2
+      )})`
     );
   });
 }
 
+/**
+ * Maps the most recent smoothed point of gaze of the running tracking session to the editor it
+ * falls on, telling the user why if that is not possible.
+ */
+function mapLatestGaze(): GazePosition | undefined {
+  if (!vscode.window.activeTextEditor) {
+    vscode.window.showInformationMessage("No active editor!");
+    return undefined;
+  }
+
+  const point = getGazePipeline()?.getLatestPoint();
+  if (!point || !getViewportTransform()) {
+    vscode.window.showInformationMessage(
+      "Launch a tracking session and calibrate the window first."
+    );
+    return undefined;
+  }
+  if (!point.valid) {
+    vscode.window.showInformationMessage("The tracker cannot see your eyes.");
+    return undefined;
+  }
+
+  const { region, gaze } = resolveGaze(point);
+  if (region.kind !== "editorGroup") {
+    vscode.window.showInformationMessage(
+      `You are looking at the ${region.kind}, not at an editor.`
+    );
+    return undefined;
+  }
+  if (!gaze) {
+    vscode.window.showInformationMessage("You are not looking at the text.");
+    return undefined;
+  }
+  if (gaze.kind !== "text") {
+    vscode.window.showInformationMessage(
+      `You are looking at a ${gaze.kind} row of line ${
+        gaze.position.line + 1
+      }, not at the text.`
+    );
+    return undefined;
+  }
+  return gaze;
+}
+
 export function showCalibrationText(uri: vscode.Uri) {
   return vscode.commands.registerCommand(
     "gp3attention.showCalibrationText",
@@ -135,7 +164,7 @@ export function openCommunication() {
       }
 
       // The code you place here will be executed
-      let tracker = new gp3Interface("127.0.0.1", 4242, true);
+      let tracker = new gp3Interface(readTrackerSettings(), true);
       // tracker.send("<START_STREAM>");
     }
   );
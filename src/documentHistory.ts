@@ -0,0 +1,237 @@
+/**
+ * Keeps every version of a document seen during a session, so a position recorded against one
+ * version can be found again in another after the participant typed in between.
+ */
+
+/** A position in a document, both 0-based like `vscode.Position`. */
+export interface TextPosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * A replacement of a range of text, as in `vscode.TextDocumentContentChangeEvent`. The changes
+ * of one version are applied one after the other.
+ */
+export interface TextChange {
+  start: TextPosition;
+  end: TextPosition;
+  text: string;
+}
+
+interface Revision {
+  version: number; // Version after the changes
+  changes: TextChange[];
+  inverse: TextChange[]; // Undoes `changes`, in the order they must be applied
+}
+
+// Revisions between full copies of the text, bounds the cost of `textAt`
+const CHECKPOINT_INTERVAL = 50;
+
+/**
+ * The versions of a document from the moment it was first seen.
+ */
+export class DocumentHistory {
+  private baseVersion: number;
+  private revisions: Revision[] = []; // Oldest first
+  private checkpoints: Map<number, string> = new Map(); // Text by version
+  private version: number;
+  private text: string;
+
+  /**
+   * @param version - `TextDocument.version` when the document was first seen.
+   * @param text - The text of that version.
+   */
+  constructor(version: number, text: string) {
+    this.baseVersion = version;
+    this.version = version;
+    this.text = text;
+    this.checkpoints.set(version, text);
+  }
+
+  /** The latest version recorded. */
+  public getVersion(): number {
+    return this.version;
+  }
+
+  /** The oldest version recorded. */
+  public getBaseVersion(): number {
+    return this.baseVersion;
+  }
+
+  /**
+   * Records the changes that turned the latest version into a new one.
+   *
+   * @param version - The version after the changes.
+   * @param changes - The changes, in the order they were applied.
+   */
+  public apply(version: number, changes: TextChange[]): void {
+    if (version <= this.version) {
+      throw new Error(`Version ${version} is not newer than ${this.version}`);
+    }
+
+    const inverse: TextChange[] = [];
+    for (const change of changes) {
+      const start = offsetAt(this.text, change.start);
+      const end = offsetAt(this.text, change.end);
+      inverse.unshift({
+        start: change.start,
+        end: endOf(change.start, change.text),
+        text: this.text.slice(start, end),
+      });
+      this.text =
+        this.text.slice(0, start) + change.text + this.text.slice(end);
+    }
+
+    this.revisions.push({ version, changes, inverse });
+    this.version = version;
+    if (this.revisions.length % CHECKPOINT_INTERVAL === 0) {
+      this.checkpoints.set(version, this.text);
+    }
+  }
+
+  /**
+   * The text of a version.
+   *
+   * @param version - The version.
+   * @returns The text, or `undefined` if the version was never recorded.
+   */
+  public textAt(version: number): string | undefined {
+    if (version === this.version) {
+      return this.text;
+    }
+    const index = this.revisionIndex(version);
+    if (index === undefined) {
+      return undefined;
+    }
+
+    // Replay from the closest full copy before the version
+    let start = index;
+    while (!this.checkpoints.has(this.versionAt(start))) {
+      start--;
+    }
+    let text = this.checkpoints.get(this.versionAt(start))!;
+    for (let i = start + 1; i <= index; i++) {
+      for (const change of this.revisions[i - 1].changes) {
+        text = replace(text, change);
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Finds a position of one version in another, following every edit in between.
+   *
+   * @param position - The position in `fromVersion`.
+   * @param fromVersion - The version the position was recorded against.
+   * @param toVersion - The version to translate to, older or newer.
+   * @returns The position, or `undefined` if the character at the position was deleted or
+   *          replaced in between, or either version was never recorded.
+   */
+  public translatePosition(
+    position: TextPosition,
+    fromVersion: number,
+    toVersion: number = this.version
+  ): TextPosition | undefined {
+    const from = this.revisionIndex(fromVersion);
+    const to = this.revisionIndex(toVersion);
+    if (from === undefined || to === undefined) {
+      return undefined;
+    }
+
+    let translated: TextPosition | undefined = position;
+    // Forward through the changes, or backward through their inverses
+    for (let i = from + 1; i <= to && translated; i++) {
+      for (const change of this.revisions[i - 1].changes) {
+        translated = translated && mapThrough(translated, change);
+      }
+    }
+    for (let i = from; i > to && translated; i--) {
+      for (const change of this.revisions[i - 1].inverse) {
+        translated = translated && mapThrough(translated, change);
+      }
+    }
+    return translated;
+  }
+
+  // 0 for the base version, i for the version after the i-th revision
+  private revisionIndex(version: number): number | undefined {
+    if (version === this.baseVersion) {
+      return 0;
+    }
+    const index = this.revisions.findIndex(
+      (revision) => revision.version === version
+    );
+    return index < 0 ? undefined : index + 1;
+  }
+
+  private versionAt(index: number): number {
+    return index === 0 ? this.baseVersion : this.revisions[index - 1].version;
+  }
+}
+
+/**
+ * Where a position ends up after a change.
+ *
+ * @param position - The position before the change.
+ * @param change - The change.
+ * @returns The position after the change, or `undefined` if the change removed the character
+ *          at the position.
+ */
+export function mapThrough(
+  position: TextPosition,
+  change: TextChange
+): TextPosition | undefined {
+  if (compare(position, change.start) < 0) {
+    return position;
+  }
+  if (compare(position, change.end) < 0) {
+    return undefined;
+  }
+
+  const newEnd = endOf(change.start, change.text);
+  if (position.line === change.end.line) {
+    return {
+      line: newEnd.line,
+      character: newEnd.character + position.character - change.end.character,
+    };
+  }
+  return {
+    line: position.line + newEnd.line - change.end.line,
+    character: position.character,
+  };
+}
+
+function compare(a: TextPosition, b: TextPosition): number {
+  return a.line === b.line ? a.character - b.character : a.line - b.line;
+}
+
+// Where inserted text ends
+function endOf(start: TextPosition, text: string): TextPosition {
+  const lastBreak = text.lastIndexOf("\n");
+  if (lastBreak < 0) {
+    return { line: start.line, character: start.character + text.length };
+  }
+  const breaks = text.split("\n").length - 1;
+  return { line: start.line + breaks, character: text.length - lastBreak - 1 };
+}
+
+function offsetAt(text: string, position: TextPosition): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = text.indexOf("\n", offset);
+    if (next < 0) {
+      return text.length;
+    }
+    offset = next + 1;
+  }
+  return Math.min(offset + position.character, text.length);
+}
+
+function replace(text: string, change: TextChange): string {
+  return (
+    text.slice(0, offsetAt(text, change.start)) +
+    change.text +
+    text.slice(offsetAt(text, change.end))
+  );
+}
@@ -0,0 +1,63 @@
+import * as vscode from "vscode";
+
+import { GazePipeline } from "./gazePipeline";
+import { screenPointOf } from "./positionMapper";
+
+/**
+ * Collects implicit drift anchors: right after a click or a keystroke the participant is very
+ * likely looking at the text cursor.
+ */
+export class ImplicitAnchorCollector implements vscode.Disposable {
+  private pipeline: GazePipeline;
+  private delayMs: number;
+  private subscription: vscode.Disposable;
+  private pending: NodeJS.Timeout | undefined; // Waits for the gaze to arrive at the cursor
+
+  /**
+   * @param pipeline - The pipeline of the running tracking session.
+   * @param delayMs - How long after a click or keystroke to take the gaze.
+   */
+  constructor(pipeline: GazePipeline, delayMs: number) {
+    this.pipeline = pipeline;
+    this.delayMs = delayMs;
+    this.subscription = vscode.window.onDidChangeTextEditorSelection((event) =>
+      this.handleSelection(event)
+    );
+  }
+
+  public dispose(): void {
+    this.subscription.dispose();
+    clearTimeout(this.pending);
+  }
+
+  private handleSelection(event: vscode.TextEditorSelectionChangeEvent): void {
+    // Commands move the cursor without the participant looking at it, and with several
+    // cursors there is no telling which one is looked at
+    const byUser =
+      event.kind === vscode.TextEditorSelectionChangeKind.Keyboard ||
+      event.kind === vscode.TextEditorSelectionChangeKind.Mouse;
+    if (!byUser || event.selections.length !== 1) {
+      return;
+    }
+
+    const editor = event.textEditor;
+    const position = event.selections[0].active;
+    clearTimeout(this.pending);
+    this.pending = setTimeout(() => {
+      const point = this.pipeline.getLatestPoint();
+      if (!point?.valid || editor !== vscode.window.activeTextEditor) {
+        return;
+      }
+      const expected = screenPointOf(editor, position);
+      if (!expected) {
+        return;
+      }
+      this.pipeline.addDriftAnchor({
+        source: "implicit",
+        expected,
+        observed: { x: point.x, y: point.y },
+        time: Date.now(),
+      });
+    }, this.delayMs);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Corrects the slow drift of the tracker's accuracy over a session, e.g. when the participant
+ * shifts in their seat, without a full recalibration. Whenever the gaze is very likely on a
+ * known point (an anchor), the difference between where the tracker put the gaze and where it
+ * must have been updates a running offset that is added to every later gaze point.
+ */
+
+import { ScreenPoint } from "./calibration";
+
+export type AnchorSource = "implicit" | "explicit";
+
+/**
+ * A moment the gaze is very likely on a known point: implicit anchors come from clicks and
+ * keystrokes at the text cursor, explicit ones from asking the participant to look at a dot.
+ */
+export interface DriftAnchor {
+  source: AnchorSource;
+  expected: ScreenPoint; // Where the gaze must have been
+  observed: ScreenPoint; // Where the tracker put it, without correction
+  time: number; // Milliseconds since the epoch
+}
+
+export interface DriftCorrectionSettings {
+  implicitWeight: number; // How far an implicit anchor moves the offset, 0 to 1
+  explicitWeight: number; // How far an explicit anchor moves the offset, 0 to 1
+  maxAnchorError: number; // Implicit anchors further off than this were not looked at
+  maxOffset: number; // Largest correction applied
+}
+
+export const DEFAULT_DRIFT_CORRECTION_SETTINGS: DriftCorrectionSettings = {
+  implicitWeight: 0.05,
+  explicitWeight: 1,
+  maxAnchorError: 0.08,
+  maxOffset: 0.1,
+};
+
+/**
+ * What an anchor did to the correction.
+ */
+export interface DriftUpdate {
+  anchor: DriftAnchor;
+  accepted: boolean;
+  reason?: string; // Why the anchor was rejected
+  offset: ScreenPoint; // The offset after the anchor
+}
+
+/**
+ * Keeps the running offset.
+ */
+export class DriftCorrector {
+  private settings: DriftCorrectionSettings;
+  private offset: ScreenPoint = { x: 0, y: 0 };
+
+  constructor(
+    settings: DriftCorrectionSettings = DEFAULT_DRIFT_CORRECTION_SETTINGS
+  ) {
+    this.settings = settings;
+  }
+
+  /** The offset added to gaze points. */
+  public getOffset(): ScreenPoint {
+    return { ...this.offset };
+  }
+
+  /**
+   * Corrects a gaze point.
+   *
+   * @param point - The gaze point as reported by the tracker.
+   */
+  public correct(point: ScreenPoint): ScreenPoint {
+    return { x: point.x + this.offset.x, y: point.y + this.offset.y };
+  }
+
+  /**
+   * Updates the offset with an anchor, unless it is an implicit anchor too far off to be
+   * trusted. Explicit anchors are always looked at, the participant was asked to.
+   *
+   * @param anchor - The anchor.
+   */
+  public addAnchor(anchor: DriftAnchor): DriftUpdate {
+    // Judge the anchor by the error that remains after the current correction
+    const corrected = this.correct(anchor.observed);
+    const error = Math.hypot(
+      anchor.expected.x - corrected.x,
+      anchor.expected.y - corrected.y
+    );
+    if (
+      anchor.source === "implicit" &&
+      !(error <= this.settings.maxAnchorError)
+    ) {
+      return {
+        anchor,
+        accepted: false,
+        reason: `The gaze was ${error.toFixed(3)} away from the anchor.`,
+        offset: this.getOffset(),
+      };
+    }
+
+    const weight =
+      anchor.source === "explicit"
+        ? this.settings.explicitWeight
+        : this.settings.implicitWeight;
+    const target = {
+      x: anchor.expected.x - anchor.observed.x,
+      y: anchor.expected.y - anchor.observed.y,
+    };
+    const next = {
+      x: this.offset.x + weight * (target.x - this.offset.x),
+      y: this.offset.y + weight * (target.y - this.offset.y),
+    };
+
+    // Never move the gaze further than a plausible drift
+    const length = Math.hypot(next.x, next.y);
+    const scale =
+      length > this.settings.maxOffset ? this.settings.maxOffset / length : 1;
+    this.offset = { x: next.x * scale, y: next.y * scale };
+    return { anchor, accepted: true, offset: this.getOffset() };
+  }
+
+  /**
+   * Drops the correction, e.g. after a recalibration.
+   */
+  public reset(): void {
+    this.offset = { x: 0, y: 0 };
+  }
+}
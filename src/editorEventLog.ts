@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import * as vscode from "vscode";
+
+import { AppendJournal } from "./appendJournal";
+import {
+  activeEditorEvent,
+  describeEditor,
+  editEvent,
+  EditorEventBody,
+  layoutEvent,
+  selectionEvent,
+} from "./editorEvents";
+import { SessionBundle } from "./sessionBundle";
+import { readEditorMetrics } from "./settings";
+
+/**
+ * Records what the editors show while a session runs, so gaze can be mapped to code again
+ * after the fact, even if the user scrolled or typed in between.
+ */
+export class EditorEventLog implements vscode.Disposable {
+  private outputPath: string;
+  private journal: AppendJournal;
+  private disposables: vscode.Disposable[] = [];
+  private documents: Set<string> = new Set(); // URIs of the documents logged, see `logDocument`
+  private failed = false; // Only report the first write error
+
+  /**
+   * Creates the log in the bundle of a session and starts recording.
+   *
+   * @param bundle - The session.
+   */
+  constructor(bundle: SessionBundle) {
+    this.outputPath = bundle.addFile("editorEvents", "editor.jsonl");
+    fs.writeFileSync(this.outputPath, "");
+    this.journal = new AppendJournal(this.outputPath, (error) => {
+      if (!this.failed) {
+        this.failed = true;
+        vscode.window.showErrorMessage(`Failed to log editor event: ${error}`);
+      }
+    });
+
+    // Start with the state of the window, later events are changes to it
+    this.append({ type: "metrics", metrics: readEditorMetrics() });
+    this.append({ type: "focus", focused: vscode.window.state.focused });
+    this.logLayout(vscode.window.visibleTextEditors);
+    this.logActiveEditor(vscode.window.activeTextEditor);
+
+    this.disposables.push(
+      vscode.window.onDidChangeTextEditorVisibleRanges((event) =>
+        this.append({
+          type: "visibleRanges",
+          ...describeEditor(event.textEditor),
+        })
+      ),
+      vscode.window.onDidChangeTextEditorSelection((event) =>
+        this.append(
+          selectionEvent(event.textEditor, event.selections, event.kind)
+        )
+      ),
+      vscode.window.onDidChangeActiveTextEditor((editor) =>
+        this.logActiveEditor(editor)
+      ),
+      vscode.window.onDidChangeVisibleTextEditors((editors) =>
+        this.logLayout(editors)
+      ),
+      vscode.window.onDidChangeTextEditorViewColumn(() =>
+        this.logLayout(vscode.window.visibleTextEditors)
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (
+          !this.documents.has(event.document.uri.toString()) ||
+          event.contentChanges.length === 0
+        ) {
+          return; // Never shown in an editor, e.g. an output channel
+        }
+        this.append(
+          editEvent(event.document, event.contentChanges, event.reason)
+        );
+      }),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        // Versions start over when the document is opened again
+        this.documents.delete(document.uri.toString());
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration("editor.fontSize") ||
+          event.affectsConfiguration("editor.lineHeight") ||
+          event.affectsConfiguration("window.zoomLevel") ||
+          event.affectsConfiguration("gp3attention.mapping")
+        ) {
+          this.append({ type: "metrics", metrics: readEditorMetrics() });
+        }
+      }),
+      vscode.window.onDidChangeWindowState((state) =>
+        this.append({ type: "focus", focused: state.focused })
+      )
+    );
+  }
+
+  // Get file path
+  public getFilePath(): string {
+    return this.outputPath;
+  }
+
+  /**
+   * Stops recording. The log is complete once this returns.
+   */
+  public dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+    this.journal.close();
+  }
+
+  private logActiveEditor(editor: vscode.TextEditor | undefined): void {
+    if (editor) {
+      this.logDocument(editor.document);
+    }
+    this.append(activeEditorEvent(editor));
+  }
+
+  private logLayout(editors: readonly vscode.TextEditor[]): void {
+    editors.forEach((editor) => this.logDocument(editor.document));
+    this.append(layoutEvent(editors));
+  }
+
+  // Edits only make sense against the text they were applied to
+  private logDocument(document: vscode.TextDocument): void {
+    const uri = document.uri.toString();
+    if (this.documents.has(uri)) {
+      return;
+    }
+    this.documents.add(uri);
+    this.append({
+      type: "document",
+      uri,
+      languageId: document.languageId,
+      version: document.version,
+      text: document.getText(),
+    });
+  }
+
+  private append(event: EditorEventBody): void {
+    this.journal.append(JSON.stringify({ time: Date.now(), ...event }) + "\n");
+  }
+}
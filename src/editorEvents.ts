@@ -0,0 +1,176 @@
+/**
+ * The lines of the editor event log and how they are made from what VS Code reports. The
+ * serializers take the shapes of the VS Code types rather than the types themselves, so they
+ * work on plain data too.
+ */
+
+import { EditorMetrics } from "./windowCalibration";
+
+/** A range as `[startLine, startCharacter, endLine, endCharacter]`, all 0-based. */
+export type LoggedRange = [number, number, number, number];
+
+/** The state of a visible editor. */
+export interface LoggedEditor {
+  uri: string;
+  viewColumn?: number;
+  version: number; // Document version shown
+  visibleRanges: LoggedRange[];
+}
+
+/**
+ * What happened, see `EditorEvent`.
+ */
+export type EditorEventBody =
+  | {
+      type: "document"; // First time a document shows up in the session
+      uri: string;
+      languageId: string;
+      version: number;
+      text: string;
+    }
+  | ({ type: "visibleRanges" } & LoggedEditor)
+  | {
+      type: "selection";
+      uri: string;
+      viewColumn?: number;
+      selections: LoggedRange[]; // Anchor first, active end (the cursor) second
+      kind?: number; // vscode.TextEditorSelectionChangeKind
+    }
+  | { type: "activeEditor"; uri: string | null; viewColumn?: number }
+  | {
+      type: "edit";
+      uri: string;
+      version: number; // Version after the edit
+      changes: { range: LoggedRange; text: string }[];
+      reason?: number; // vscode.TextDocumentChangeReason, undo or redo
+    }
+  | { type: "layout"; editors: LoggedEditor[] }
+  | { type: "metrics"; metrics: EditorMetrics }
+  | { type: "focus"; focused: boolean };
+
+/**
+ * One line of the editor event log. `time` is milliseconds since the epoch, the same clock as
+ * `receivedAt` of the gaze samples.
+ */
+export type EditorEvent = { time: number } & EditorEventBody;
+
+/** A position as VS Code reports it, e.g. a `vscode.Position`. */
+export interface PositionLike {
+  line: number;
+  character: number;
+}
+
+/** A range as VS Code reports it, e.g. a `vscode.Range`. */
+export interface RangeLike {
+  start: PositionLike;
+  end: PositionLike;
+}
+
+/** A document as VS Code reports it, e.g. a `vscode.TextDocument`. */
+export interface DocumentLike {
+  uri: { toString(): string };
+  version: number;
+}
+
+/** An editor as VS Code reports it, e.g. a `vscode.TextEditor`. */
+export interface EditorLike {
+  document: DocumentLike;
+  viewColumn?: number;
+  visibleRanges: readonly RangeLike[];
+}
+
+/**
+ * Flattens a range for the log.
+ */
+export function toRange(range: RangeLike): LoggedRange {
+  return [
+    range.start.line,
+    range.start.character,
+    range.end.line,
+    range.end.character,
+  ];
+}
+
+/**
+ * The state of a visible editor.
+ */
+export function describeEditor(editor: EditorLike): LoggedEditor {
+  return {
+    uri: editor.document.uri.toString(),
+    viewColumn: editor.viewColumn,
+    version: editor.document.version,
+    visibleRanges: editor.visibleRanges.map(toRange),
+  };
+}
+
+/**
+ * The editor that has the focus changed.
+ *
+ * @param editor - The active editor, `undefined` if none is.
+ */
+export function activeEditorEvent(
+  editor: EditorLike | undefined
+): EditorEventBody {
+  return {
+    type: "activeEditor",
+    uri: editor ? editor.document.uri.toString() : null,
+    viewColumn: editor?.viewColumn,
+  };
+}
+
+/**
+ * The visible editors changed, or moved to other columns.
+ */
+export function layoutEvent(editors: readonly EditorLike[]): EditorEventBody {
+  return { type: "layout", editors: editors.map(describeEditor) };
+}
+
+/**
+ * The selections of an editor changed.
+ *
+ * @param editor - The editor.
+ * @param selections - Its selections, e.g. `vscode.Selection`s.
+ * @param kind - What changed them, a `vscode.TextEditorSelectionChangeKind`.
+ */
+export function selectionEvent(
+  editor: EditorLike,
+  selections: readonly { anchor: PositionLike; active: PositionLike }[],
+  kind?: number
+): EditorEventBody {
+  return {
+    type: "selection",
+    uri: editor.document.uri.toString(),
+    viewColumn: editor.viewColumn,
+    selections: selections.map(({ anchor, active }) => [
+      anchor.line,
+      anchor.character,
+      active.line,
+      active.character,
+    ]),
+    kind,
+  };
+}
+
+/**
+ * A document was edited.
+ *
+ * @param document - The document, at the version after the edit.
+ * @param changes - The changes, against the version before.
+ * @param reason - A `vscode.TextDocumentChangeReason` for undo and redo.
+ */
+export function editEvent(
+  document: DocumentLike,
+  changes: readonly { range: RangeLike; text: string }[],
+  reason?: number
+): EditorEventBody {
+  return {
+    type: "edit",
+    uri: document.uri.toString(),
+    version: document.version,
+    changes: changes.map((change) => ({
+      range: toRange(change.range),
+      text: change.text,
+    })),
+    reason,
+  };
+}
@@ -1,72 +1,100 @@
 import { ChildProcess, spawn } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
+import { performance } from "perf_hooks";
 import * as vscode from "vscode";
 
-// Interface for tag data
-interface TagEntry {
-  tag: string;
-  timestamp: number;
-  visible: boolean;
-}
+import { AppendJournal } from "./appendJournal";
+import { registerAttentionExplorer } from "./attentionExplorer";
+import { showSymbolAttention } from "./attentionRecorder";
+import { AutoTagger } from "./autoTags";
+import { grabOnYCoord, grabStatically } from "./demo-commands";
+import { EditorEventLog } from "./editorEventLog";
+import { EyeMovementLog } from "./eyeMovementLog";
+import { GazeSampleLog } from "./gazeSampleLog";
+import { gp3Interface } from "./gp3Interface";
+import { toggleHeatmap } from "./heatmapDecorations";
+import {
+  calibrateWorkbenchLayout,
+  checkDrift,
+  launchTrackingSession,
+} from "./launchTrackingSession";
+import { registerInsertionCache } from "./positionMapper";
+import {
+  checkUnfinalizedSessions,
+  recordingsDirOf,
+  recoverSessions,
+} from "./recordedSessions";
+import {
+  jumpInReplay,
+  replaySession,
+  setReplaySpeed,
+  stepReplayBackward,
+  stepReplayForward,
+  stopReplay,
+  toggleReplayPlayback,
+} from "./scanpathPlayer";
+import { SessionBundle } from "./sessionBundle";
+import { showSessionDashboard } from "./sessionDashboard";
+import { readTagSchema } from "./settings";
+import { formatTagRow, parseTagCsv, TAG_LOG_HEADER, TagRecord } from "./tagLog";
+import { planToggle, TagDefinition, tagKeybindings } from "./tagSchema";
+import { reconnectTracker, showTrackerStatus } from "./trackerStatusBar";
+import {
+  getActiveTracker,
+  getRecordingSession,
+  getTrackerCalibration,
+  onDidChangeActiveTracker,
+  setRecordingSession,
+} from "./trackingState";
 
 // Tag Manager Class
 export class TagManager {
   private outputPath: string;
+  private journal: AppendJournal;
   private activeDelayedTags: Map<string, NodeJS.Timeout> = new Map();
   private sessionStartTime: number;
+  private clockOrigin: number; // Monotonic time of the start row, wall clocks may jump
   private visibleTags: Set<string> = new Set(); // Track currently visible tags
 
-  constructor(workspaceFolder: string) {
-    this.sessionStartTime = Date.now();
-
-    // Create output directory if it doesn't exist
-    const outputDir = path.join(workspaceFolder, ".vscode", "recordings");
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    }
-
-    // Create CSV file with timestamp
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/:/g, "-")
-      .replace(/\./g, "_");
-    this.outputPath = path.join(outputDir, `tags_${timestamp}.csv`);
+  constructor(bundle: SessionBundle) {
+    this.sessionStartTime = bundle.getStart();
+    this.outputPath = bundle.addFile("tags", "tags.csv");
 
     // Write CSV header
-    fs.writeFileSync(this.outputPath, "tag,timestamp,visible\n");
+    fs.writeFileSync(this.outputPath, TAG_LOG_HEADER);
+    // Rows are flushed to disk every second, so a crash loses at most that
+    this.journal = new AppendJournal(this.outputPath, (error) =>
+      vscode.window.showErrorMessage(`Failed to save tag: ${error}`)
+    );
 
     // Initialize with start tag
+    this.clockOrigin = performance.now();
     this.appendEntry("start", true);
   }
 
   // Append a tag entry to the CSV
   private appendEntry(tag: string, visible: boolean): void {
-    let timestamp: string;
+    this.journal.append(
+      formatTagRow({
+        tag,
+        time: Date.now(),
+        elapsedMs: performance.now() - this.clockOrigin,
+        visible,
+      })
+    );
 
-    // For 'start' tag, use just the year
-    if (tag === "start") {
-      timestamp = new Date().getFullYear().toString();
+    // Update tracking of visible tags
+    if (visible) {
+      this.visibleTags.add(tag);
     } else {
-      // For other tags, use ISO format without milliseconds
-      timestamp = new Date().toISOString().slice(0, 19);
-    }
-
-    // Use capital True/False to match your example
-    const visibleStr = visible ? "True" : "False";
-    const line = `${tag},${timestamp},${visibleStr}\n`;
-
-    try {
-      fs.appendFileSync(this.outputPath, line);
-
-      // Update tracking of visible tags
-      if (visible) {
-        this.visibleTags.add(tag);
-      } else {
-        this.visibleTags.delete(tag);
+      this.visibleTags.delete(tag);
+      // A tag hidden before its delay ran out must not be hidden again later
+      const timeout = this.activeDelayedTags.get(tag);
+      if (timeout) {
+        clearTimeout(timeout);
+        this.activeDelayedTags.delete(tag);
       }
-    } catch (error) {
-      vscode.window.showErrorMessage(`Failed to save tag: ${error}`);
     }
   }
 
@@ -126,6 +154,7 @@ export class TagManager {
 
     // Finally, add (start, visible=False)
     this.appendEntry("start", false);
+    this.journal.close();
   }
 
   // Get all currently visible tags
@@ -139,20 +168,13 @@ export class TagManager {
   }
 
   // Read all entries from CSV (useful for debugging or display)
-  public getAllEntries(): TagEntry[] {
+  public getAllEntries(): TagRecord[] {
+    this.journal.flush();
     try {
-      const content = fs.readFileSync(this.outputPath, "utf-8");
-      const lines = content.split("\n").slice(1); // Skip header
-      return lines
-        .filter((line) => line.trim())
-        .map((line) => {
-          const [tag, timestamp, visible] = line.split(",");
-          return {
-            tag,
-            timestamp: parseInt(timestamp),
-            visible: visible === "true",
-          };
-        });
+      return parseTagCsv(
+        fs.readFileSync(this.outputPath, "utf-8"),
+        this.sessionStartTime
+      );
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to read tags: ${error}`);
       return [];
@@ -165,26 +187,43 @@ class RecordingManager {
   private ffmpegProcess: ChildProcess | null = null;
   private outputPath: string | null = null;
 
-  public startRecording(workspaceFolder: string): void {
+  // Record into the running session, or next to the sessions if none is running
+  public startRecording(
+    workspaceFolder: string,
+    bundle: SessionBundle | null
+  ): void {
     if (this.ffmpegProcess) {
       vscode.window.showWarningMessage("Recording is already in progress");
       return;
     }
 
-    // Generate timestamp for filename
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/:/g, "-")
-      .replace(/\./g, "_")
-      .slice(0, -5); // Remove last 5 chars (milliseconds and Z)
-
-    // Create output directory
-    const outputDir = path.join(workspaceFolder, ".vscode", "recordings");
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
+    // The manifest holds one face video per session, its clock offset would be overwritten
+    if (bundle?.getFile("faceVideo")) {
+      vscode.window.showWarningMessage(
+        "This session already has a face video. Initialize a new tag manager to record another."
+      );
+      return;
     }
 
-    this.outputPath = path.join(outputDir, `face_${timestamp}.mov`);
+    if (bundle) {
+      // Video time 0 is when ffmpeg was started
+      this.outputPath = bundle.addFile("faceVideo", "face.mov", Date.now());
+    } else {
+      // Generate timestamp for filename
+      const timestamp = new Date()
+        .toISOString()
+        .replace(/:/g, "-")
+        .replace(/\./g, "_")
+        .slice(0, -5); // Remove last 5 chars (milliseconds and Z)
+
+      // Create output directory
+      const outputDir = recordingsDirOf(workspaceFolder);
+      if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+      }
+
+      this.outputPath = path.join(outputDir, `face_${timestamp}.mov`);
+    }
 
     // FFmpeg command arguments
     const args = [
@@ -260,6 +299,12 @@ class RecordingManager {
 // Global instances
 let recordingManager: RecordingManager | null = null;
 let tagManager: TagManager | null = null;
+let autoTagger: AutoTagger | null = null; // Tags IDE activity into the session
+let editorEventLog: EditorEventLog | null = null;
+let eyeMovementLog: EyeMovementLog | null = null;
+let gazeSampleLog: GazeSampleLog | null = null;
+let trackerSubscription: vscode.Disposable | null = null; // Records trackers into the session
+let extensionVersion = "unknown";
 
 // Command: Start FFmpeg Recording
 export function startRecording() {
@@ -274,7 +319,7 @@ export function startRecording() {
       recordingManager = new RecordingManager();
     }
 
-    recordingManager.startRecording(workspaceFolder);
+    recordingManager.startRecording(workspaceFolder, getRecordingSession());
   });
 }
 
@@ -294,7 +339,7 @@ export function stopRecording() {
 export function initializeTagManager() {
   return vscode.commands.registerCommand(
     "gp3attention.initializeTagManager",
-    () => {
+    async () => {
       const workspaceFolder =
         vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
       if (!workspaceFolder) {
@@ -307,7 +352,56 @@ export function initializeTagManager() {
         return;
       }
 
-      tagManager = new TagManager(workspaceFolder);
+      const participantId = await vscode.window.showInputBox({
+        prompt: "Participant ID (optional)",
+        placeHolder: "e.g., P07",
+      });
+      if (participantId === undefined) {
+        return;
+      }
+
+      // Saved with the session, the schema file may change between studies
+      let tagSchema: TagDefinition[] | undefined;
+      try {
+        tagSchema = readTagSchema();
+      } catch (error) {
+        vscode.window.showWarningMessage(
+          `Failed to read the tag schema, it is not saved with the session: ${error}`
+        );
+      }
+
+      let bundle: SessionBundle;
+      try {
+        bundle = SessionBundle.create(
+          recordingsDirOf(workspaceFolder),
+          new Date(),
+          {
+            extensionVersion,
+            participantId: participantId.trim() || undefined,
+          }
+        );
+        bundle.updateSettings({
+          configuration: JSON.parse(
+            JSON.stringify(vscode.workspace.getConfiguration("gp3attention"))
+          ),
+          tagSchema,
+        });
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to create the session: ${error}`
+        );
+        return;
+      }
+      tagManager = new TagManager(bundle);
+      autoTagger = new AutoTagger(tagManager);
+      editorEventLog = new EditorEventLog(bundle);
+      eyeMovementLog = new EyeMovementLog(bundle);
+      gazeSampleLog = new GazeSampleLog(bundle);
+      setRecordingSession(bundle);
+      recordTracker(bundle, getActiveTracker());
+      trackerSubscription = onDidChangeActiveTracker((tracker) =>
+        recordTracker(bundle, tracker)
+      );
       vscode.window.showInformationMessage(
         `Tag manager initialized: ${tagManager.getFilePath()}`
       );
@@ -391,6 +485,111 @@ export function addTagWithDelay() {
   );
 }
 
+// Command: Toggle Tag, bindable to keys with args { "tag": "reading" }, or picked from the schema
+export function toggleTag() {
+  return vscode.commands.registerCommand(
+    "gp3attention.toggleTag",
+    async (args?: { tag?: string; visible?: boolean }) => {
+      if (!tagManager) {
+        vscode.window.showErrorMessage("Tag manager not initialized");
+        return;
+      }
+
+      let schema: TagDefinition[];
+      try {
+        schema = readTagSchema();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to read the tag schema: ${error}`
+        );
+        return;
+      }
+
+      let tag = args?.tag;
+      if (!tag) {
+        if (schema.length === 0) {
+          vscode.window.showErrorMessage(
+            "No tags defined, see the gp3attention.tags.schema setting"
+          );
+          return;
+        }
+        const visibleTags = tagManager.getVisibleTags();
+        const picked = await vscode.window.showQuickPick(
+          schema.map((definition) => ({
+            label: definition.name,
+            description: [
+              definition.kind,
+              definition.group && `group ${definition.group}`,
+              definition.autoOffSeconds && `${definition.autoOffSeconds}s`,
+              visibleTags.includes(definition.name) && "(currently visible)",
+            ]
+              .filter(Boolean)
+              .join(" · "),
+          })),
+          { placeHolder: "Select tag to toggle" }
+        );
+        if (!picked || !tagManager) {
+          return;
+        }
+        tag = picked.label;
+      }
+
+      const changes = planToggle(
+        schema,
+        tagManager.getVisibleTags(),
+        tag,
+        args?.visible
+      );
+      for (const change of changes) {
+        if (change.visible && change.autoOffSeconds !== undefined) {
+          tagManager.addTagWithDelay(change.tag, change.autoOffSeconds);
+        } else {
+          tagManager.toggleTagVisibility(change.tag, change.visible);
+        }
+      }
+      const state = tagManager.getVisibleTags().includes(tag)
+        ? "shown"
+        : changes.some((change) => change.tag === tag && change.visible)
+          ? "marked"
+          : "hidden";
+      vscode.window.setStatusBarMessage(`Tag '${tag}' ${state}`, 3000);
+    }
+  );
+}
+
+// Command: Generate Tag Keybindings for the schema, to paste into keybindings.json
+export function showTagKeybindings() {
+  return vscode.commands.registerCommand(
+    "gp3attention.showTagKeybindings",
+    async () => {
+      let schema: TagDefinition[];
+      try {
+        schema = readTagSchema();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to read the tag schema: ${error}`
+        );
+        return;
+      }
+      if (schema.length === 0) {
+        vscode.window.showErrorMessage(
+          "No tags defined, see the gp3attention.tags.schema setting"
+        );
+        return;
+      }
+
+      const document = await vscode.workspace.openTextDocument({
+        language: "jsonc",
+        content:
+          "// Paste into keybindings.json (Preferences: Open Keyboard Shortcuts (JSON))\n" +
+          JSON.stringify(tagKeybindings(schema), null, 2) +
+          "\n",
+      });
+      await vscode.window.showTextDocument(document);
+    }
+  );
+}
+
 // Command: Toggle Tag Visibility
 export function toggleTagVisibility() {
   return vscode.commands.registerCommand(
@@ -454,21 +653,93 @@ export function showVisibleTags() {
 export function finalizeSession() {
   return vscode.commands.registerCommand("gp3attention.finalizeSession", () => {
     if (tagManager) {
-      tagManager.finalize();
       vscode.window.showInformationMessage(
         "Session finalized - all visible tags closed"
       );
-      tagManager = null;
     }
+    endSession();
+  });
+}
 
-    if (recordingManager && recordingManager.isRecording()) {
-      recordingManager.stopRecording();
+// Close the tags, logs and video of the session and mark it as ended. Also runs on shutdown,
+// sessions left without an end are offered for recovery on the next start
+function endSession(): void {
+  // Its tags are closed when the activity stopped, before the rest
+  autoTagger?.dispose();
+  autoTagger = null;
+  if (tagManager) {
+    tagManager.finalize();
+    tagManager = null;
+  }
+
+  trackerSubscription?.dispose();
+  trackerSubscription = null;
+  const bundle = getRecordingSession();
+  if (bundle) {
+    try {
+      bundle.update({ endedAt: new Date().toISOString() });
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to save the session manifest: ${error}`
+      );
     }
-  });
+    setRecordingSession(null);
+  }
+
+  if (editorEventLog) {
+    editorEventLog.dispose();
+    editorEventLog = null;
+  }
+
+  if (eyeMovementLog) {
+    eyeMovementLog.dispose();
+    eyeMovementLog = null;
+  }
+
+  if (gazeSampleLog) {
+    gazeSampleLog.dispose();
+    gazeSampleLog = null;
+  }
+
+  if (recordingManager && recordingManager.isRecording()) {
+    recordingManager.stopRecording();
+  }
+}
+
+// Record the tracker and its calibration in the manifest of the session
+async function recordTracker(
+  bundle: SessionBundle,
+  tracker: gp3Interface | null
+): Promise<void> {
+  if (!tracker) {
+    return;
+  }
+  const { host, port } = tracker.getSettings();
+  const [product, serial] = await Promise.all([
+    tracker.get("PRODUCT_ID").catch(() => undefined),
+    tracker.get("SERIAL_ID").catch(() => undefined),
+  ]);
+  try {
+    bundle.update({
+      tracker: {
+        host,
+        port,
+        productId: product?.VALUE,
+        serialId: serial?.VALUE,
+      },
+      calibration: getTrackerCalibration() ?? undefined,
+    });
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to save the session manifest: ${error}`
+    );
+  }
 }
 
 // Extension activation
 export function activate(context: vscode.ExtensionContext) {
+  extensionVersion = context.extension.packageJSON.version ?? "unknown";
+
   // Register all commands
   context.subscriptions.push(
     startRecording(),
@@ -477,29 +748,44 @@ export function activate(context: vscode.ExtensionContext) {
     addTag(),
     addTagWithDelay(),
     toggleTagVisibility(),
+    toggleTag(),
+    showTagKeybindings(),
     showVisibleTags(),
-    finalizeSession()
+    finalizeSession(),
+    launchTrackingSession(),
+    calibrateWorkbenchLayout(),
+    checkDrift(),
+    showSymbolAttention(),
+    toggleHeatmap(),
+    replaySession(),
+    toggleReplayPlayback(),
+    stepReplayForward(),
+    stepReplayBackward(),
+    setReplaySpeed(),
+    jumpInReplay(),
+    stopReplay(),
+    showSessionDashboard(),
+    recoverSessions(),
+    registerAttentionExplorer(),
+    registerInsertionCache(),
+    reconnectTracker(),
+    showTrackerStatus(() => recordingManager?.isRecording() ?? false),
+    grabStatically(),
+    grabOnYCoord()
   );
 
   // Cleanup on deactivation
-  context.subscriptions.push({
-    dispose: () => {
-      if (tagManager) {
-        tagManager.finalize();
-      }
-      if (recordingManager && recordingManager.isRecording()) {
-        recordingManager.stopRecording();
-      }
-    },
-  });
+  context.subscriptions.push({ dispose: endSession });
+
+  // Sessions cut short by a crash
+  checkUnfinalizedSessions().catch((error) =>
+    vscode.window.showErrorMessage(
+      `Failed to check for unfinalized sessions: ${error}`
+    )
+  );
 }
 
 // Extension deactivation
 export function deactivate() {
-  if (tagManager) {
-    tagManager.finalize();
-  }
-  if (recordingManager && recordingManager.isRecording()) {
-    recordingManager.stopRecording();
-  }
+  endSession();
 }
@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import * as vscode from "vscode";
+
+import { AppendJournal } from "./appendJournal";
+import { AttentionRecorder, AttributedFixation } from "./attentionRecorder";
+import { GazePipeline } from "./gazePipeline";
+import { SessionBundle } from "./sessionBundle";
+import {
+  getAttentionRecorder,
+  getGazePipeline,
+  onDidChangeAttentionRecorder,
+  onDidChangeGazePipeline,
+} from "./trackingState";
+
+/**
+ * Records the fixations, saccades and blinks of the running tracking session in the bundle of
+ * a session, one JSON object per line, along with every drift correction and the code each
+ * fixation was attributed to. The detection parameters are written to the log and the session
+ * manifest whenever a tracking session starts.
+ */
+export class EyeMovementLog implements vscode.Disposable {
+  private bundle: SessionBundle;
+  private outputPath: string;
+  private journal: AppendJournal;
+  private pipelineSubscriptions: vscode.Disposable[] = [];
+  private recorderSubscription: vscode.Disposable | undefined;
+  private subscriptions: vscode.Disposable[];
+  private failed = false; // Only report the first write error
+
+  /**
+   * Creates the log and starts recording the current and any later tracking session.
+   *
+   * @param bundle - The session.
+   */
+  constructor(bundle: SessionBundle) {
+    this.bundle = bundle;
+    this.outputPath = bundle.addFile("eyeMovements", "eye_movements.jsonl");
+    fs.writeFileSync(this.outputPath, "");
+    this.journal = new AppendJournal(this.outputPath, (error) => {
+      if (!this.failed) {
+        this.failed = true;
+        vscode.window.showErrorMessage(`Failed to log eye movement: ${error}`);
+      }
+    });
+
+    this.attach(getGazePipeline());
+    this.attachRecorder(getAttentionRecorder());
+    this.subscriptions = [
+      onDidChangeGazePipeline((pipeline) => this.attach(pipeline)),
+      onDidChangeAttentionRecorder((recorder) => this.attachRecorder(recorder)),
+    ];
+  }
+
+  // Get file path
+  public getFilePath(): string {
+    return this.outputPath;
+  }
+
+  public dispose(): void {
+    this.subscriptions.forEach((subscription) => subscription.dispose());
+    this.pipelineSubscriptions.forEach((subscription) =>
+      subscription.dispose()
+    );
+    this.recorderSubscription?.dispose();
+    this.journal.close();
+  }
+
+  private attach(pipeline: GazePipeline | null): void {
+    this.pipelineSubscriptions.forEach((subscription) =>
+      subscription.dispose()
+    );
+    this.pipelineSubscriptions = [];
+    if (!pipeline) {
+      return;
+    }
+
+    const settings = pipeline.getSettings();
+    this.append({ type: "detection", time: Date.now(), settings });
+    try {
+      this.bundle.updateSettings({ fixationDetection: settings });
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to save the session manifest: ${error}`
+      );
+    }
+    this.pipelineSubscriptions = [
+      pipeline.onEvent((event) => this.append(event)),
+      pipeline.onDriftCorrection(({ anchor, ...update }) =>
+        this.append({ type: "drift", time: anchor.time, anchor, ...update })
+      ),
+    ];
+  }
+
+  private attachRecorder(recorder: AttentionRecorder | null): void {
+    this.recorderSubscription?.dispose();
+    this.recorderSubscription = recorder?.onDidAttribute((attribution) =>
+      this.append(describeAttribution(attribution))
+    );
+  }
+
+  private append(entry: object): void {
+    this.journal.append(JSON.stringify(entry) + "\n");
+  }
+}
+
+// Follows the fixation it belongs to in the log, `time` is the end of the fixation
+function describeAttribution({
+  fixation,
+  region,
+  uri,
+  version,
+  position,
+  token,
+  symbols,
+}: AttributedFixation): object {
+  return {
+    type: "attribution",
+    time: fixation.end,
+    start: fixation.start,
+    duration: fixation.duration,
+    region,
+    uri,
+    version,
+    position: position && [position.line, position.character],
+    token: token && { start: token.start, end: token.end, text: token.text },
+    symbols,
+  };
+}
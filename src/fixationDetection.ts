@@ -0,0 +1,246 @@
+/**
+ * Detects fixations, saccades and blinks in the raw point of gaze stream, so results do not
+ * depend on the fixation filter of the tracker firmware. Two classic algorithms are offered:
+ *
+ * - I-VT (velocity threshold): samples slower than the threshold belong to a fixation.
+ * - I-DT (dispersion threshold): samples that stay within a small area for long enough form a
+ *   fixation.
+ *
+ * Both run online, one sample at a time.
+ */
+
+import { ScreenPoint } from "./calibration";
+
+export type DetectionAlgorithm = "ivt" | "idt";
+
+/**
+ * Parameters of the detection. Distances are in normalized screen coordinates; x and y are not
+ * scaled to the aspect ratio of the screen.
+ */
+export interface DetectionSettings {
+  algorithm: DetectionAlgorithm;
+  minFixationDurationMs: number; // Shorter fixations are dropped
+  maxDispersion: number; // I-DT: (max x - min x) + (max y - min y) of a fixation
+  velocityThreshold: number; // I-VT: screen units per second above which a sample is a saccade
+  minBlinkDurationMs: number; // Shorter gaps in the data are ignored
+  maxBlinkDurationMs: number; // Longer gaps are tracking loss rather than blinks
+}
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  algorithm: "ivt",
+  minFixationDurationMs: 100,
+  maxDispersion: 0.03,
+  velocityThreshold: 0.6,
+  minBlinkDurationMs: 50,
+  maxBlinkDurationMs: 500,
+};
+
+/** One sample of the point of gaze. */
+export interface GazePoint extends ScreenPoint {
+  time: number; // Milliseconds
+  valid: boolean;
+}
+
+export interface FixationEvent extends ScreenPoint {
+  type: "fixation";
+  start: number; // Time of the first sample, in ms
+  end: number; // Time of the last sample, in ms
+  duration: number; // Milliseconds
+  dispersion: number;
+  sampleCount: number;
+}
+
+export interface SaccadeEvent {
+  type: "saccade";
+  start: number; // End of the previous fixation
+  end: number; // Start of the next fixation
+  duration: number;
+  from: ScreenPoint;
+  to: ScreenPoint;
+  amplitude: number; // Distance from `from` to `to`
+  peakVelocity: number; // Screen units per second
+}
+
+export interface BlinkEvent {
+  type: "blink";
+  start: number; // First invalid sample
+  end: number; // First valid sample after the gap
+  duration: number;
+}
+
+export type EyeMovementEvent = FixationEvent | SaccadeEvent | BlinkEvent;
+
+/**
+ * Turns a stream of gaze samples into fixation, saccade and blink events. Saccades are
+ * reported right before the fixation they end in, so a fixation is only reported once it is
+ * over.
+ */
+export class FixationDetector {
+  private settings: DetectionSettings;
+  private window: GazePoint[] = []; // Samples of the fixation candidate
+  private fixating = false; // I-DT: whether the window is long enough to be a fixation
+  private previousPoint: GazePoint | null = null; // Last valid sample
+  private previousFixation: FixationEvent | null = null; // Start of the next saccade
+  private peakVelocity = 0; // Since the previous fixation
+  private gapStart: number | null = null; // First invalid sample of a gap
+
+  constructor(settings: DetectionSettings = DEFAULT_DETECTION_SETTINGS) {
+    this.settings = settings;
+  }
+
+  /**
+   * Feeds the next sample.
+   *
+   * @param point - The sample. Samples must arrive in time order.
+   * @returns The events that ended with this sample.
+   */
+  public push(point: GazePoint): EyeMovementEvent[] {
+    const events: EyeMovementEvent[] = [];
+    if (
+      !point.valid ||
+      !Number.isFinite(point.x) ||
+      !Number.isFinite(point.y)
+    ) {
+      this.gapStart ??= point.time;
+      return events;
+    }
+
+    if (this.gapStart !== null) {
+      this.endGap(point.time, events);
+    }
+
+    const velocity = this.previousPoint
+      ? distance(this.previousPoint, point) /
+        Math.max((point.time - this.previousPoint.time) / 1000, 1e-3)
+      : 0;
+    this.previousPoint = point;
+    this.peakVelocity = Math.max(this.peakVelocity, velocity);
+
+    if (this.settings.algorithm === "ivt") {
+      this.pushIvt(point, velocity, events);
+    } else {
+      this.pushIdt(point, events);
+    }
+    return events;
+  }
+
+  /**
+   * Ends the stream, reporting the fixation in progress if it is long enough.
+   */
+  public flush(): EyeMovementEvent[] {
+    const events: EyeMovementEvent[] = [];
+    this.closeFixation(events);
+    return events;
+  }
+
+  private pushIvt(
+    point: GazePoint,
+    velocity: number,
+    events: EyeMovementEvent[]
+  ): void {
+    if (velocity > this.settings.velocityThreshold) {
+      this.closeFixation(events);
+    } else {
+      this.window.push(point);
+    }
+  }
+
+  private pushIdt(point: GazePoint, events: EyeMovementEvent[]): void {
+    this.window.push(point);
+    if (this.fixating) {
+      if (dispersion(this.window) > this.settings.maxDispersion) {
+        this.window.pop();
+        this.closeFixation(events);
+        this.window = [point];
+      }
+      return;
+    }
+
+    // Slide the window until its samples are close enough together
+    while (
+      this.window.length > 1 &&
+      dispersion(this.window) > this.settings.maxDispersion
+    ) {
+      this.window.shift();
+    }
+    this.fixating =
+      duration(this.window) >= this.settings.minFixationDurationMs;
+  }
+
+  // Reports the window as a fixation if it is long enough, and starts a new one
+  private closeFixation(events: EyeMovementEvent[]): void {
+    const window = this.window;
+    this.window = [];
+    this.fixating = false;
+    if (
+      window.length === 0 ||
+      duration(window) < this.settings.minFixationDurationMs
+    ) {
+      return;
+    }
+
+    const fixation: FixationEvent = {
+      type: "fixation",
+      x: window.reduce((sum, point) => sum + point.x, 0) / window.length,
+      y: window.reduce((sum, point) => sum + point.y, 0) / window.length,
+      start: window[0].time,
+      end: window[window.length - 1].time,
+      duration: duration(window),
+      dispersion: dispersion(window),
+      sampleCount: window.length,
+    };
+
+    const previous = this.previousFixation;
+    if (previous) {
+      const to = { x: window[0].x, y: window[0].y };
+      events.push({
+        type: "saccade",
+        start: previous.end,
+        end: fixation.start,
+        duration: fixation.start - previous.end,
+        from: { x: previous.x, y: previous.y },
+        to,
+        amplitude: distance(previous, to),
+        peakVelocity: this.peakVelocity,
+      });
+    }
+    events.push(fixation);
+    this.previousFixation = fixation;
+    this.peakVelocity = 0;
+  }
+
+  private endGap(end: number, events: EyeMovementEvent[]): void {
+    const start = this.gapStart!;
+    this.gapStart = null;
+    if (end - start < this.settings.minBlinkDurationMs) {
+      return; // A few dropped samples, the fixation goes on
+    }
+
+    this.closeFixation(events);
+    if (end - start <= this.settings.maxBlinkDurationMs) {
+      events.push({ type: "blink", start, end, duration: end - start });
+    }
+    // The eyes may have moved anywhere in the meantime
+    this.previousFixation = null;
+    this.previousPoint = null;
+    this.peakVelocity = 0;
+  }
+}
+
+function distance(a: ScreenPoint, b: ScreenPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function duration(points: GazePoint[]): number {
+  return points.length > 0
+    ? points[points.length - 1].time - points[0].time
+    : 0;
+}
+
+function dispersion(points: GazePoint[]): number {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  return (
+    Math.max(...xs) - Math.min(...xs) + (Math.max(...ys) - Math.min(...ys))
+  );
+}
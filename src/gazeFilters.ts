@@ -0,0 +1,258 @@
+/**
+ * Smoothing filters for the point of gaze, for consumers that show gaze live and would
+ * otherwise jitter with the tracker noise. Recordings keep the raw stream; filters only shape
+ * what live consumers see.
+ */
+
+import { GazePoint } from "./fixationDetection";
+
+export type FilterKind = "movingAverage" | "median" | "oneEuro" | "kalman";
+
+/**
+ * Parameters of the filters. Filters are applied in the order of `chain`.
+ */
+export interface FilterSettings {
+  chain: FilterKind[];
+  windowSize: number; // Samples averaged by the moving average and median filters
+  oneEuro: {
+    minCutoff: number; // Hz, lower smooths more when the gaze rests
+    beta: number; // How fast the cutoff rises with the gaze velocity
+    derivativeCutoff: number; // Hz, smoothing of the velocity estimate
+  };
+  kalman: {
+    processNoise: number; // Variance the gaze is expected to move by per second
+    measurementNoise: number; // Variance of the tracker noise
+  };
+  downsampleHz: number; // Rate to thin the filtered stream to, 0 to keep every sample
+}
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  chain: ["oneEuro"],
+  windowSize: 5,
+  oneEuro: { minCutoff: 1, beta: 1, derivativeCutoff: 1 },
+  kalman: { processNoise: 0.005, measurementNoise: 0.0001 },
+  downsampleHz: 0,
+};
+
+/**
+ * A filter over valid samples. Filters keep state between samples and start over on `reset`.
+ */
+export interface GazeFilter {
+  filter(point: GazePoint): GazePoint;
+  reset(): void;
+}
+
+/**
+ * Averages the last samples.
+ */
+export class MovingAverageFilter implements GazeFilter {
+  private windowSize: number;
+  private window: GazePoint[] = [];
+
+  constructor(windowSize: number) {
+    this.windowSize = windowSize;
+  }
+
+  public filter(point: GazePoint): GazePoint {
+    this.window.push(point);
+    if (this.window.length > this.windowSize) {
+      this.window.shift();
+    }
+    return {
+      ...point,
+      x: mean(this.window.map((sample) => sample.x)),
+      y: mean(this.window.map((sample) => sample.y)),
+    };
+  }
+
+  public reset(): void {
+    this.window = [];
+  }
+}
+
+/**
+ * Takes the median of the last samples, which removes single outliers without blurring jumps.
+ */
+export class MedianFilter implements GazeFilter {
+  private windowSize: number;
+  private window: GazePoint[] = [];
+
+  constructor(windowSize: number) {
+    this.windowSize = windowSize;
+  }
+
+  public filter(point: GazePoint): GazePoint {
+    this.window.push(point);
+    if (this.window.length > this.windowSize) {
+      this.window.shift();
+    }
+    return {
+      ...point,
+      x: median(this.window.map((sample) => sample.x)),
+      y: median(this.window.map((sample) => sample.y)),
+    };
+  }
+
+  public reset(): void {
+    this.window = [];
+  }
+}
+
+/**
+ * The One Euro filter (Casiez et al., 2012): a low-pass filter whose cutoff rises with the
+ * velocity, so a resting gaze is smooth and a saccade is followed without lag.
+ */
+export class OneEuroFilter implements GazeFilter {
+  private settings: FilterSettings["oneEuro"];
+  private previous: GazePoint | null = null; // Previous filtered sample
+  private dx = 0; // Filtered velocity, screen units per second
+  private dy = 0;
+
+  constructor(settings: FilterSettings["oneEuro"]) {
+    this.settings = settings;
+  }
+
+  public filter(point: GazePoint): GazePoint {
+    const previous = this.previous;
+    if (!previous || point.time <= previous.time) {
+      this.previous = point;
+      return point;
+    }
+
+    const dt = (point.time - previous.time) / 1000;
+    const derivativeAlpha = alpha(this.settings.derivativeCutoff, dt);
+    this.dx += derivativeAlpha * ((point.x - previous.x) / dt - this.dx);
+    this.dy += derivativeAlpha * ((point.y - previous.y) / dt - this.dy);
+
+    const speed = Math.hypot(this.dx, this.dy);
+    const cutoff = this.settings.minCutoff + this.settings.beta * speed;
+    const a = alpha(cutoff, dt);
+    const filtered = {
+      ...point,
+      x: previous.x + a * (point.x - previous.x),
+      y: previous.y + a * (point.y - previous.y),
+    };
+    this.previous = filtered;
+    return filtered;
+  }
+
+  public reset(): void {
+    this.previous = null;
+    this.dx = 0;
+    this.dy = 0;
+  }
+}
+
+/**
+ * A Kalman filter that models the gaze as a point moving at random, one axis at a time.
+ */
+export class KalmanFilter implements GazeFilter {
+  private settings: FilterSettings["kalman"];
+  private estimate: GazePoint | null = null;
+  private variance = 0; // Of the estimate, the same for both axes
+
+  constructor(settings: FilterSettings["kalman"]) {
+    this.settings = settings;
+  }
+
+  public filter(point: GazePoint): GazePoint {
+    const estimate = this.estimate;
+    if (!estimate) {
+      this.estimate = point;
+      this.variance = this.settings.measurementNoise;
+      return point;
+    }
+
+    // Predict: the gaze may have moved since the last sample
+    const dt = Math.max(point.time - estimate.time, 0) / 1000;
+    const predicted = this.variance + this.settings.processNoise * dt;
+    // Update: weigh the sample against the prediction
+    const gain = predicted / (predicted + this.settings.measurementNoise);
+    this.variance = (1 - gain) * predicted;
+    this.estimate = {
+      ...point,
+      x: estimate.x + gain * (point.x - estimate.x),
+      y: estimate.y + gain * (point.y - estimate.y),
+    };
+    return this.estimate;
+  }
+
+  public reset(): void {
+    this.estimate = null;
+    this.variance = 0;
+  }
+}
+
+/**
+ * Runs samples through a chain of filters. Invalid samples are passed on unfiltered and start
+ * the filters over, so smoothing never bridges a blink or tracking loss.
+ */
+export class FilterChain {
+  private filters: GazeFilter[];
+  private downsampleMs: number;
+  private lastEmitted = -Infinity; // Time of the last sample passed on
+
+  constructor(settings: FilterSettings) {
+    this.filters = settings.chain.map((kind) => createFilter(kind, settings));
+    this.downsampleMs =
+      settings.downsampleHz > 0 ? 1000 / settings.downsampleHz : 0;
+  }
+
+  /**
+   * Filters the next sample.
+   *
+   * @param point - The raw sample.
+   * @returns The filtered sample, or `undefined` if it is dropped by the downsampling.
+   */
+  public push(point: GazePoint): GazePoint | undefined {
+    let filtered = point;
+    if (point.valid && Number.isFinite(point.x) && Number.isFinite(point.y)) {
+      for (const filter of this.filters) {
+        filtered = filter.filter(filtered);
+      }
+    } else {
+      this.filters.forEach((filter) => filter.reset());
+    }
+
+    // Filters see every sample, only the output is thinned
+    if (
+      this.downsampleMs > 0 &&
+      point.time - this.lastEmitted < this.downsampleMs
+    ) {
+      return undefined;
+    }
+    this.lastEmitted = point.time;
+    return filtered;
+  }
+}
+
+function createFilter(kind: FilterKind, settings: FilterSettings): GazeFilter {
+  switch (kind) {
+    case "movingAverage":
+      return new MovingAverageFilter(settings.windowSize);
+    case "median":
+      return new MedianFilter(settings.windowSize);
+    case "oneEuro":
+      return new OneEuroFilter(settings.oneEuro);
+    case "kalman":
+      return new KalmanFilter(settings.kalman);
+  }
+}
+
+// Smoothing factor of a first order low-pass filter
+function alpha(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
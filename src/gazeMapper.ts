@@ -0,0 +1,222 @@
+/**
+ * Maps a gaze point to a position in the document shown by an editor. Everything here works on
+ * plain data (a viewport transform and a snapshot of the editor), so it can be tested without a
+ * tracker or a running editor.
+ */
+
+import { ScreenPoint } from "./calibration";
+import {
+  buildVisualRows,
+  characterAtColumn,
+  columnOfCharacter,
+  LayoutInput,
+} from "./visualLayout";
+import { EditorMetrics, ViewportTransform } from "./windowCalibration";
+
+export type WordWrap = "off" | "on" | "wordWrapColumn" | "bounded";
+
+/**
+ * The state of an editor needed to map a gaze point to a position.
+ */
+export interface ViewportSnapshot extends Omit<
+  LayoutInput,
+  "wrapColumn" | "maxRows"
+> {
+  wordWrap: WordWrap; // editor.wordWrap
+  wordWrapColumn: number; // editor.wordWrapColumn
+  metrics: EditorMetrics; // The editor settings right now
+}
+
+/**
+ * What a gaze point landed on. Only `text` is document text; code lens rows and sticky
+ * headers are rows the editor inserts, and inlay hints are columns it inserts.
+ */
+export type MappedKind = "text" | "codeLens" | "stickyHeader" | "inlayHint";
+
+/**
+ * A gaze point resolved to a document position.
+ */
+export interface MappedPosition {
+  kind: MappedKind;
+  line: number; // 0-based document line, for decoration rows the line they belong to
+  character: number; // 0-based character index in the line
+  confidence: number; // 0 (a guess) to 1 (right in the middle of a character)
+}
+
+// Columns past the end of a line over which the confidence drops to zero
+const LINE_END_TOLERANCE = 8;
+
+/**
+ * The zoom factor VS Code applies for a `window.zoomLevel`.
+ *
+ * @param zoomLevel - The zoom level, 0 is the default size.
+ */
+export function zoomFactor(zoomLevel: number): number {
+  return Math.pow(1.2, zoomLevel);
+}
+
+/**
+ * Adapts a transform to editor settings that changed since it was measured. The text area stays
+ * where it is, but rows and columns grow or shrink with the font size, line height and zoom.
+ *
+ * @param transform - The measured transform.
+ * @param metrics - The editor settings right now.
+ */
+export function rescaleTransform(
+  transform: ViewportTransform,
+  metrics: EditorMetrics
+): ViewportTransform {
+  const then = transform.metrics;
+  const zoom = zoomFactor(metrics.zoomLevel) / zoomFactor(then.zoomLevel);
+  const rowScale = (metrics.lineHeight / then.lineHeight) * zoom;
+  const columnScale =
+    ((metrics.fontSize * metrics.characterWidthRatio) /
+      (then.fontSize * then.characterWidthRatio)) *
+    zoom;
+
+  return {
+    ...transform,
+    rowHeight: transform.rowHeight * rowScale,
+    columnWidth: transform.columnWidth * columnScale,
+    metrics,
+  };
+}
+
+/**
+ * Maps a gaze point to the document position under it. The rows of the editor are rebuilt
+ * first, so folded regions, wrapped lines, code lenses, sticky headers and inlay hints do not
+ * shift the result.
+ *
+ * @param point - The gaze point in normalized screen coordinates.
+ * @param transform - Where the text area is on screen.
+ * @param viewport - The state of the editor.
+ * @returns The position, or `undefined` if the point is outside the text area or below the
+ *          last line of the document. Points on rows or columns inserted by the editor are
+ *          returned with their `kind` set accordingly.
+ */
+export function mapGazeToPosition(
+  point: ScreenPoint,
+  transform: ViewportTransform,
+  viewport: ViewportSnapshot
+): MappedPosition | undefined {
+  const scaled = rescaleTransform(transform, viewport.metrics);
+  const x = point.x - scaled.originX;
+  const y = point.y - scaled.originY;
+  if (x < 0 || y < 0 || x > scaled.width || y > scaled.height) {
+    return undefined;
+  }
+
+  const rowPosition = y / scaled.rowHeight;
+  const columns = Math.floor(scaled.width / scaled.columnWidth);
+  const rows = buildVisualRows({
+    ...viewport,
+    wrapColumn: wrapColumn(viewport, columns),
+    maxRows: Math.floor(rowPosition) + 1,
+  });
+  const row = rows[Math.floor(rowPosition)];
+  if (!row) {
+    return undefined;
+  }
+
+  // Least sure on the border between two rows
+  const rowCentrality = 1 - Math.abs((rowPosition % 1) - 0.5);
+  if (row.kind !== "text") {
+    return {
+      kind: row.kind,
+      line: row.line,
+      character: 0,
+      confidence: rowCentrality,
+    };
+  }
+
+  const hit = characterAtColumn(
+    viewport.lineText(row.line),
+    row,
+    Math.floor(x / scaled.columnWidth),
+    viewport.tabSize,
+    viewport.insertions.get(row.line)
+  );
+
+  // ... and far past the end of the line
+  const lineEndPenalty = Math.max(0, 1 - hit.overshoot / LINE_END_TOLERANCE);
+  return {
+    kind: hit.onInsertion ? "inlayHint" : "text",
+    line: row.line,
+    character: hit.character,
+    confidence: rowCentrality * lineEndPenalty,
+  };
+}
+
+/**
+ * Finds where a document position is shown on screen, the inverse of `mapGazeToPosition`.
+ *
+ * @param line - 0-based document line.
+ * @param character - 0-based character index in the line.
+ * @param transform - Where the text area is on screen.
+ * @param viewport - The state of the editor.
+ * @returns The centre of the character in normalized screen coordinates, or `undefined` if the
+ *          position is not shown, e.g. scrolled out of view, folded or under a sticky header.
+ */
+export function positionToScreen(
+  line: number,
+  character: number,
+  transform: ViewportTransform,
+  viewport: ViewportSnapshot
+): ScreenPoint | undefined {
+  const scaled = rescaleTransform(transform, viewport.metrics);
+  const columns = Math.floor(scaled.width / scaled.columnWidth);
+  const rows = buildVisualRows({
+    ...viewport,
+    wrapColumn: wrapColumn(viewport, columns),
+    maxRows: Math.floor(scaled.height / scaled.rowHeight),
+  });
+
+  const index = rows.findIndex(
+    (row, rowIndex) =>
+      row.kind === "text" &&
+      row.line === line &&
+      character >= row.startCharacter &&
+      // The end of the line belongs to its last row
+      (character < row.endCharacter ||
+        rows[rowIndex + 1]?.kind !== "text" ||
+        rows[rowIndex + 1]?.line !== line)
+  );
+  const row = rows[index];
+  if (!row || row.kind !== "text") {
+    return undefined;
+  }
+
+  const column = columnOfCharacter(
+    viewport.lineText(line),
+    row,
+    character,
+    viewport.tabSize,
+    viewport.insertions.get(line)
+  );
+  return {
+    x: scaled.originX + (column + 0.5) * scaled.columnWidth,
+    y: scaled.originY + (index + 0.5) * scaled.rowHeight,
+  };
+}
+
+/**
+ * The number of columns after which lines wrap, following `editor.wordWrap`.
+ *
+ * @param viewport - The state of the editor.
+ * @param viewportColumns - How many columns fit in the text area.
+ */
+export function wrapColumn(
+  viewport: Pick<ViewportSnapshot, "wordWrap" | "wordWrapColumn">,
+  viewportColumns: number
+): number | undefined {
+  switch (viewport.wordWrap) {
+    case "on":
+      return viewportColumns;
+    case "wordWrapColumn":
+      return viewport.wordWrapColumn;
+    case "bounded":
+      return Math.min(viewportColumns, viewport.wordWrapColumn);
+    default:
+      return undefined;
+  }
+}
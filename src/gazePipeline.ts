@@ -0,0 +1,187 @@
+import * as vscode from "vscode";
+
+import { ScreenPoint } from "./calibration";
+import {
+  DriftAnchor,
+  DriftCorrectionSettings,
+  DriftCorrector,
+  DriftUpdate,
+} from "./driftCorrection";
+import {
+  DetectionSettings,
+  EyeMovementEvent,
+  FixationDetector,
+  FixationEvent,
+  GazePoint,
+} from "./fixationDetection";
+import { FilterChain, FilterSettings } from "./gazeFilters";
+import { GazeSample, gp3Interface } from "./gp3Interface";
+
+/**
+ * A record of the tracker with the time it was taken.
+ */
+export interface TimedSample {
+  sample: GazeSample;
+  time: number; // Milliseconds since the epoch, see `GazePipeline`
+}
+
+/**
+ * Processes the samples of a tracker for the rest of the extension:
+ *
+ * - The raw samples are passed on untouched for recording.
+ * - Fixation detection runs on the raw best point of gaze.
+ * - Live consumers get the best point of gaze smoothed by the configured filters.
+ * - Drift correction, if enabled, keeps an offset that the gaze mapper adds to gaze points.
+ *
+ * Times are in milliseconds since the epoch, like the rest of the session logs; they are
+ * derived from the tracker's own time stamps so network jitter does not distort durations.
+ */
+export class GazePipeline implements vscode.Disposable {
+  private detector: FixationDetector;
+  private filterChain: FilterChain;
+  private settings: DetectionSettings;
+  private filterSettings: FilterSettings;
+  private subscription: vscode.Disposable;
+  private latestPoint: GazePoint | null = null; // Most recent smoothed point
+  private driftCorrector: DriftCorrector | null; // Null when drift correction is off
+  private clockOffset: number | null = null; // Epoch ms minus tracker ms
+  private lastTrackerTime = -Infinity; // Tracker ms of the previous sample
+
+  private readonly rawSampleEmitter = new vscode.EventEmitter<TimedSample>();
+  private readonly gazeEmitter = new vscode.EventEmitter<GazePoint>();
+  private readonly eventEmitter = new vscode.EventEmitter<EyeMovementEvent>();
+  private readonly fixationEmitter = new vscode.EventEmitter<FixationEvent>();
+  private readonly driftEmitter = new vscode.EventEmitter<DriftUpdate>();
+
+  /** Fires for every record of the tracker, for recording. */
+  public readonly onRawSample: vscode.Event<TimedSample> =
+    this.rawSampleEmitter.event;
+  /** Fires for every smoothed point of gaze, for live consumers. */
+  public readonly onGaze: vscode.Event<GazePoint> = this.gazeEmitter.event;
+  /** Fires for every fixation, saccade and blink once it is over. */
+  public readonly onEvent: vscode.Event<EyeMovementEvent> =
+    this.eventEmitter.event;
+  /** Fires for every fixation once it is over. */
+  public readonly onFixation: vscode.Event<FixationEvent> =
+    this.fixationEmitter.event;
+  /** Fires for every drift anchor, accepted or not. */
+  public readonly onDriftCorrection: vscode.Event<DriftUpdate> =
+    this.driftEmitter.event;
+
+  constructor(
+    tracker: gp3Interface,
+    settings: DetectionSettings,
+    filterSettings: FilterSettings,
+    driftSettings: DriftCorrectionSettings | null
+  ) {
+    this.settings = settings;
+    this.filterSettings = filterSettings;
+    this.driftCorrector = driftSettings && new DriftCorrector(driftSettings);
+    this.detector = new FixationDetector(settings);
+    this.filterChain = new FilterChain(filterSettings);
+    this.subscription = tracker.onSample((sample) => this.handleSample(sample));
+  }
+
+  /** The parameters the detection runs with. */
+  public getSettings(): DetectionSettings {
+    return this.settings;
+  }
+
+  /** The parameters the smoothing runs with. */
+  public getFilterSettings(): FilterSettings {
+    return this.filterSettings;
+  }
+
+  /**
+   * The most recent smoothed point of gaze, if any. Check `valid` before using it.
+   */
+  public getLatestPoint(): GazePoint | null {
+    return this.latestPoint;
+  }
+
+  /** Whether drift correction is enabled. */
+  public isCorrectingDrift(): boolean {
+    return this.driftCorrector !== null;
+  }
+
+  /**
+   * Applies the drift correction to a gaze point.
+   *
+   * @param point - The gaze point as reported by the tracker.
+   */
+  public correctDrift<T extends ScreenPoint>(point: T): T {
+    return this.driftCorrector
+      ? { ...point, ...this.driftCorrector.correct(point) }
+      : point;
+  }
+
+  /**
+   * Updates the drift correction with an anchor.
+   *
+   * @param anchor - The anchor.
+   * @returns What the anchor did, or `undefined` if drift correction is off.
+   */
+  public addDriftAnchor(anchor: DriftAnchor): DriftUpdate | undefined {
+    if (!this.driftCorrector) {
+      return undefined;
+    }
+    const update = this.driftCorrector.addAnchor(anchor);
+    this.driftEmitter.fire(update);
+    return update;
+  }
+
+  /**
+   * Stops the detection, reporting the fixation in progress.
+   */
+  public dispose(): void {
+    this.subscription.dispose();
+    this.emit(this.detector.flush());
+    this.rawSampleEmitter.dispose();
+    this.gazeEmitter.dispose();
+    this.eventEmitter.dispose();
+    this.fixationEmitter.dispose();
+    this.driftEmitter.dispose();
+  }
+
+  private handleSample(sample: GazeSample): void {
+    const time = this.toEpochMs(sample);
+    this.rawSampleEmitter.fire({ sample, time });
+
+    const point = {
+      x: sample.bpogx,
+      y: sample.bpogy,
+      time,
+      valid: sample.bpogv,
+    };
+    this.emit(this.detector.push(point));
+
+    const smoothed = this.filterChain.push(point);
+    if (smoothed) {
+      this.latestPoint = smoothed;
+      this.gazeEmitter.fire(smoothed);
+    }
+  }
+
+  private emit(events: EyeMovementEvent[]): void {
+    for (const event of events) {
+      this.eventEmitter.fire(event);
+      if (event.type === "fixation") {
+        this.fixationEmitter.fire(event);
+      }
+    }
+  }
+
+  // Anchors the tracker clock to the wall clock at the first sample
+  private toEpochMs(sample: GazeSample): number {
+    if (!Number.isFinite(sample.time)) {
+      return sample.receivedAt;
+    }
+    const trackerTime = sample.time * 1000;
+    if (this.clockOffset === null || trackerTime < this.lastTrackerTime) {
+      // First sample, or the tracker restarted and its clock started over
+      this.clockOffset = sample.receivedAt - trackerTime;
+    }
+    this.lastTrackerTime = trackerTime;
+    return trackerTime + this.clockOffset;
+  }
+}
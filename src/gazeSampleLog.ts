@@ -0,0 +1,101 @@
+import * as fs from "fs";
+import * as vscode from "vscode";
+
+import { AppendJournal } from "./appendJournal";
+import { GazePipeline, TimedSample } from "./gazePipeline";
+import { SessionBundle } from "./sessionBundle";
+import { getGazePipeline, onDidChangeGazePipeline } from "./trackingState";
+
+const HEADER =
+  "time,received_at,tracker_time,cnt,bpogx,bpogy,bpogv,fpogx,fpogy,fpogs,fpogd,fpogid,fpogv\n";
+
+/**
+ * Records every record of the running tracking session, unfiltered, in the bundle of a
+ * session. Smoothing and downsampling only apply to live consumers, never to this log.
+ */
+export class GazeSampleLog implements vscode.Disposable {
+  private bundle: SessionBundle;
+  private outputPath: string;
+  private journal: AppendJournal;
+  private pipelineSubscription: vscode.Disposable | undefined;
+  private subscription: vscode.Disposable;
+  private failed = false; // Only report the first write error
+
+  /**
+   * Creates the log and starts recording the current and any later tracking session.
+   *
+   * @param bundle - The session.
+   */
+  constructor(bundle: SessionBundle) {
+    this.bundle = bundle;
+    this.outputPath = bundle.addFile("gaze", "gaze.csv");
+
+    fs.writeFileSync(this.outputPath, HEADER);
+    // The tracker sends far too many records to write each on its own
+    this.journal = new AppendJournal(this.outputPath, (error) => {
+      if (!this.failed) {
+        this.failed = true;
+        vscode.window.showErrorMessage(`Failed to record gaze: ${error}`);
+      }
+    });
+
+    this.attach(getGazePipeline());
+    this.subscription = onDidChangeGazePipeline((pipeline) =>
+      this.attach(pipeline)
+    );
+  }
+
+  // Get file path
+  public getFilePath(): string {
+    return this.outputPath;
+  }
+
+  public dispose(): void {
+    this.subscription.dispose();
+    this.pipelineSubscription?.dispose();
+    this.journal.close();
+  }
+
+  private attach(pipeline: GazePipeline | null): void {
+    this.pipelineSubscription?.dispose();
+    this.pipelineSubscription = undefined;
+    if (!pipeline) {
+      return;
+    }
+
+    try {
+      this.bundle.updateSettings({
+        gazeFilters: pipeline.getFilterSettings(),
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to save the session manifest: ${error}`
+      );
+    }
+    this.pipelineSubscription = pipeline.onRawSample((record) =>
+      this.journal.append(formatRecord(record))
+    );
+  }
+}
+
+function formatRecord({ sample, time }: TimedSample): string {
+  return (
+    [
+      time,
+      sample.receivedAt,
+      sample.time,
+      sample.cnt,
+      sample.bpogx,
+      sample.bpogy,
+      sample.bpogv ? 1 : 0,
+      sample.fpogx,
+      sample.fpogy,
+      sample.fpogs,
+      sample.fpogd,
+      sample.fpogid,
+      sample.fpogv ? 1 : 0,
+    ]
+      .map((value) => (Number.isNaN(value) ? "" : value))
+      .join(",") + "\n"
+  );
+}
@@ -0,0 +1,149 @@
+import { Gp3CommandId, Gp3CommandParams } from "./gp3Protocol";
+
+/**
+ * The lifecycle of the connection to Gazepoint Control.
+ *
+ * - `connecting`: the first connection attempt is in progress.
+ * - `connected`: the socket is open and commands can be sent.
+ * - `reconnecting`: the connection failed or dropped and another attempt is scheduled or running.
+ * - `failed`: every attempt allowed by the retry policy failed. Call `reconnect()` to start over.
+ * - `disconnected`: the connection was closed on purpose with `close()`.
+ */
+export type ConnectionState =
+  "connecting" | "connected" | "reconnecting" | "failed" | "disconnected";
+
+/**
+ * How hard to try to reach Gazepoint Control again.
+ */
+export interface ReconnectPolicy {
+  maxAttempts: number; // Attempts after the first failure before the state becomes `failed`
+  initialDelayMs: number; // Delay before the first retry, doubled for every further retry
+  maxDelayMs: number; // Upper bound for the delay between retries
+}
+
+/**
+ * The delay before a retry.
+ *
+ * @param attempt - The retry, from 1.
+ * @param policy - The retry policy.
+ */
+export function backoffDelay(attempt: number, policy: ReconnectPolicy): number {
+  return Math.min(
+    policy.initialDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+}
+
+/**
+ * The state of the connection without the socket: which state follows which, when to retry
+ * and which data streams to enable again once reconnected. `gp3Interface` opens the sockets
+ * and runs the timers.
+ */
+export class ConnectionLifecycle {
+  private policy: ReconnectPolicy;
+  private onDidChange: (state: ConnectionState) => void;
+  private state: ConnectionState = "connecting";
+  private attempt: number = 0; // Failed attempts since the last successful connection
+  private hasConnected: boolean = false; // Whether any attempt ever succeeded
+  private enabledStreams: Map<Gp3CommandId, Gp3CommandParams> = new Map(); // Re-sent after a reconnect
+
+  /**
+   * @param policy - The retry policy.
+   * @param onDidChange - Called whenever the state changes.
+   */
+  constructor(
+    policy: ReconnectPolicy,
+    onDidChange: (state: ConnectionState) => void
+  ) {
+    this.policy = policy;
+    this.onDidChange = onDidChange;
+  }
+
+  public getState(): ConnectionState {
+    return this.state;
+  }
+
+  /** Failed attempts since the last successful connection. */
+  public getAttempt(): number {
+    return this.attempt;
+  }
+
+  /**
+   * A connection attempt starts.
+   */
+  public attemptStarted(): void {
+    this.setState(
+      this.hasConnected || this.attempt > 0 ? "reconnecting" : "connecting"
+    );
+  }
+
+  /**
+   * The socket connected.
+   *
+   * @returns The streams to enable again, none for the first connection.
+   */
+  public connected(): [Gp3CommandId, Gp3CommandParams][] {
+    const isReconnect = this.hasConnected;
+    this.attempt = 0;
+    this.hasConnected = true;
+    this.setState("connected");
+    return isReconnect ? [...this.enabledStreams] : [];
+  }
+
+  /**
+   * The socket closed, or the attempt failed.
+   *
+   * @returns How long to wait before the next attempt, or `undefined` if there is none because
+   *          the connection was closed on purpose or the retry policy is exhausted.
+   */
+  public closed(): number | undefined {
+    if (this.state === "disconnected") {
+      return undefined;
+    }
+    this.attempt++;
+    if (this.attempt > this.policy.maxAttempts) {
+      this.setState("failed");
+      return undefined;
+    }
+    this.setState("reconnecting");
+    return backoffDelay(this.attempt, this.policy);
+  }
+
+  /**
+   * Starts over with a fresh set of attempts.
+   */
+  public reset(): void {
+    this.attempt = 0;
+  }
+
+  /**
+   * The connection is closed on purpose, nothing follows.
+   */
+  public disconnect(): void {
+    this.setState("disconnected");
+  }
+
+  /**
+   * Remembers which streams are on, so they can be enabled again after a reconnect.
+   *
+   * @param id - The ID of a `SET` command.
+   * @param params - Its parameters.
+   */
+  public trackSet(id: Gp3CommandId, params: Gp3CommandParams): void {
+    if (!id.startsWith("ENABLE_SEND_")) {
+      return;
+    }
+    if (params.STATE === 1 || params.STATE === "1" || params.STATE === true) {
+      this.enabledStreams.set(id, params);
+    } else {
+      this.enabledStreams.delete(id);
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state !== state) {
+      this.state = state;
+      this.onDidChange(state);
+    }
+  }
+}
@@ -1,7 +1,32 @@
 import * as net from "net";
 import * as vscode from "vscode";
-import { parseStringPromise } from "xml2js";
+import {
+  ConnectionLifecycle,
+  ConnectionState,
+  ReconnectPolicy,
+} from "./gp3Connection";
+import {
+  formatCommand,
+  Gp3CommandId,
+  Gp3CommandParams,
+  Gp3Message,
+  LineReassembler,
+  parseMessage,
+  StreamStats,
+} from "./gp3Protocol";
+import {
+  CalibrationResult,
+  parseCalibrationResult,
+  ScreenPoint,
+} from "./calibration";
+import {
+  CaptureThresholds,
+  FixationCapture,
+  summarizeCapture,
+} from "./windowCalibration";
 
+const CALIBRATE_ADDPOINT = "CALIBRATE_ADDPOINT";
+const CALIBRATE_CLEAR = "CALIBRATE_CLEAR";
 const CALIBRATE_DELAY = "CALIBRATE_DELAY";
 const CALIBRATE_RESET = "CALIBRATE_RESET";
 const CALIBRATE_SHOW = "CALIBRATE_SHOW";
@@ -12,11 +37,122 @@ const ENABLE_SEND_CURSOR = "ENABLE_SEND_CURSOR";
 const ENABLE_SEND_DATA = "ENABLE_SEND_DATA";
 const ENABLE_SEND_POG_BEST = "ENABLE_SEND_POG_BEST";
 const ENABLE_SEND_POG_FIX = "ENABLE_SEND_POG_FIX";
+const ENABLE_SEND_TIME = "ENABLE_SEND_TIME";
 const TRACKER_DISPLAY = "TRACKER_DISPLAY";
 
 const SET = true;
 const GET = false;
 
+const DEFAULT_ACK_TIMEOUT_MS = 9000;
+const DEFAULT_CALIBRATION_TIMEOUT_MS = 60000;
+
+/**
+ * A `<CAL>` message sent while calibrating, e.g. `CALIB_START_PT` when a target is shown.
+ */
+export interface CalibrationMessage {
+  id: string;
+  attributes: Record<string, string>;
+  receivedAt: number;
+}
+
+/**
+ * Options for a calibration run.
+ */
+export interface CalibrationOptions {
+  points?: ScreenPoint[]; // Calibrate only these targets instead of the default point set
+  timeoutMs?: number; // Give up if no result arrives within this time
+  onPoint?: (index: number, target: ScreenPoint) => void; // Called when a target is shown
+  token?: vscode.CancellationToken;
+}
+
+/**
+ * Where to find Gazepoint Control and how hard to try to reach it.
+ */
+export interface TrackerSettings {
+  host: string;
+  port: number;
+  connectTimeoutMs: number; // Give up on a single connection attempt after this long
+  reconnect: ReconnectPolicy;
+}
+
+export const DEFAULT_TRACKER_SETTINGS: TrackerSettings = {
+  host: "127.0.0.1",
+  port: 4242,
+  connectTimeoutMs: 5000,
+  reconnect: {
+    maxAttempts: 10,
+    initialDelayMs: 500,
+    maxDelayMs: 10000,
+  },
+};
+
+/**
+ * Raised when a command sent with `set` or `get` does not get a positive acknowledgement.
+ */
+export class Gp3CommandError extends Error {
+  constructor(
+    public readonly id: string,
+    public readonly reason: "timeout" | "nack" | "disconnected"
+  ) {
+    super(`Command ${id} failed: ${reason}`);
+    this.name = "Gp3CommandError";
+  }
+}
+
+// A command waiting for its ACK
+interface PendingCommand {
+  resolve: (attributes: Record<string, string>) => void;
+  reject: (error: Gp3CommandError) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * A single `<REC>` record from the Gazepoint data stream, with every field converted to a number.
+ *
+ * Fields the server was not asked to send are `NaN`. Positions are normalized screen coordinates
+ * (0,0 is the top left of the screen, 1,1 the bottom right).
+ */
+export interface GazeSample {
+  cnt: number; // Sequence counter (CNT)
+  time: number; // Seconds since the tracker started (TIME)
+  fpogx: number; // Fixation point of gaze X (FPOGX)
+  fpogy: number; // Fixation point of gaze Y (FPOGY)
+  fpogs: number; // Fixation start time in seconds since the tracker started (FPOGS)
+  fpogd: number; // Fixation duration in seconds (FPOGD)
+  fpogid: number; // Fixation ID (FPOGID)
+  fpogv: boolean; // Fixation valid flag (FPOGV)
+  bpogx: number; // Best point of gaze X (BPOGX)
+  bpogy: number; // Best point of gaze Y (BPOGY)
+  bpogv: boolean; // Best point of gaze valid flag (BPOGV)
+  cx: number; // Cursor X (CX)
+  cy: number; // Cursor Y (CY)
+  cs: number; // Cursor button state (CS)
+  receivedAt: number; // Local wall clock time the record was received, in ms since the epoch
+}
+
+/**
+ * A completed fixation as reported by the Gazepoint fixation filter (the FPOG* fields).
+ * Emitted once the server moves on to the next fixation ID.
+ */
+export interface GazeFixation {
+  id: number;
+  x: number;
+  y: number;
+  start: number; // Seconds since the tracker started
+  duration: number; // Seconds
+  valid: boolean;
+  receivedAt: number; // Wall clock time of the last record belonging to this fixation
+}
+
+/**
+ * An `<ACK>` reply from the server, with its raw attributes.
+ */
+export interface AckMessage {
+  id: string;
+  attributes: Record<string, string>;
+  receivedAt: number;
+}
+
 /**
  * The `gp3Interface` class provides an interface for communicating with a Gazepoint Control server
  * over a TCP socket. It supports sending commands, receiving responses, and handling calibration
@@ -27,126 +163,420 @@ const GET = false;
  * calibration, data streaming, and command acknowledgements. It uses XML-based communication
  * and processes incoming data asynchronously.
  *
- * @param host - The hostname or IP address of the Gazepoint Control server. Defaults to "127.0.0.1".
- * @param port - The port number of the Gazepoint Control server. Defaults to 4242.
+ * The connection is established as soon as the class is constructed and is re-established with
+ * exponential backoff whenever it drops. Data streams enabled with `set` are re-enabled after
+ * every reconnect.
+ *
+ * @param settings - The endpoint and retry policy. Defaults to `127.0.0.1:4242`.
  * @param debug - Whether to enable debug logging. Defaults to `false`.
  */
 export class gp3Interface {
-  private client: net.Socket; // TCP socket for communication
+  private client: net.Socket | null = null; // TCP socket for communication
   private debug: boolean; // Whether to log debug messages
   private debugCounter: number = 0; // Enumerates messages
-  private isConnected: boolean = false;
+  private lifecycle: ConnectionLifecycle; // State, retries and the streams to restore
+  private connectTimer: NodeJS.Timeout | null = null; // Aborts a hanging connection attempt
+  private retryTimer: NodeJS.Timeout | null = null; // Schedules the next connection attempt
   private logFile: vscode.OutputChannel; // Display logs in the VS Code output tab
-  private unacknowledged: string[] = []; // For handling acknowledgements
+  private pending: Map<string, PendingCommand[]> = new Map(); // Commands awaiting an ACK, oldest first per ID
+  private currentFixation: GazeFixation | null = null; // The fixation the server is still extending
+  private latestSample: GazeSample | null = null; // The most recent record
+  private lineReassembler = new LineReassembler(); // Keeps partial lines between socket chunks
+  private lastCounter: number = NaN; // CNT of the previous record, to detect gaps
+  private stats: StreamStats = {
+    lines: 0,
+    malformedLines: 0,
+    droppedLines: 0,
+    counterGaps: 0,
+  };
+
+  private readonly sampleEmitter = new vscode.EventEmitter<GazeSample>();
+  private readonly fixationEmitter = new vscode.EventEmitter<GazeFixation>();
+  private readonly ackEmitter = new vscode.EventEmitter<AckMessage>();
+  private readonly stateEmitter = new vscode.EventEmitter<ConnectionState>();
+  private readonly calibrationEmitter =
+    new vscode.EventEmitter<CalibrationMessage>();
+
+  /** Fires for every `<REC>` record received from the server. */
+  public readonly onSample: vscode.Event<GazeSample> = this.sampleEmitter.event;
+  /** Fires when a fixation ends, i.e. when the server reports a new fixation ID. */
+  public readonly onFixation: vscode.Event<GazeFixation> =
+    this.fixationEmitter.event;
+  /** Fires for every `<ACK>` reply received from the server. */
+  public readonly onAck: vscode.Event<AckMessage> = this.ackEmitter.event;
+  /** Fires for every `<CAL>` message received while calibrating. */
+  public readonly onCalibration: vscode.Event<CalibrationMessage> =
+    this.calibrationEmitter.event;
+  /** Fires whenever the connection state changes. */
+  public readonly onDidChangeState: vscode.Event<ConnectionState> =
+    this.stateEmitter.event;
 
   constructor(
-    private host: string = "127.0.0.1",
-    private port: number = 4242,
+    private settings: TrackerSettings = DEFAULT_TRACKER_SETTINGS,
     debug: boolean = false
   ) {
     this.debug = debug;
     this.logFile = vscode.window.createOutputChannel("gp3Interface Log");
+    this.lifecycle = new ConnectionLifecycle(settings.reconnect, (state) =>
+      this.stateEmitter.fire(state)
+    );
+    this.connect();
+  }
+
+  /**
+   * The current state of the connection.
+   */
+  public getState(): ConnectionState {
+    return this.lifecycle.getState();
+  }
 
-    this.client = new net.Socket();
+  /**
+   * The endpoint and retry policy the tracker was created with.
+   */
+  public getSettings(): TrackerSettings {
+    return this.settings;
+  }
+
+  /**
+   * Waits until the connection is established.
+   *
+   * @param token - Cancels the wait, e.g. when the user dismisses a progress notification.
+   * @returns A promise that resolves once connected, and rejects if the retry policy is
+   *          exhausted, the connection is closed or the wait is cancelled.
+   */
+  public waitForConnection(token?: vscode.CancellationToken): Promise<void> {
+    const state = this.lifecycle.getState();
+    if (state === "connected") {
+      return Promise.resolve();
+    }
+    if (state === "failed" || state === "disconnected") {
+      return Promise.reject(
+        new Error(
+          `Not connected to ${this.settings.host}:${this.settings.port}`
+        )
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const disposables: vscode.Disposable[] = [];
+      const finish = (error?: Error) => {
+        disposables.forEach((disposable) => disposable.dispose());
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      disposables.push(
+        this.onDidChangeState((state) => {
+          if (state === "connected") {
+            finish();
+          } else if (state === "failed" || state === "disconnected") {
+            finish(
+              new Error(
+                `Could not connect to ${this.settings.host}:${this.settings.port}`
+              )
+            );
+          }
+        })
+      );
+      if (token) {
+        disposables.push(
+          token.onCancellationRequested(() =>
+            finish(new Error("Connection cancelled"))
+          )
+        );
+      }
+    });
+  }
+
+  /**
+   * Starts over with a fresh set of connection attempts, e.g. after the state became `failed`.
+   * Does nothing while connected.
+   */
+  public reconnect() {
+    if (this.lifecycle.getState() === "connected") {
+      return;
+    }
+    this.clearTimers();
+    this.lifecycle.reset();
+    this.client?.destroy();
+    this.connect();
+  }
+
+  /**
+   * Opens a new socket to Gazepoint Control. A failed or timed out attempt closes the socket,
+   * which schedules the next attempt.
+   */
+  private connect() {
+    this.lifecycle.attemptStarted();
+
+    const client = new net.Socket();
+    this.client = client;
+    client.setEncoding("utf8"); // Never split a multi-byte character across chunks
+
+    // Abandon attempts that hang, e.g. when the host silently drops packets
+    this.connectTimer = setTimeout(() => {
+      this.debugPrint(
+        `Connection attempt timed out after ${this.settings.connectTimeoutMs}ms`
+      );
+      client.destroy();
+    }, this.settings.connectTimeoutMs);
 
     // This creates a connection to the server (Gazepoint Control)
-    this.client.connect(this.port, this.host, () => {
-      this.isConnected = true;
-      this.debugPrint(`Connected to ${this.host}:${this.port}`);
+    client.connect(this.settings.port, this.settings.host, () => {
+      this.clearTimers();
+      this.debugPrint(
+        `Connected to ${this.settings.host}:${this.settings.port}`
+      );
+      // Re-enable the data streams that were enabled before the connection dropped
+      for (const [id, params] of this.lifecycle.connected()) {
+        this.set(id, params).catch(this.logCommandError);
+      }
     });
 
     // Establish a listenner for incoming data. Handle the data as it comes in.
-    this.client.on("data", (data: Buffer) => {
-      this.processIncoming(data.toString());
+    client.on("data", (data: string) => {
+      this.processIncoming(data);
     });
 
     // Establish a listener for errors. Log them as they come in.
-    this.client.on("error", (err: Error) => {
+    client.on("error", (err: Error) => {
       this.debugPrint(`Socket error: ${err.message}`);
     });
 
-    // Establish a listener for the end of the connection. Log it as it comes in.
-    this.client.on("close", () => {
-      this.isConnected = false;
+    // Establish a listener for the end of the connection. Retry unless we closed it on purpose.
+    client.on("close", () => {
+      if (this.client !== client) {
+        // A newer socket has replaced this one already
+        return;
+      }
+      this.clearTimers();
+      this.lineReassembler.reset();
+      this.rejectAllPending("disconnected");
       this.debugPrint("Connection closed");
+      this.scheduleReconnect();
     });
   }
 
   /**
-   * Initiates the process by enabling data transmission from the server
-   * and starting the calibration process.
+   * Schedules the next connection attempt with exponential backoff, or gives up once the
+   * retry policy is exhausted.
+   */
+  private scheduleReconnect() {
+    const delay = this.lifecycle.closed();
+    const { maxAttempts } = this.settings.reconnect;
+    if (delay === undefined) {
+      if (this.lifecycle.getState() === "failed") {
+        this.debugPrint(`Giving up after ${maxAttempts} reconnect attempts`);
+      }
+      return;
+    }
+    this.debugPrint(
+      `Reconnecting in ${delay}ms (attempt ${this.lifecycle.getAttempt()}/${maxAttempts})`
+    );
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private clearTimers() {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Initiates the process by enabling data transmission from the server.
    *
+   * - Waits for the connection to be established.
    * - Enables the sending of general data from the server.
    * - Enables the sending of counter data.
    * - Enables the sending of the best point of gaze (POG) data.
    * - Enables the sending of fixation point of gaze (POG) data.
-   * - Starts the calibration process to ensure accurate data collection.
+   * - Enables the sending of the tracker time stamp.
+   *
+   * Calibration is a separate step, see `calibrate`.
+   *
+   * @param token - Cancels waiting for the connection.
+   * @returns A promise that resolves to `true` once the data stream is enabled, or `false`
+   *          if the server could not be reached.
    */
-  public async begin(): Promise<boolean> {
-    // Wait until the connection is established
-    while (!this.isConnected) {
-      await new Promise((resolve) => setTimeout(resolve, 100)); // Check every 100ms
+  public async begin(token?: vscode.CancellationToken): Promise<boolean> {
+    try {
+      // Wait until the connection is established
+      await this.waitForConnection(token);
+      // Enable data sending from the server by default
+      await Promise.all([
+        this.set(ENABLE_SEND_DATA, { STATE: 1 }),
+        this.set(ENABLE_SEND_COUNTER, { STATE: 1 }),
+        this.set(ENABLE_SEND_POG_BEST, { STATE: 1 }),
+        this.set(ENABLE_SEND_POG_FIX, { STATE: 1 }),
+        this.set(ENABLE_SEND_TIME, { STATE: 1 }),
+      ]);
+    } catch (error) {
+      this.debugPrint(`Could not start the data stream: ${error}`);
+      return false;
     }
-
-    // Enable data sending from the server by default
-    this.send(SET, ENABLE_SEND_DATA, [["STATE", "1"]]);
-    this.send(SET, ENABLE_SEND_COUNTER, [["STATE", "1"]]);
-    this.send(SET, ENABLE_SEND_POG_BEST, [["STATE", "1"]]);
-    this.send(SET, ENABLE_SEND_POG_FIX, [["STATE", "1"]]);
-    return this.calibrate();
+    return true;
   }
 
   /**
-   * Initiates the calibration process for the system.
+   * Runs the Gazepoint calibration and waits for its result.
    *
-   * This method performs a series of asynchronous operations to reset,
-   * display, and start the calibration process. It uses a sequence of
-   * commands sent to the system and resolves a promise once the calibration
-   * process is complete.
+   * The calibration window is shown, the server walks through its targets (reported through
+   * `CALIB_START_PT` and `CALIB_RESULT_PT` messages) and finally reports the estimate of both
+   * eyes for every target in a `CALIB_RESULT` message.
    *
-   * @returns {Promise<boolean>} A promise that resolves to `true` once the
-   * calibration process is successfully completed.
+   * @param options - Which targets to calibrate, progress callback, timeout and cancellation.
+   *                  Without `points` the server's default point set is used.
+   * @returns A promise that resolves with the per-point result, or rejects if the calibration
+   *          times out, is cancelled or a command is not acknowledged.
    */
-  private calibrate(): Promise<boolean> {
+  public async calibrate(
+    options: CalibrationOptions = {}
+  ): Promise<CalibrationResult> {
     this.debugPrint("Calibrating...");
-    this.send(SET, CALIBRATE_RESET);
-    this.send(SET, CALIBRATE_SHOW, [["STATE", "1"]]);
+    const disposables: vscode.Disposable[] = [];
 
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        this.send(SET, CALIBRATE_START, [["STATE", "1"]]);
-        setTimeout(() => {
-          this.send(SET, CALIBRATE_SHOW, [["STATE", "0"]]);
-          resolve(true);
-        }, 10000);
-      }, 1000);
-    });
+    try {
+      await this.set(CALIBRATE_SHOW, { STATE: 1 });
+      if (options.points) {
+        // Replace the target list with only the requested points
+        await this.set(CALIBRATE_CLEAR);
+        for (const point of options.points) {
+          await this.set(CALIBRATE_ADDPOINT, { X: point.x, Y: point.y });
+        }
+      } else {
+        await this.set(CALIBRATE_RESET);
+      }
+
+      const result = new Promise<CalibrationResult>((resolve, reject) => {
+        const timeoutMs = options.timeoutMs ?? DEFAULT_CALIBRATION_TIMEOUT_MS;
+        const timer = setTimeout(
+          () => reject(new Error(`Calibration timed out after ${timeoutMs}ms`)),
+          timeoutMs
+        );
+        disposables.push({ dispose: () => clearTimeout(timer) });
+
+        disposables.push(
+          this.onCalibration((message) => {
+            const attributes = message.attributes;
+            if (message.id === "CALIB_START_PT") {
+              options.onPoint?.(Number(attributes.PT), {
+                x: Number(attributes.CALX),
+                y: Number(attributes.CALY),
+              });
+            } else if (message.id === "CALIB_RESULT") {
+              resolve(parseCalibrationResult(attributes));
+            }
+          }),
+          this.onDidChangeState((state) => {
+            if (state !== "connected") {
+              reject(new Error("Connection lost during calibration"));
+            }
+          })
+        );
+        if (options.token) {
+          disposables.push(
+            options.token.onCancellationRequested(() =>
+              reject(new Error("Calibration cancelled"))
+            )
+          );
+        }
+      });
+
+      // Await both together, so a result that fails early is never left unhandled
+      const [, calibration] = await Promise.all([
+        this.set(CALIBRATE_START, { STATE: 1 }),
+        result,
+      ]);
+      return calibration;
+    } finally {
+      disposables.forEach((disposable) => disposable.dispose());
+      this.set(CALIBRATE_START, { STATE: 0 }).catch(this.logCommandError);
+      this.set(CALIBRATE_SHOW, { STATE: 0 }).catch(this.logCommandError);
+    }
   }
 
-  public calibrateUpperLeft(): Promise<boolean> {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve(true);
-      }, 7000);
-    });
+  /**
+   * Captures the fixation on the first visible letter of the calibration text.
+   *
+   * @param durationMs - How long the participant looks at the letter.
+   * @param thresholds - The limits the fixation must meet.
+   * @returns A promise that resolves with the steady fixation, or rejects if it was unstable.
+   */
+  public calibrateUpperLeft(
+    durationMs: number,
+    thresholds: CaptureThresholds
+  ): Promise<FixationCapture> {
+    return this.captureFixation(durationMs, thresholds);
   }
 
-  public calibrateLowerRight(): Promise<boolean> {
-    return new Promise((resolve) => {
+  /**
+   * Captures the fixation on the last visible letter of the calibration text.
+   *
+   * @param durationMs - How long the participant looks at the letter.
+   * @param thresholds - The limits the fixation must meet.
+   * @returns A promise that resolves with the steady fixation, or rejects if it was unstable.
+   */
+  public calibrateLowerRight(
+    durationMs: number,
+    thresholds: CaptureThresholds
+  ): Promise<FixationCapture> {
+    return this.captureFixation(durationMs, thresholds);
+  }
+
+  /**
+   * Records samples for the given time and finds the steady fixation among them.
+   *
+   * @param durationMs - How long to record.
+   * @param thresholds - The limits the fixation must meet.
+   * @returns A promise that resolves with the steady fixation, or rejects with the reason it
+   *          was rejected.
+   */
+  public captureFixation(
+    durationMs: number,
+    thresholds: CaptureThresholds
+  ): Promise<FixationCapture> {
+    const samples: GazeSample[] = [];
+    const subscription = this.onSample((sample) => samples.push(sample));
+
+    return new Promise((resolve, reject) => {
       setTimeout(() => {
-        resolve(true);
-      }, 7000);
+        subscription.dispose();
+        const capture = summarizeCapture(
+          samples,
+          durationMs / 1000,
+          thresholds
+        );
+        if (typeof capture === "string") {
+          reject(new Error(capture));
+        } else {
+          this.debugPrint(`Captured fixation: ${JSON.stringify(capture)}`);
+          resolve(capture);
+        }
+      }, durationMs);
     });
   }
 
   /**
-   * Closes the connection to the client if it is currently connected.
+   * Closes the connection to the client and stops any further reconnect attempts.
    * Ensures that the `end` method is called on the client to terminate the connection.
    */
   close() {
-    if (this.isConnected) {
-      this.client.end();
-    }
+    this.clearTimers();
+    this.lifecycle.disconnect();
+    this.client?.end();
+    this.sampleEmitter.dispose();
+    this.fixationEmitter.dispose();
+    this.ackEmitter.dispose();
+    this.stateEmitter.dispose();
+    this.calibrationEmitter.dispose();
   }
 
   /**
@@ -165,206 +595,330 @@ export class gp3Interface {
   }
 
   /**
-   * Handles the processing of an XML string by parsing it into a JavaScript object
-   * and performing actions based on the parsed data.
+   * Performs actions based on a message received from the server.
    *
-   * @param xml - The XML string to be processed.
+   * @param message - The parsed message.
    *
    * @remarks
-   * This method processes two main types of XML responses:
+   * This method processes two main types of responses:
    * - `ACK`: Acknowledgment messages with various IDs that trigger specific actions.
-   * - `REC`: Recording data containing various fields, processed every 180th frame.
+   * - `REC`: Recording data, forwarded to `onSample` and `onFixation` subscribers.
    *
    * The method also logs unhandled acknowledgment IDs and unknown response types.
    *
-   * @throws Will log an error if the XML parsing fails.
-   *
    * @example
    * ```typescript
-   * const xmlString = `<ACK ID="CALIBRATE_DELAY" VALUE="100"/>`;
-   * await handleXML(xmlString);
+   * handleMessage(parseMessage(`<ACK ID="CALIBRATE_DELAY" VALUE="100"/>`)!);
    * // Logs: "Delay value: 100"
    * ```
    */
-  private async handleXML(xml: string) {
-    // Parse the XML string into a JavaScript object
-    try {
-      const result = await parseStringPromise(xml);
+  private handleMessage(message: Gp3Message) {
+    const receivedAt = Date.now();
 
-      if (result.ACK) {
-        const ack = result.ACK.$; // Attributes are under '$'
-        const id = ack.ID;
+    if (message.tag === "ACK") {
+      const ack = message.attributes;
+      const id = ack.ID;
+      this.ackEmitter.fire({ id, attributes: ack, receivedAt });
+      this.settlePending(id, (command) => command.resolve(ack));
 
-        // Acknowledge any messages matching this acknowledged ID
-        this.unacknowledged = this.unacknowledged.filter(
-          (msg) => !msg.includes(id)
-        );
+      switch (id) {
+        case CALIBRATE_DELAY:
+          this.debugPrint(`Delay value: ${ack.VALUE}`);
+          break;
+        case CALIBRATE_RESET:
+          this.debugPrint(`Reset PTS: ${ack.PTS}`);
+          break;
+        case CALIBRATE_SHOW:
+          this.debugPrint(`Show state: ${ack.STATE}`);
+          break;
+        case CALIBRATE_START:
+          this.debugPrint(`Start value: ${ack.VALUE}`);
+          break;
+        case CALIBRATE_TIMEOUT:
+          this.debugPrint(`Timeout value: ${ack.VALUE}`);
+          break;
+        case ENABLE_SEND_COUNTER:
+          this.debugPrint(`Enable send counter: ${ack.STATE}`);
+          break;
+        case ENABLE_SEND_CURSOR:
+          this.debugPrint(`Enable send cursor: ${ack.STATE}`);
+          break;
+        case ENABLE_SEND_DATA:
+          this.debugPrint(`Enable send data: ${ack.STATE}`);
+          break;
+        case ENABLE_SEND_POG_BEST:
+          this.debugPrint(`Enable send POG best: ${ack.STATE}`);
+          break;
+        case ENABLE_SEND_POG_FIX:
+          this.debugPrint(`Enable send POG fix: ${ack.STATE}`);
+          break;
+        case ENABLE_SEND_TIME:
+          this.debugPrint(`Enable send time: ${ack.STATE}`);
+          break;
+        case TRACKER_DISPLAY:
+          this.debugPrint(`Tracker display: ${ack.STATE}`);
+          break;
+        default:
+          this.debugPrint(`Unhandled ACK ID: ${id}, ${JSON.stringify(ack)}`);
+      }
+    } else if (message.tag === "NACK") {
+      const id = message.attributes.ID;
+      this.debugPrint(`NACK for ${id}`);
+      this.settlePending(id, (command) =>
+        command.reject(new Gp3CommandError(id, "nack"))
+      );
+    } else if (message.tag === "CAL") {
+      const id = message.attributes.ID;
+      this.debugPrint(`Calibration: ${JSON.stringify(message.attributes)}`);
+      this.calibrationEmitter.fire({
+        id,
+        attributes: message.attributes,
+        receivedAt,
+      });
+    } else if (message.tag === "REC") {
+      if (Object.keys(message.attributes).length === 0) {
+        // Ignore empty record lines
+        return;
+      }
 
-        switch (id) {
-          case CALIBRATE_DELAY:
-            this.debugPrint(`Delay value: ${ack.VALUE}`);
-            break;
-          case CALIBRATE_RESET:
-            this.debugPrint(`Reset PTS: ${ack.PTS}`);
-            break;
-          case CALIBRATE_SHOW:
-            this.debugPrint(`Show state: ${ack.STATE}`);
-            break;
-          case CALIBRATE_START:
-            this.debugPrint(`Start value: ${ack.VALUE}`);
-            break;
-          case CALIBRATE_TIMEOUT:
-            this.debugPrint(`Timeout value: ${ack.VALUE}`);
-            break;
-          case ENABLE_SEND_COUNTER:
-            this.debugPrint(`Enable send counter: ${ack.STATE}`);
-            break;
-          case ENABLE_SEND_CURSOR:
-            this.debugPrint(`Enable send cursor: ${ack.STATE}`);
-            break;
-          case ENABLE_SEND_DATA:
-            this.debugPrint(`Enable send data: ${ack.STATE}`);
-            break;
-          case ENABLE_SEND_POG_BEST:
-            this.debugPrint(`Enable send POG best: ${ack.STATE}`);
-            break;
-          case ENABLE_SEND_POG_FIX:
-            this.debugPrint(`Enable send POG fix: ${ack.STATE}`);
-            break;
-          case TRACKER_DISPLAY:
-            this.debugPrint(`Tracker display: ${ack.STATE}`);
-            break;
-          default:
-            this.debugPrint(`Unhandled ACK ID: ${id}, ${JSON.stringify(ack)}`);
-        }
-      } else if (result.CAL) {
-        // We don't need to handle calibration data right now
-      } else if (result.REC) {
-        const rec = result.REC.$;
-
-        // Example: read fields, using optional chaining or fallback defaults
-        const cnt = rec.CNT ?? null;
-        const fpogx = rec.FPOGX ?? null;
-        const fpogy = rec.FPOGY ?? null;
-        const fpogs = rec.FPOGS ?? null;
-        const fpogd = rec.FPOGD ?? null;
-        const fpogid = rec.FPOGID ?? null;
-        const fpogv = rec.FPOGV ?? null;
-        const bpogx = rec.BPOGX ?? null;
-        const bpogy = rec.BPOGY ?? null;
-        const bpogv = rec.BPOGV ?? null;
-        const cx = rec.CX ?? null;
-        const cy = rec.CY ?? null;
-        const cs = rec.CS ?? null;
-
-        if (cnt % 180 !== 0) {
-          // Only process every 180th frame
-          return;
-        }
-        this.debugPrint(
-          JSON.stringify({
-            cnt,
-            fpogx,
-            fpogy,
-            fpogs,
-            fpogd,
-            fpogid,
-            fpogv,
-            bpogx,
-            bpogy,
-            bpogv,
-            cx,
-            cy,
-            cs,
-          })
-        );
-      } else {
-        console.warn("Unknown response type:", result);
+      const sample = toGazeSample(message.attributes, receivedAt);
+      this.latestSample = sample;
+      this.countGaps(sample.cnt);
+      this.sampleEmitter.fire(sample);
+      this.trackFixation(sample);
+
+      if (sample.cnt % 180 === 0) {
+        // Only log every 180th frame, the stream is far too busy otherwise
+        this.debugPrint(JSON.stringify(sample));
       }
-    } catch (error) {
-      console.error("Error parsing XML:", error);
+    } else {
+      this.debugPrint(`Unknown response type: ${message.tag}`);
+    }
+  }
+
+  /**
+   * Counts records that never arrived, based on the sequence counter of each record.
+   * A counter that goes backwards means the server restarted its count, which is not a gap.
+   *
+   * @param cnt - The CNT field of the latest record.
+   */
+  private countGaps(cnt: number) {
+    if (isNaN(cnt)) {
+      return;
+    }
+    if (!isNaN(this.lastCounter) && cnt > this.lastCounter + 1) {
+      this.stats.counterGaps += cnt - this.lastCounter - 1;
+    }
+    this.lastCounter = cnt;
+  }
+
+  /**
+   * Follows the fixation ID reported by the server and emits the previous fixation once
+   * the ID changes. Until then the fixation is still growing and its duration is not final.
+   *
+   * @param sample - The latest sample received from the server.
+   */
+  private trackFixation(sample: GazeSample) {
+    if (isNaN(sample.fpogid)) {
+      return;
+    }
+
+    if (this.currentFixation && this.currentFixation.id !== sample.fpogid) {
+      this.fixationEmitter.fire(this.currentFixation);
     }
+
+    this.currentFixation = {
+      id: sample.fpogid,
+      x: sample.fpogx,
+      y: sample.fpogy,
+      start: sample.fpogs,
+      duration: sample.fpogd,
+      valid: sample.fpogv,
+      receivedAt: sample.receivedAt,
+    };
   }
 
   /**
-   * Process camera data by taking incoming lines, splitting them, and parsing the XML.
+   * Process camera data by reassembling complete lines from the incoming chunk and parsing them.
+   * Lines split across chunks are kept until the rest of the line arrives.
    *
    * @param data - The incoming string data to be processed.
    *               Each line of the data is expected to be separated by a newline character (`\n`).
-   *
-   * @returns A promise that resolves when all lines have been processed.
    */
-  private async processIncoming(data: string) {
-    // Split the incoming data into lines
-    const lines = data.split("\n");
-    for (let i = 0; i < lines.length - 1; i++) {
-      const line = lines[i].trim(); // Cut off the '\r' and '\n'
-      if (line !== "<REC />") {
-        // Ignore empty record lines
-        await this.handleXML(line); // Handle each line as needed
+  private processIncoming(data: string) {
+    for (const line of this.lineReassembler.push(data)) {
+      this.stats.lines++;
+      const message = parseMessage(line);
+      if (!message) {
+        this.stats.malformedLines++;
+        this.debugPrint(`Malformed line: ${line}`);
+        continue;
       }
+      this.handleMessage(message);
     }
   }
 
   /**
-   * Sends a message to the server.
+   * The most recent record received from the server, if any.
+   */
+  public getLatestSample(): GazeSample | null {
+    return this.latestSample;
+  }
+
+  /**
+   * Returns counters describing the health of the incoming stream, so gaps in a session
+   * can be detected rather than assumed away.
+   */
+  public getStreamStats(): StreamStats {
+    return {
+      ...this.stats,
+      droppedLines: this.lineReassembler.getDroppedLines(),
+    };
+  }
+
+  /**
+   * Sends a `SET` command and waits for the server to acknowledge it.
+   *
+   * @param id - The ID of the setting, e.g. `ENABLE_SEND_DATA`.
+   * @param params - The parameters of the command, e.g. `{ STATE: 1 }`.
+   * @param timeoutMs - How long to wait for the ACK before rejecting.
+   * @returns A promise that resolves with the attributes of the ACK, or rejects with a
+   *          `Gp3CommandError` on timeout, NACK or a lost connection.
+   */
+  public set(
+    id: Gp3CommandId,
+    params: Gp3CommandParams = {},
+    timeoutMs: number = DEFAULT_ACK_TIMEOUT_MS
+  ): Promise<Record<string, string>> {
+    this.lifecycle.trackSet(id, params);
+    return this.send(SET, id, params, timeoutMs);
+  }
+
+  /**
+   * Sends a `GET` command and waits for the server to reply.
+   *
+   * @param id - The ID of the value to read, e.g. `SCREEN_SIZE`.
+   * @param timeoutMs - How long to wait for the ACK before rejecting.
+   * @returns A promise that resolves with the attributes of the ACK, or rejects with a
+   *          `Gp3CommandError` on timeout, NACK or a lost connection.
+   */
+  public get(
+    id: Gp3CommandId,
+    timeoutMs: number = DEFAULT_ACK_TIMEOUT_MS
+  ): Promise<Record<string, string>> {
+    return this.send(GET, id, {}, timeoutMs);
+  }
+
+  /**
+   * Sends a message to the server and registers it as waiting for an ACK.
+   *
+   * The server acknowledges commands in the order it receives them, so several commands in
+   * flight with the same ID are matched to their ACKs first in, first out.
+   *
    * @param set True if the message is a set command, false if it's a get command.
    * @param id The ID of the command to send.
-   * @param parameters A list of parameter key-value pairs to include in the message. [["X", "0.5"], ["Y", "0.1"], ...]
-   * @param wait_for_acknowledgement Whether to wait for an acknowledgement from the server.
-   * @param max_await The maximum time to wait for an acknowledgement before timing out.
-   * @returns A promise that resolves to a tuple:
-   *          - The first element is a boolean indicating whether the message was acknowledged.
-   *          - The second element is a boolean indicating whether the command timed out.
+   * @param params The parameters of the command.
+   * @param timeoutMs The maximum time to wait for an acknowledgement.
    */
-  private async send(
+  private send(
     set: boolean,
-    id: string,
-    parameters: string[][] = [],
-    wait_for_acknowledgement: boolean = false,
-    max_await: number = 9.0
-  ): Promise<[boolean, boolean]> {
+    id: Gp3CommandId,
+    params: Gp3CommandParams,
+    timeoutMs: number
+  ): Promise<Record<string, string>> {
     // Don't even try to send if we are not connected.
-    if (!this.isConnected) {
+    const client = this.client;
+    if (this.lifecycle.getState() !== "connected" || !client) {
       this.debugPrint("Cannot send, not connected");
-      return Promise.resolve([false, false]);
+      return Promise.reject(new Gp3CommandError(id, "disconnected"));
     }
 
-    // Construct the message
-    let message = `<${set ? "SET" : "GET"} ID="${id}"`;
-    for (const [key, value] of parameters) {
-      message += ` ${key}="${value}"`;
-    }
-    message += " />\r\n";
+    return new Promise((resolve, reject) => {
+      const command: PendingCommand = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const queue = this.pending.get(id) ?? [];
+          const index = queue.indexOf(command);
+          if (index !== -1) {
+            queue.splice(index, 1);
+          }
+          reject(new Gp3CommandError(id, "timeout"));
+        }, timeoutMs),
+      };
+
+      const queue = this.pending.get(id) ?? [];
+      queue.push(command);
+      this.pending.set(id, queue);
 
-    // Send the message
-    this.client.write(message);
-    this.debugPrint(`Sent message: ${message.trim()}`);
+      const message = formatCommand(set, id, params);
+      client.write(message);
+      this.debugPrint(`Sent message: ${message.trim()}`);
+    });
+  }
 
-    if (!wait_for_acknowledgement) {
-      return Promise.resolve([true, false]);
+  /**
+   * Settles the oldest command waiting for a reply with the given ID.
+   *
+   * @param id - The ID of the ACK or NACK that was received.
+   * @param settle - Resolves or rejects the command.
+   */
+  private settlePending(id: string, settle: (command: PendingCommand) => void) {
+    const command = this.pending.get(id)?.shift();
+    if (command) {
+      clearTimeout(command.timer);
+      settle(command);
     }
+  }
 
-    // Handle acknowledgement logic
-    this.unacknowledged.push(message); // Track unacknowledged messages
-    return new Promise<[boolean, boolean]>((resolve) => {
-      const startTime = Date.now();
-      const checkAcknowledgement = () => {
-        const elapsed = (Date.now() - startTime) / 1000;
-        if (this.unacknowledged.includes(message)) {
-          if (elapsed >= max_await) {
-            this.unacknowledged = this.unacknowledged.filter(
-              (msg) => msg !== message
-            );
-            resolve([false, true]);
-          } else {
-            setTimeout(checkAcknowledgement, (max_await * 1000) / 5); // Check 5 times in the await period
-          }
-        } else {
-          resolve([true, false]); // Acknowledged
-        }
-      };
-      checkAcknowledgement();
-    });
+  /**
+   * Rejects every command still waiting for a reply.
+   *
+   * @param reason - Why the commands will never be acknowledged.
+   */
+  private rejectAllPending(reason: "timeout" | "nack" | "disconnected") {
+    for (const [id, queue] of this.pending) {
+      for (const command of queue) {
+        clearTimeout(command.timer);
+        command.reject(new Gp3CommandError(id, reason));
+      }
+    }
+    this.pending.clear();
   }
+
+  // Used for fire-and-forget commands
+  private logCommandError = (error: unknown) => {
+    this.debugPrint(`${error}`);
+  };
+}
+
+/**
+ * Converts the raw attributes of a `<REC>` record into a `GazeSample`.
+ *
+ * @param rec - The attributes of the record, as strings.
+ * @param receivedAt - The wall clock time the record was received, in ms since the epoch.
+ */
+function toGazeSample(
+  rec: Record<string, string>,
+  receivedAt: number
+): GazeSample {
+  const num = (key: string) =>
+    rec[key] === undefined ? NaN : Number(rec[key]);
+  return {
+    cnt: num("CNT"),
+    time: num("TIME"),
+    fpogx: num("FPOGX"),
+    fpogy: num("FPOGY"),
+    fpogs: num("FPOGS"),
+    fpogd: num("FPOGD"),
+    fpogid: num("FPOGID"),
+    fpogv: rec.FPOGV === "1",
+    bpogx: num("BPOGX"),
+    bpogy: num("BPOGY"),
+    bpogv: rec.BPOGV === "1",
+    cx: num("CX"),
+    cy: num("CY"),
+    cs: num("CS"),
+    receivedAt,
+  };
 }
@@ -0,0 +1,207 @@
+/**
+ * Wire level helpers for the Gazepoint Open API. The server sends one self-closing XML tag per
+ * line (`<REC CNT="12" FPOGX="0.51" ... />`), which is simple enough to parse by hand. Doing so
+ * synchronously keeps up with the 60-150 Hz record stream, where a full XML parser does not.
+ */
+
+/**
+ * A single tag received from the server, e.g. `<ACK ID="ENABLE_SEND_DATA" STATE="1" />`.
+ */
+export interface Gp3Message {
+  tag: string; // REC, ACK, NACK, CAL, ...
+  attributes: Record<string, string>;
+}
+
+/**
+ * Counters describing the health of the incoming stream. A session with no malformed or
+ * dropped lines and no counter gaps received every record the server sent.
+ */
+export interface StreamStats {
+  lines: number; // Complete lines received
+  malformedLines: number; // Lines that could not be parsed
+  droppedLines: number; // Partial lines discarded because they grew past the line limit
+  counterGaps: number; // Records missing according to the REC counter (CNT)
+}
+
+/**
+ * Every ID understood by the Gazepoint Open API (v2), for use with `SET` and `GET` commands.
+ */
+export const GP3_COMMAND_IDS = [
+  // Data stream contents
+  "ENABLE_SEND_DATA",
+  "ENABLE_SEND_COUNTER",
+  "ENABLE_SEND_TIME",
+  "ENABLE_SEND_TIME_TICK",
+  "ENABLE_SEND_POG_FIX",
+  "ENABLE_SEND_POG_LEFT",
+  "ENABLE_SEND_POG_RIGHT",
+  "ENABLE_SEND_POG_BEST",
+  "ENABLE_SEND_PUPIL_LEFT",
+  "ENABLE_SEND_PUPIL_RIGHT",
+  "ENABLE_SEND_PUPILMM",
+  "ENABLE_SEND_EYE_LEFT",
+  "ENABLE_SEND_EYE_RIGHT",
+  "ENABLE_SEND_CURSOR",
+  "ENABLE_SEND_KB",
+  "ENABLE_SEND_BLINK",
+  "ENABLE_SEND_DIAL",
+  "ENABLE_SEND_GSR",
+  "ENABLE_SEND_HR",
+  "ENABLE_SEND_HR_PULSE",
+  "ENABLE_SEND_HR_IBI",
+  "ENABLE_SEND_TTL",
+  "ENABLE_SEND_PIX",
+  "ENABLE_SEND_USER_DATA",
+  // Calibration
+  "CALIBRATE_START",
+  "CALIBRATE_SHOW",
+  "CALIBRATE_TIMEOUT",
+  "CALIBRATE_DELAY",
+  "CALIBRATE_RESULT_SUMMARY",
+  "CALIBRATE_CLEAR",
+  "CALIBRATE_RESET",
+  "CALIBRATE_ADDPOINT",
+  // Tracker and screen configuration
+  "USER_DATA",
+  "TRACKER_DISPLAY",
+  "TIME_TICK_FREQUENCY",
+  "SCREEN_SIZE",
+  "CAMERA_SIZE",
+  "PRODUCT_ID",
+  "SERIAL_ID",
+  "COMPANY_ID",
+  "API_ID",
+  "TTL",
+] as const;
+
+export type Gp3CommandId = (typeof GP3_COMMAND_IDS)[number];
+
+/**
+ * Parameter values of a command. Booleans are sent as `1` and `0`.
+ */
+export type Gp3CommandParams = Record<string, string | number | boolean>;
+
+// A well formed line never gets anywhere near this long. Anything longer is garbage.
+const MAX_LINE_LENGTH = 64 * 1024;
+
+const TAG_PATTERN = /^<([A-Za-z_][\w]*)((?:\s+[A-Za-z_][\w]*="[^"]*")*)\s*\/>$/;
+const ATTRIBUTE_PATTERN = /([A-Za-z_][\w]*)="([^"]*)"/g;
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+/**
+ * Reassembles lines from arbitrarily split TCP chunks. Whatever follows the last newline of a
+ * chunk is kept until the rest of the line arrives with a later chunk.
+ */
+export class LineReassembler {
+  private partial: string = "";
+  private droppedLines: number = 0;
+
+  constructor(private maxLineLength: number = MAX_LINE_LENGTH) {}
+
+  /**
+   * Adds a chunk of data and returns every line it completed, without line terminators.
+   * Empty lines are skipped.
+   *
+   * @param chunk - The data received from the socket.
+   */
+  public push(chunk: string): string[] {
+    const parts = (this.partial + chunk).split("\n");
+    this.partial = parts.pop() ?? "";
+
+    // Protect against a peer that never sends a newline
+    if (this.partial.length > this.maxLineLength) {
+      this.partial = "";
+      this.droppedLines++;
+    }
+
+    const lines: string[] = [];
+    for (const part of parts) {
+      const line = part.trim(); // Cut off the '\r'
+      if (line) {
+        lines.push(line);
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Discards any partial line, e.g. after the connection was reset.
+   */
+  public reset(): void {
+    if (this.partial.trim()) {
+      this.droppedLines++;
+    }
+    this.partial = "";
+  }
+
+  /** The number of partial lines that were thrown away. */
+  public getDroppedLines(): number {
+    return this.droppedLines;
+  }
+}
+
+/**
+ * Parses a single line sent by the server.
+ *
+ * @param line - A complete line, e.g. `<CAL ID="CALIB_START_PT" PT="1" CALX="0.5" CALY="0.5" />`.
+ * @returns The parsed message, or `null` if the line is not a self-closing tag.
+ */
+export function parseMessage(line: string): Gp3Message | null {
+  const match = TAG_PATTERN.exec(line.trim());
+  if (!match) {
+    return null;
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const [, key, value] of match[2].matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[key] = decodeEntities(value);
+  }
+  return { tag: match[1], attributes };
+}
+
+/**
+ * Builds the line for a `SET` or `GET` command, including the line terminator.
+ *
+ * @param set - True for a `SET` command, false for a `GET` command.
+ * @param id - The ID of the command.
+ * @param params - The parameters of the command, e.g. `{ STATE: 1 }`.
+ */
+export function formatCommand(
+  set: boolean,
+  id: Gp3CommandId,
+  params: Gp3CommandParams = {}
+): string {
+  let message = `<${set ? "SET" : "GET"} ID="${id}"`;
+  for (const [key, value] of Object.entries(params)) {
+    const text = typeof value === "boolean" ? (value ? "1" : "0") : `${value}`;
+    message += ` ${key}="${encodeAttribute(text)}"`;
+  }
+  return message + " />\r\n";
+}
+
+/**
+ * Escapes a value so it can be sent as an attribute value.
+ *
+ * @param value - The raw value.
+ */
+export function encodeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(amp|lt|gt|quot|apos);/g,
+    (entity) => XML_ENTITIES[entity]
+  );
+}
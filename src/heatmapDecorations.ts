@@ -0,0 +1,143 @@
+import * as vscode from "vscode";
+
+import { AttentionHeatmap, HeatmapGranularity } from "./attentionHeatmap";
+import { AttentionRecorder } from "./attentionRecorder";
+import { readHeatmapSettings } from "./settings";
+import {
+  getAttentionRecorder,
+  onDidChangeAttentionRecorder,
+} from "./trackingState";
+
+// Shades of the heatmap, from barely looked at to the hottest spot
+const LEVELS = 5;
+const REPAINT_INTERVAL_MS = 500;
+
+/**
+ * Paints the recent dwell time of the running tracking session on the visible editors, with
+ * marks in the overview ruler for the rest of each file. Follows the tracking sessions
+ * launched while it is shown.
+ */
+export class HeatmapPainter implements vscode.Disposable {
+  private heatmap: AttentionHeatmap;
+  private decorationTypes: vscode.TextEditorDecorationType[];
+  private recorderSubscription: vscode.Disposable | undefined;
+  private disposables: vscode.Disposable[];
+  private timer: NodeJS.Timeout;
+
+  constructor(granularity: HeatmapGranularity, windowMs: number) {
+    this.heatmap = new AttentionHeatmap(granularity, windowMs);
+    this.decorationTypes = Array.from({ length: LEVELS }, (_, index) => {
+      const level = (index + 1) / LEVELS;
+      return vscode.window.createTextEditorDecorationType({
+        backgroundColor: `rgba(255, 96, 0, ${(0.4 * level).toFixed(2)})`,
+        overviewRulerColor: `rgba(255, 96, 0, ${level.toFixed(2)})`,
+        overviewRulerLane: vscode.OverviewRulerLane.Right,
+        isWholeLine: granularity === "line",
+        rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+      });
+    });
+
+    this.attach(getAttentionRecorder());
+    this.disposables = [
+      onDidChangeAttentionRecorder((recorder) => this.attach(recorder)),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.heatmap.applyChanges(
+          event.document.uri.toString(),
+          event.contentChanges.map((change) => ({
+            start: change.range.start,
+            end: change.range.end,
+            text: change.text,
+          }))
+        )
+      ),
+      vscode.window.onDidChangeVisibleTextEditors(() => this.paint()),
+    ];
+    // Repaint even without new fixations, for the heat to fade
+    this.timer = setInterval(() => this.paint(), REPAINT_INTERVAL_MS);
+  }
+
+  public dispose(): void {
+    clearInterval(this.timer);
+    this.recorderSubscription?.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.decorationTypes.forEach((decorationType) => decorationType.dispose());
+  }
+
+  private attach(recorder: AttentionRecorder | null): void {
+    this.recorderSubscription?.dispose();
+    this.recorderSubscription = recorder?.onDidAttribute(
+      ({ fixation, uri, position, token }) => {
+        if (uri && position) {
+          this.heatmap.record(
+            uri,
+            position.line,
+            token,
+            fixation.duration,
+            fixation.end
+          );
+          this.paint();
+        }
+      }
+    );
+  }
+
+  private paint(): void {
+    const now = Date.now();
+    this.heatmap.prune(now);
+    for (const editor of vscode.window.visibleTextEditors) {
+      const document = editor.document;
+      const levels: vscode.DecorationOptions[][] = this.decorationTypes.map(
+        () => []
+      );
+      for (const spot of this.heatmap.spots(document.uri.toString(), now)) {
+        if (spot.line >= document.lineCount) {
+          continue;
+        }
+        const level = Math.min(Math.ceil(spot.intensity * LEVELS), LEVELS);
+        if (level === 0) {
+          continue;
+        }
+        levels[level - 1].push({
+          range: spot.token
+            ? new vscode.Range(
+                spot.line,
+                spot.token.start,
+                spot.line,
+                spot.token.end
+              )
+            : new vscode.Range(spot.line, 0, spot.line, 0),
+          hoverMessage: `Looked at for ${(spot.dwellMs / 1000).toFixed(
+            1
+          )} s recently`,
+        });
+      }
+      this.decorationTypes.forEach((decorationType, index) =>
+        editor.setDecorations(decorationType, levels[index])
+      );
+    }
+  }
+}
+
+export function toggleHeatmap(): vscode.Disposable {
+  let painter: HeatmapPainter | undefined;
+  const command = vscode.commands.registerCommand(
+    "gp3attention.toggleHeatmap",
+    () => {
+      if (painter) {
+        painter.dispose();
+        painter = undefined;
+        vscode.window.showInformationMessage("Attention heatmap hidden.");
+        return;
+      }
+
+      const { granularity, windowMs } = readHeatmapSettings();
+      painter = new HeatmapPainter(granularity, windowMs);
+      vscode.window.showInformationMessage(
+        getAttentionRecorder()
+          ? "Attention heatmap shown."
+          : "Attention heatmap shown. It fills in once a tracking session is launched."
+      );
+    }
+  );
+  return vscode.Disposable.from(command, { dispose: () => painter?.dispose() });
+}
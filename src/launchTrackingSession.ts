@@ -1,5 +1,47 @@
 import * as vscode from "vscode";
+import { AttentionRecorder } from "./attentionRecorder";
+import {
+  CalibrationResult,
+  findBadPoints,
+  isCalibrationAcceptable,
+  mergeCalibrationResults,
+  ScreenPoint,
+} from "./calibration";
+import { ImplicitAnchorCollector } from "./driftAnchors";
+import { GazePipeline } from "./gazePipeline";
 import { gp3Interface } from "./gp3Interface";
+import { screenPointOf, snapshotViewport } from "./positionMapper";
+import {
+  readCalibrationThresholds,
+  readCalibrationTimeoutMs,
+  readCaptureDurationMs,
+  readCaptureThresholds,
+  readDetectionSettings,
+  readDriftCorrectionSettings,
+  readEditorMetrics,
+  readFilterSettings,
+  readImplicitAnchorDelayMs,
+  readTrackerSettings,
+  readWorkbenchRegions,
+} from "./settings";
+import {
+  getActiveTracker,
+  getGazePipeline,
+  setActiveTracker,
+  setAttentionRecorder,
+  setCalibratedWorkbenchRegions,
+  setDriftAnchorCollector,
+  setGazePipeline,
+  setViewportTransform,
+} from "./trackingState";
+import { buildVisualRows } from "./visualLayout";
+import {
+  AnchorLayout,
+  computeViewportTransform,
+  FixationCapture,
+  lastLetterRow,
+} from "./windowCalibration";
+import { WorkbenchRegion, WorkbenchRegionKind } from "./workbenchLayout";
 import { FRANKENSTEIN_TEXT } from "./frankenstein";
 
 export function launchTrackingSession() {
@@ -13,13 +55,192 @@ export function launchTrackingSession() {
         return;
       }
 
-      openCalibrationText().then(() => {
-        vscode.window.showInformationMessage("Calibration done!");
+      // Cancelling and failing are reported where they happen
+      try {
+        if (await openCalibrationText()) {
+          vscode.window.showInformationMessage("Calibration done!");
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Calibration failed: ${error}`);
+      }
+    }
+  );
+}
+
+export function calibrateWorkbenchLayout() {
+  return vscode.commands.registerCommand(
+    "gp3attention.calibrateWorkbenchLayout",
+    async () => {
+      const tracker = getActiveTracker();
+      if (!tracker) {
+        vscode.window.showInformationMessage(
+          "Launch a tracking session first."
+        );
+        return;
+      }
+
+      // Every editor group with an editor in it, plus the fixed parts of the window
+      const groups = [
+        ...new Set(
+          vscode.window.visibleTextEditors
+            .map((editor) => editor.viewColumn)
+            .filter((column): column is number => column !== undefined)
+        ),
+      ].sort((a, b) => a - b);
+      const items: (vscode.QuickPickItem & {
+        region: WorkbenchRegionKind;
+        viewColumn?: number;
+      })[] = [
+        ...groups.map((viewColumn) => ({
+          label: `Editor Group ${viewColumn}`,
+          region: "editorGroup" as const,
+          viewColumn,
+          picked: true,
+        })),
+        { label: "Side Bar", region: "sidebar", picked: true },
+        { label: "Panel", region: "panel", picked: true },
+        { label: "Status Bar", region: "statusBar" },
+        { label: "Activity Bar", region: "activityBar" },
+        { label: "Title Bar", region: "titleBar" },
+      ];
+
+      const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: "Select the parts of the window to calibrate",
+      });
+      if (!picked || picked.length === 0) {
+        return;
+      }
+
+      const regions: WorkbenchRegion[] = [];
+      for (const item of picked) {
+        const topLeft = await captureAnchor(
+          `Stare at the top left corner of the ${item.label}`,
+          (durationMs) =>
+            tracker.calibrateUpperLeft(durationMs, readCaptureThresholds())
+        );
+        const bottomRight =
+          topLeft &&
+          (await captureAnchor(
+            `Stare at the bottom right corner of the ${item.label}`,
+            (durationMs) =>
+              tracker.calibrateLowerRight(durationMs, readCaptureThresholds())
+          ));
+        if (!topLeft || !bottomRight) {
+          vscode.window.showInformationMessage("Calibration cancelled.");
+          return;
+        }
+
+        regions.push({
+          kind: item.region,
+          viewColumn: item.viewColumn,
+          rect: {
+            left: Math.min(topLeft.x, bottomRight.x),
+            top: Math.min(topLeft.y, bottomRight.y),
+            right: Math.max(topLeft.x, bottomRight.x),
+            bottom: Math.max(topLeft.y, bottomRight.y),
+          },
+        });
+      }
+
+      setCalibratedWorkbenchRegions(regions);
+      vscode.window.showInformationMessage(
+        `Workbench layout calibrated (${regions.length} regions).`
+      );
+    }
+  );
+}
+
+export function checkDrift() {
+  return vscode.commands.registerCommand(
+    "gp3attention.checkDrift",
+    async () => {
+      const tracker = getActiveTracker();
+      const pipeline = getGazePipeline();
+      const editor = vscode.window.activeTextEditor;
+      if (!tracker || !pipeline || !editor) {
+        vscode.window.showInformationMessage(
+          "Launch a tracking session first."
+        );
+        return;
+      }
+      if (!pipeline.isCorrectingDrift()) {
+        vscode.window.showInformationMessage(
+          "Drift correction is off. Turn on gp3attention.drift.enabled and launch a new tracking session."
+        );
+        return;
+      }
+
+      // A dot on the first letter of the line in the middle of the editor
+      const position = driftCheckPosition(editor);
+      const expected = position && screenPointOf(editor, position);
+      if (!position || !expected) {
+        vscode.window.showInformationMessage(
+          "Scroll to some text to check the drift."
+        );
+        return;
+      }
+      const dot = vscode.window.createTextEditorDecorationType({
+        backgroundColor: "rgba(255, 0, 0, 0.8)",
+        borderRadius: "50%",
       });
+      editor.setDecorations(dot, [
+        new vscode.Range(position, position.translate(0, 1)),
+      ]);
+
+      try {
+        const capture = await captureAnchor(
+          "Stare at the red dot",
+          (durationMs) =>
+            tracker.captureFixation(durationMs, readCaptureThresholds())
+        );
+        if (!capture) {
+          vscode.window.showInformationMessage("Drift check cancelled.");
+          return;
+        }
+
+        const update = pipeline.addDriftAnchor({
+          source: "explicit",
+          expected,
+          observed: { x: capture.x, y: capture.y },
+          time: Date.now(),
+        });
+        if (update?.accepted) {
+          vscode.window.showInformationMessage(
+            `Drift corrected by ${formatError(
+              Math.hypot(update.offset.x, update.offset.y)
+            )}.`
+          );
+        } else {
+          vscode.window.showWarningMessage(
+            `Drift not corrected. ${update?.reason ?? ""}`
+          );
+        }
+      } finally {
+        dot.dispose();
+      }
     }
   );
 }
 
+// The first non-blank character at or below the middle of the editor
+function driftCheckPosition(
+  editor: vscode.TextEditor
+): vscode.Position | undefined {
+  const visible = editor.visibleRanges[0];
+  if (!visible) {
+    return undefined;
+  }
+  const middle = Math.floor((visible.start.line + visible.end.line) / 2);
+  for (let line = middle; line <= visible.end.line; line++) {
+    const text = editor.document.lineAt(line);
+    if (!text.isEmptyOrWhitespace) {
+      return new vscode.Position(line, text.firstNonWhitespaceCharacterIndex);
+    }
+  }
+  return undefined;
+}
+
 // async function openCalibrationText() {
 //   const editor = vscode.window.activeTextEditor;
 //   if (!editor) {
@@ -50,11 +271,17 @@ export function launchTrackingSession() {
 //   }
 // }
 
-async function openCalibrationText() {
+/**
+ * Shows the calibration text, calibrates the tracker and the window on it, then brings back the
+ * document shown before.
+ *
+ * @returns Whether the tracking session was launched.
+ */
+async function openCalibrationText(): Promise<boolean> {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showInformationMessage("No active editor!");
-    return;
+    return false;
   }
 
   // Save the current document URI
@@ -69,7 +296,7 @@ async function openCalibrationText() {
 
   if (selection !== "Open") {
     vscode.window.showInformationMessage("Calibration cancelled.");
-    return;
+    return false;
   }
 
   // Close the current editor by opening a blank untitled doc in its place
@@ -87,35 +314,38 @@ async function openCalibrationText() {
     provider
   );
 
-  // Open the calibration text in the active column (view-only)
-  const document = await vscode.workspace.openTextDocument(virtualUri);
-  await vscode.window.showTextDocument(
-    document,
-    vscode.ViewColumn.Active,
-    false
-  );
-
-  // Wait for the calibration prompt
-  await new Promise((resolve) => setTimeout(resolve, 2000));
-  await promptGp3Calibration();
+  try {
+    // Open the calibration text in the active column (view-only)
+    const document = await vscode.workspace.openTextDocument(virtualUri);
+    await vscode.window.showTextDocument(
+      document,
+      vscode.ViewColumn.Active,
+      false
+    );
 
-  // Close the calibration text
-  await vscode.commands.executeCommand("workbench.action.closeActiveEditor");
+    // Wait for the calibration prompt
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+    const launched = await promptGp3Calibration();
 
-  // Re-open the previous document
-  const reopenedDoc = await vscode.workspace.openTextDocument(previousDocUri);
-  await vscode.window.showTextDocument(reopenedDoc, vscode.ViewColumn.Active);
+    // Close the calibration text
+    await vscode.commands.executeCommand("workbench.action.closeActiveEditor");
 
-  // Cleanup the provider
-  registration.dispose();
+    // Re-open the previous document
+    const reopenedDoc = await vscode.workspace.openTextDocument(previousDocUri);
+    await vscode.window.showTextDocument(reopenedDoc, vscode.ViewColumn.Active);
+    return launched;
+  } finally {
+    // Cleanup the provider
+    registration.dispose();
+  }
 }
 
-async function promptGp3Calibration() {
+async function promptGp3Calibration(): Promise<boolean> {
   // The user must have calibration text open
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showInformationMessage("No active editor!");
-    return;
+    return false;
   }
 
   // Ask the user to begin calibration of the gp3 camera
@@ -127,68 +357,301 @@ async function promptGp3Calibration() {
 
   if (selection === "Start Calibration") {
     // Begin the built-in gp3 calibration process
-    const tracker = new gp3Interface("127.0.0.1", 4242, true);
-    await tracker.begin();
+    const settings = readTrackerSettings();
+    const tracker = new gp3Interface(settings, true);
+    const connected = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Connecting to Gazepoint Control at ${settings.host}:${settings.port}...`,
+        cancellable: true,
+      },
+      (_progress, token) => tracker.begin(token)
+    );
+    if (!connected) {
+      tracker.close();
+      vscode.window.showErrorMessage(
+        "Could not connect to the eye tracker. Is Gazepoint Control running?"
+      );
+      return false;
+    }
+
+    // A study session must not continue on a bad calibration
+    const calibration = await runTrackerCalibration(tracker);
+    if (!calibration) {
+      tracker.close();
+      vscode.window.showInformationMessage("Calibration cancelled.");
+      return false;
+    }
     vscode.window.showInformationMessage(
-      "Eye tracker calibrated successfully."
+      `Eye tracker calibrated successfully (average error ${formatError(
+        calibration.averageError
+      )}).`
     );
 
     // Wait for 2 seconds before starting the next step
     await new Promise((resolve) => setTimeout(resolve, 2000));
-    await promptWindowCalibration(tracker);
-  } else {
-    vscode.window.showInformationMessage("Calibration cancelled.");
+    return promptWindowCalibration(tracker, calibration);
   }
+  vscode.window.showInformationMessage("Calibration cancelled.");
+  return false;
 }
 
-async function promptWindowCalibration(tracker: gp3Interface) {
+/**
+ * Calibrates the eye tracker until the operator accepts a result that meets the thresholds.
+ * The operator may re-run the bad points or the whole calibration as often as needed.
+ *
+ * @param tracker - A connected tracker.
+ * @returns The accepted result, or `undefined` if the operator gave up.
+ */
+async function runTrackerCalibration(
+  tracker: gp3Interface
+): Promise<CalibrationResult | undefined> {
+  const thresholds = readCalibrationThresholds();
+  let result: CalibrationResult | undefined;
+  let points: ScreenPoint[] | undefined; // Undefined runs the full point set
+
+  while (true) {
+    try {
+      const run = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Calibrating eye tracker",
+          cancellable: true,
+        },
+        (progress, token) =>
+          tracker.calibrate({
+            points,
+            timeoutMs: readCalibrationTimeoutMs(),
+            token,
+            onPoint: (index) => progress.report({ message: `point ${index}` }),
+          })
+      );
+      result = result && points ? mergeCalibrationResults(result, run) : run;
+    } catch (error) {
+      const retry = await vscode.window.showErrorMessage(
+        `Calibration failed: ${error instanceof Error ? error.message : error}`,
+        "Retry",
+        "Cancel"
+      );
+      if (retry !== "Retry") {
+        return undefined;
+      }
+      continue;
+    }
+
+    const badPoints = findBadPoints(result, thresholds);
+    const acceptable = isCalibrationAcceptable(result, thresholds);
+    const summary =
+      `Average error ${formatError(result.averageError)}, ` +
+      `${result.validPoints}/${result.points.length} valid points` +
+      (badPoints.length > 0
+        ? `, bad points: ${badPoints.map((point) => point.index).join(", ")}.`
+        : ".");
+
+    const actions = [
+      ...(acceptable ? ["Accept"] : []),
+      ...(badPoints.length > 0 ? ["Redo Bad Points"] : []),
+      "Redo All",
+      "Cancel",
+    ];
+    const choice = acceptable
+      ? await vscode.window.showInformationMessage(summary, ...actions)
+      : await vscode.window.showWarningMessage(
+          `Calibration rejected, the average error must be at most ${formatError(
+            thresholds.maxAverageError
+          )} with at least ${Math.round(
+            thresholds.minValidRatio * 100
+          )}% of the points valid. ${summary}`,
+          ...actions
+        );
+
+    if (choice === "Accept") {
+      return result;
+    } else if (choice === "Redo Bad Points") {
+      points = badPoints.map((point) => point.target);
+    } else if (choice === "Redo All") {
+      result = undefined;
+      points = undefined;
+    } else {
+      return undefined;
+    }
+  }
+}
+
+// Errors are fractions of the screen size
+function formatError(error: number): string {
+  return isNaN(error) ? "n/a" : `${(error * 100).toFixed(1)}% of the screen`;
+}
+
+async function promptWindowCalibration(
+  tracker: gp3Interface,
+  calibration: CalibrationResult
+): Promise<boolean> {
   // The user must have calibration text open
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showInformationMessage("No active editor!");
-    return;
+    tracker.close();
+    return false;
   }
 
-  // Ask the user to begin calibration of the window
-  const selection = await vscode.window.showInformationMessage(
-    "Step 1: Stare at the very first letter you can see for 5 seconds.",
-    "Start 5 seconds",
-    "Cancel"
+  // Rather now than after the participant stared at the first letter
+  const layout = anchorLayoutOf(editor);
+  if (typeof layout === "string") {
+    tracker.close();
+    vscode.window.showErrorMessage(`Window calibration failed: ${layout}`);
+    return false;
+  }
+
+  // Monitor the eye movement while the user looks at the first letter
+  const upperLeft = await captureAnchor(
+    "Step 1: Stare at the very first letter you can see",
+    (durationMs) =>
+      tracker.calibrateUpperLeft(durationMs, readCaptureThresholds())
   );
 
-  if (selection === "Start 5 seconds") {
-    // Monitor the eye movement
-    await tracker.calibrateUpperLeft();
+  if (upperLeft) {
     vscode.window.showInformationMessage("Upper left calibrated.");
 
     // Wait for 2 seconds before starting the next step
     await new Promise((resolve) => setTimeout(resolve, 2000));
-    await promptWindowCalibration2(tracker);
-  } else {
-    vscode.window.showInformationMessage("Calibration cancelled.");
+    return promptWindowCalibration2(tracker, calibration, upperLeft);
   }
+  tracker.close();
+  vscode.window.showInformationMessage("Calibration cancelled.");
+  return false;
 }
 
-async function promptWindowCalibration2(tracker: gp3Interface) {
+async function promptWindowCalibration2(
+  tracker: gp3Interface,
+  calibration: CalibrationResult,
+  upperLeft: FixationCapture
+): Promise<boolean> {
   // The user must have calibration text open
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showInformationMessage("No active editor!");
-    return;
+    tracker.close();
+    return false;
   }
 
-  // Ask the user to begin calibration of the window
-  const selection = await vscode.window.showInformationMessage(
-    "Step 2: Stare at the very last letter you can see for 5 seconds.",
-    "Start 5 seconds",
-    "Cancel"
+  // Monitor the eye movement while the user looks at the last letter
+  const lowerRight = await captureAnchor(
+    "Step 2: Stare at the very last letter you can see",
+    (durationMs) =>
+      tracker.calibrateLowerRight(durationMs, readCaptureThresholds())
   );
 
-  if (selection === "Start 5 seconds") {
-    // Monitor the eye movement
-    await tracker.calibrateLowerRight();
-    vscode.window.showInformationMessage("Lower right calibrated.");
-  } else {
+  if (!lowerRight) {
+    tracker.close();
     vscode.window.showInformationMessage("Calibration cancelled.");
+    return false;
+  }
+
+  // The anchors are the first and the last row shown in the editor
+  const layout = anchorLayoutOf(editor);
+  const transform =
+    typeof layout === "string"
+      ? layout
+      : computeViewportTransform(
+          upperLeft,
+          lowerRight,
+          layout,
+          readEditorMetrics(),
+          Date.now()
+        );
+
+  if (typeof transform === "string") {
+    tracker.close();
+    vscode.window.showErrorMessage(`Window calibration failed: ${transform}`);
+    return false;
+  }
+
+  setViewportTransform(transform, editor.viewColumn);
+  setActiveTracker(tracker, calibration);
+  const pipeline = new GazePipeline(
+    tracker,
+    readDetectionSettings(),
+    readFilterSettings(),
+    readDriftCorrectionSettings()
+  );
+  setGazePipeline(pipeline);
+  setAttentionRecorder(new AttentionRecorder(pipeline));
+  const anchorDelayMs = readImplicitAnchorDelayMs();
+  if (pipeline.isCorrectingDrift() && anchorDelayMs !== undefined) {
+    setDriftAnchorCollector(
+      new ImplicitAnchorCollector(pipeline, anchorDelayMs)
+    );
+  }
+  vscode.window.showInformationMessage("Lower right calibrated.");
+  return true;
+}
+
+/**
+ * Counts the rows on screen down to the last visible letter, the way the gaze is mapped later,
+ * and finds the right edge of the editor's group.
+ *
+ * @param editor - The editor showing the calibration text.
+ * @returns The layout, or a string explaining why the rows cannot be counted.
+ */
+function anchorLayoutOf(editor: vscode.TextEditor): AnchorLayout | string {
+  const viewport = snapshotViewport(editor);
+  if (viewport.wordWrap === "on" || viewport.wordWrap === "bounded") {
+    return "Lines wrap at the width of the editor, which is what is being measured. Set editor.wordWrap to off or wordWrapColumn while calibrating.";
+  }
+  const rows = buildVisualRows({
+    ...viewport,
+    wrapColumn:
+      viewport.wordWrap === "wordWrapColumn"
+        ? viewport.wordWrapColumn
+        : undefined,
+    maxRows: Infinity,
+  });
+
+  // Without a known layout the editor is taken to reach the right edge of the screen
+  const group = readWorkbenchRegions().find(
+    (region) =>
+      region.kind === "editorGroup" &&
+      (region.viewColumn === undefined ||
+        region.viewColumn === editor.viewColumn)
+  );
+  return {
+    lastRow: lastLetterRow(rows, viewport.lineText),
+    textAreaRight: group?.rect.right ?? 1,
+  };
+}
+
+/**
+ * Asks the user to look at a calibration anchor and captures the fixation, offering to try
+ * again as long as the fixation is rejected as unstable.
+ *
+ * @param instruction - What the user should look at.
+ * @param capture - Records the fixation for the given number of milliseconds.
+ * @returns The steady fixation, or `undefined` if the user cancelled.
+ */
+async function captureAnchor(
+  instruction: string,
+  capture: (durationMs: number) => Promise<FixationCapture>
+): Promise<FixationCapture | undefined> {
+  const durationMs = readCaptureDurationMs();
+  const start = `Start ${durationMs / 1000} seconds`;
+
+  let selection = await vscode.window.showInformationMessage(
+    `${instruction} for ${durationMs / 1000} seconds.`,
+    start,
+    "Cancel"
+  );
+
+  while (selection === start) {
+    try {
+      return await capture(durationMs);
+    } catch (error) {
+      selection = await vscode.window.showWarningMessage(
+        `${error instanceof Error ? error.message : error} ${instruction}.`,
+        start,
+        "Cancel"
+      );
+    }
   }
+  return undefined;
 }
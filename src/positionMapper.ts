@@ -0,0 +1,386 @@
+import * as vscode from "vscode";
+
+import { ScreenPoint } from "./calibration";
+import {
+  MappedKind,
+  mapGazeToPosition,
+  positionToScreen,
+  ViewportSnapshot,
+  WordWrap,
+} from "./gazeMapper";
+import { readEditorMetrics, readWorkbenchRegions } from "./settings";
+import { SymbolScope } from "./symbolAttention";
+import {
+  getGazePipeline,
+  getTransformViewColumn,
+  getViewportTransform,
+} from "./trackingState";
+import {
+  InlineInsertion,
+  stickyHeaderLines,
+  WrappingIndent,
+} from "./visualLayout";
+import { ViewportTransform } from "./windowCalibration";
+import { classifyGaze, GazeRegion, transformForGroup } from "./workbenchLayout";
+
+/**
+ * A gaze point resolved to a position in an editor.
+ */
+export interface GazePosition {
+  editor: vscode.TextEditor;
+  kind: MappedKind; // Only `text` is document text, see `MappedKind`
+  position: vscode.Position;
+  confidence: number;
+}
+
+/**
+ * Where a gaze point landed in the workbench, and the editor position if it landed on the
+ * text of an editor.
+ */
+export interface GazeTarget {
+  region: GazeRegion;
+  gaze?: GazePosition;
+}
+
+/**
+ * Rows and columns the editor inserts into a document, fetched from the language providers.
+ * They are fetched in the background, so the mapper never waits for a provider.
+ */
+interface EditorInsertions {
+  version: number; // Document version the entry was fetched for
+  rangeKey: string; // Visible ranges the inlay hints were fetched for
+  codeLensLines: number[];
+  scopes: { start: number; end: number }[]; // Symbol ranges, used for sticky scroll
+  symbols: SymbolScope[];
+  insertions: Map<number, InlineInsertion[]>;
+  refreshing: boolean;
+  retryAfter: number; // No refresh before this time after a provider failed, in ms since the epoch
+}
+
+// A provider that failed is asked again after this long, not with every gaze sample
+const PROVIDER_RETRY_MS = 5000;
+
+// Keyed by document URI
+const insertionCache = new Map<string, EditorInsertions>();
+
+/**
+ * Drops the cached insertions of documents once they are closed.
+ */
+export function registerInsertionCache(): vscode.Disposable {
+  const subscription = vscode.workspace.onDidCloseTextDocument((document) =>
+    insertionCache.delete(document.uri.toString())
+  );
+  return new vscode.Disposable(() => {
+    subscription.dispose();
+    insertionCache.clear();
+  });
+}
+
+/**
+ * Classifies a gaze point into a region of the workbench and, for editor groups, maps it to the
+ * editor shown in that group. Without a workbench layout every point is mapped to the active
+ * editor. The drift correction of the running tracking session is applied first.
+ *
+ * @param point - The gaze point in normalized screen coordinates, as reported by the tracker.
+ */
+export function resolveGaze(point: ScreenPoint): GazeTarget {
+  point = getGazePipeline()?.correctDrift(point) ?? point;
+  const regions = readWorkbenchRegions();
+  if (regions.length === 0) {
+    const editor = vscode.window.activeTextEditor;
+    const gaze = mapGazeToEditor(point, editor);
+    if (gaze) {
+      return {
+        region: { kind: "editorGroup", viewColumn: editor?.viewColumn },
+        gaze,
+      };
+    }
+    const region = classifyGaze(point, []);
+    return { region };
+  }
+
+  const region = classifyGaze(point, regions);
+  if (region.kind !== "editorGroup") {
+    return { region };
+  }
+
+  // Credit the editor shown in the group, not the focused one
+  const editor = vscode.window.visibleTextEditors.find(
+    (candidate) => candidate.viewColumn === region.viewColumn
+  );
+  return { region, gaze: editor && mapGazeToEditor(point, editor) };
+}
+
+/**
+ * Turns gaze points into positions in the editor, using the window calibration of the running
+ * tracking session. The calibration is moved to the editor's group if it was measured in
+ * another one.
+ *
+ * @param point - The gaze point in normalized screen coordinates.
+ * @param editor - The editor the point falls on. Defaults to the active editor.
+ * @returns The position, or `undefined` if there is no window calibration for the editor, no
+ *          editor, or the point is not on the text area.
+ */
+export function mapGazeToEditor(
+  point: ScreenPoint,
+  editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
+): GazePosition | undefined {
+  if (!editor || editor.visibleRanges.length === 0) {
+    return undefined;
+  }
+  const transform = transformForEditor(editor);
+  if (!transform) {
+    return undefined;
+  }
+
+  const mapped = mapGazeToPosition(point, transform, snapshotViewport(editor));
+  if (!mapped) {
+    return undefined;
+  }
+  return {
+    editor,
+    kind: mapped.kind,
+    position: new vscode.Position(mapped.line, mapped.character),
+    confidence: mapped.confidence,
+  };
+}
+
+/**
+ * Finds where a position of an editor is shown on screen, without drift correction.
+ *
+ * @param editor - The editor.
+ * @param position - The position.
+ * @returns The centre of the character in normalized screen coordinates, or `undefined` if
+ *          there is no window calibration for the editor or the position is not shown.
+ */
+export function screenPointOf(
+  editor: vscode.TextEditor,
+  position: vscode.Position
+): ScreenPoint | undefined {
+  const transform = transformForEditor(editor);
+  if (!transform || editor.visibleRanges.length === 0) {
+    return undefined;
+  }
+  return positionToScreen(
+    position.line,
+    position.character,
+    transform,
+    snapshotViewport(editor)
+  );
+}
+
+/**
+ * The window calibration for the group an editor is shown in.
+ *
+ * @param editor - The editor.
+ * @returns The transform, or `undefined` if it cannot be moved to the editor's group.
+ */
+function transformForEditor(
+  editor: vscode.TextEditor
+): ViewportTransform | undefined {
+  const transform = getViewportTransform();
+  const measuredIn = getTransformViewColumn();
+  if (!transform) {
+    return undefined;
+  }
+  if (
+    editor.viewColumn === undefined ||
+    measuredIn === undefined ||
+    editor.viewColumn === measuredIn
+  ) {
+    return transform;
+  }
+
+  const groups = readWorkbenchRegions().filter(
+    (region) => region.kind === "editorGroup"
+  );
+  const from = groups.find((group) => group.viewColumn === measuredIn);
+  const to = groups.find((group) => group.viewColumn === editor.viewColumn);
+  if (!from || !to) {
+    // Without the group layout there is no telling where the other group is
+    return groups.length === 0 ? transform : undefined;
+  }
+  return transformForGroup(transform, from.rect, to.rect);
+}
+
+/**
+ * Captures the state of an editor the gaze mapper needs.
+ *
+ * @param editor - The editor to capture.
+ */
+export function snapshotViewport(editor: vscode.TextEditor): ViewportSnapshot {
+  const document = editor.document;
+  const tabSize = editor.options.tabSize;
+  const config = vscode.workspace.getConfiguration("editor", document);
+  const insertions = cachedInsertions(editor);
+
+  const stickyHeaders = config.get<boolean>("stickyScroll.enabled", true)
+    ? stickyHeaderLines(
+        insertions.scopes,
+        editor.visibleRanges[0].start.line,
+        config.get<number>("stickyScroll.maxLineCount", 5)
+      )
+    : [];
+
+  return {
+    visibleRanges: editor.visibleRanges.map((range) => ({
+      start: range.start.line,
+      end: range.end.line,
+      startCharacter: range.start.character,
+    })),
+    lineText: (line) => document.lineAt(line).text,
+    tabSize: typeof tabSize === "number" ? tabSize : 4,
+    wordWrap: config.get<WordWrap>("wordWrap", "off"),
+    wordWrapColumn: config.get<number>("wordWrapColumn", 80),
+    wrappingIndent: config.get<WrappingIndent>("wrappingIndent", "same"),
+    codeLensLines: config.get<boolean>("codeLens", true)
+      ? insertions.codeLensLines
+      : [],
+    stickyHeaderLines: stickyHeaders,
+    insertions:
+      config.get<string>("inlayHints.enabled", "on") === "off"
+        ? new Map()
+        : insertions.insertions,
+    metrics: readEditorMetrics(),
+  };
+}
+
+/**
+ * The symbols of the document shown by an editor, as far as they are known. Like the other
+ * provider results they are fetched in the background.
+ *
+ * @param editor - The editor.
+ */
+export function documentSymbols(editor: vscode.TextEditor): SymbolScope[] {
+  return cachedInsertions(editor).symbols;
+}
+
+/**
+ * Returns what is known about the insertions of an editor, and refreshes it in the background
+ * when the document changed or the editor scrolled since.
+ */
+function cachedInsertions(editor: vscode.TextEditor): EditorInsertions {
+  const key = editor.document.uri.toString();
+  const rangeKey = editor.visibleRanges
+    .map((range) => `${range.start.line}-${range.end.line}`)
+    .join(",");
+
+  let entry = insertionCache.get(key);
+  if (!entry) {
+    entry = {
+      version: -1,
+      rangeKey: "",
+      codeLensLines: [],
+      scopes: [],
+      symbols: [],
+      insertions: new Map(),
+      refreshing: false,
+      retryAfter: 0,
+    };
+    insertionCache.set(key, entry);
+  }
+
+  const stale =
+    entry.version !== editor.document.version || entry.rangeKey !== rangeKey;
+  if (stale && !entry.refreshing && Date.now() >= entry.retryAfter) {
+    entry.refreshing = true;
+    refreshInsertions(editor, entry, rangeKey).finally(() => {
+      entry.refreshing = false;
+    });
+  }
+  return entry;
+}
+
+async function refreshInsertions(
+  editor: vscode.TextEditor,
+  entry: EditorInsertions,
+  rangeKey: string
+) {
+  const document = editor.document;
+  const version = document.version;
+  const visible = editor.visibleRanges;
+  // Nothing to fetch inlay hints for, e.g. while the editor is being laid out
+  if (visible.length === 0) {
+    return;
+  }
+  const range = new vscode.Range(
+    visible[0].start,
+    visible[visible.length - 1].end
+  );
+
+  try {
+    const [codeLenses, symbols, hints] = await Promise.all([
+      vscode.commands.executeCommand<vscode.CodeLens[] | undefined>(
+        "vscode.executeCodeLensProvider",
+        document.uri
+      ),
+      vscode.commands.executeCommand<vscode.DocumentSymbol[] | undefined>(
+        "vscode.executeDocumentSymbolProvider",
+        document.uri
+      ),
+      vscode.commands.executeCommand<vscode.InlayHint[] | undefined>(
+        "vscode.executeInlayHintProvider",
+        document.uri,
+        range
+      ),
+    ]);
+
+    entry.codeLensLines = [
+      ...new Set((codeLenses ?? []).map((lens) => lens.range.start.line)),
+    ];
+    entry.scopes = flattenScopes(symbols ?? []);
+    entry.symbols = toSymbolScopes(symbols ?? []);
+    entry.insertions = new Map();
+    for (const hint of hints ?? []) {
+      const label =
+        typeof hint.label === "string"
+          ? hint.label
+          : hint.label.map((part) => part.value).join("");
+      const width =
+        label.length + (hint.paddingLeft ? 1 : 0) + (hint.paddingRight ? 1 : 0);
+      const line = entry.insertions.get(hint.position.line) ?? [];
+      line.push({ character: hint.position.character, width });
+      entry.insertions.set(hint.position.line, line);
+    }
+    entry.version = version;
+    entry.rangeKey = rangeKey;
+    entry.retryAfter = 0;
+  } catch {
+    // The entry stays stale until the next try, logging each failure would flood the console
+    // at the tracker's rate
+    entry.retryAfter = Date.now() + PROVIDER_RETRY_MS;
+  }
+}
+
+// Multi-line symbol ranges, outermost first
+function flattenScopes(
+  symbols: vscode.DocumentSymbol[]
+): { start: number; end: number }[] {
+  const scopes: { start: number; end: number }[] = [];
+  for (const symbol of symbols) {
+    // Providers may return flat SymbolInformation, which has no range of its own
+    if (!symbol.range) {
+      continue;
+    }
+    if (symbol.range.end.line > symbol.range.start.line) {
+      scopes.push({
+        start: symbol.range.start.line,
+        end: symbol.range.end.line,
+      });
+    }
+    scopes.push(...flattenScopes(symbol.children ?? []));
+  }
+  return scopes;
+}
+
+function toSymbolScopes(symbols: vscode.DocumentSymbol[]): SymbolScope[] {
+  return symbols
+    .filter((symbol) => symbol.range) // See `flattenScopes`
+    .map((symbol) => ({
+      name: symbol.name,
+      kind: symbol.kind,
+      start: symbol.range.start,
+      end: symbol.range.end,
+      children: toSymbolScopes(symbol.children ?? []),
+    }));
+}
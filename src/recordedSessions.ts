@@ -0,0 +1,329 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import {
+  parseAttributedFixations,
+  parseEditorEvents,
+  Scanpath,
+} from "./scanpathReplay";
+import {
+  listBundles,
+  listUnreadableBundles,
+  SessionBundle,
+} from "./sessionBundle";
+import {
+  discardSession,
+  findUnfinalizedSessions,
+  lastKnownTime,
+  recoverSession,
+} from "./sessionRecovery";
+import {
+  openTags,
+  parseTagCsv,
+  TagLogError,
+  TagRecord,
+  tagSegments,
+} from "./tagLog";
+import { getRecordingSession } from "./trackingState";
+
+const FACE_VIDEO = /^face_(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})\.mov$/;
+
+/**
+ * The directory the sessions of the workspace are recorded to.
+ *
+ * @param workspaceFolder - The workspace folder.
+ */
+export function recordingsDirOf(workspaceFolder: string): string {
+  return path.join(workspaceFolder, ".vscode", "recordings");
+}
+
+/**
+ * Asks which session of the workspace to open.
+ *
+ * @param placeHolder - The prompt of the pick.
+ * @returns The session, or `undefined` if there is none or the pick was cancelled.
+ */
+export async function pickSession(
+  placeHolder: string
+): Promise<SessionBundle | undefined> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspaceFolder) {
+    vscode.window.showErrorMessage("No workspace folder open");
+    return undefined;
+  }
+
+  const bundles = listBundles(recordingsDirOf(workspaceFolder));
+  if (bundles.length === 0) {
+    vscode.window.showInformationMessage("No recorded sessions found.");
+    return undefined;
+  }
+  const picked = await vscode.window.showQuickPick(
+    bundles.map((bundle) => {
+      const participantId = bundle.getManifest().participantId;
+      return {
+        label: new Date(bundle.getStart()).toLocaleString(),
+        description: participantId
+          ? `${participantId} · ${bundle.getSessionId()}`
+          : bundle.getSessionId(),
+        bundle,
+      };
+    }),
+    { placeHolder }
+  );
+  return picked?.bundle;
+}
+
+/**
+ * Reads the tag CSV of a session.
+ */
+export function readTags(session: SessionBundle): TagRecord[] {
+  return parseTagCsv(session.read("tags"), session.getStart());
+}
+
+/**
+ * Loads the fixations of a session with what the editors showed and the tagged segments.
+ */
+export function loadScanpath(session: SessionBundle): Scanpath {
+  const fixations = parseAttributedFixations(session.read("eyeMovements"));
+  const tags = readTags(session);
+  const sessionEnd = [
+    ...fixations.map((fixation) => fixation.end),
+    ...tags.map((tag) => tag.time),
+  ].reduce((latest, time) => Math.max(latest, time), -Infinity);
+  return new Scanpath(
+    fixations,
+    parseEditorEvents(session.read("editorEvents")),
+    tagSegments(tags, sessionEnd)
+  );
+}
+
+/**
+ * Finds the face video of a session. Sessions recorded before bundles, and videos started
+ * without a session, only have videos named after the second they started, so for those the
+ * video that started closest to the session is taken.
+ *
+ * @param session - The session.
+ * @param start - When the session started, in ms since the epoch.
+ * @param end - When it ended.
+ * @returns The path of the video and when it started, if any.
+ */
+export function findFaceVideo(
+  session: SessionBundle,
+  start: number,
+  end: number
+): { path: string; start: number } | undefined {
+  const video = session.getFile("faceVideo");
+  if (video) {
+    return {
+      path: path.join(session.getDir(), video.path),
+      start: video.clockOffsetMs,
+    };
+  }
+
+  const recordingsDir = session.isLegacy()
+    ? session.getDir()
+    : path.dirname(session.getDir());
+  if (!fs.existsSync(recordingsDir)) {
+    return undefined;
+  }
+  let found: { path: string; start: number } | undefined;
+  for (const file of fs.readdirSync(recordingsDir)) {
+    const match = FACE_VIDEO.exec(file);
+    if (!match) {
+      continue;
+    }
+    const videoStart = Date.parse(
+      `${match[1]}T${match[2]}:${match[3]}:${match[4]}Z`
+    );
+    // The recording may start a little before the tag manager
+    if (videoStart < start - 60000 || videoStart > end) {
+      continue;
+    }
+    if (
+      !found ||
+      Math.abs(videoStart - start) < Math.abs(found.start - start)
+    ) {
+      found = { path: path.join(recordingsDir, file), start: videoStart };
+    }
+  }
+  return found;
+}
+
+// A session offered for recovery
+interface SessionItem extends vscode.QuickPickItem {
+  dir: string;
+  bundle?: SessionBundle; // Missing if the manifest cannot be read
+}
+
+/**
+ * Offers to repair or discard the sessions of the workspace that were never finalized, e.g.
+ * because VS Code crashed while they were recorded.
+ */
+export function recoverSessions() {
+  return vscode.commands.registerCommand(
+    "gp3attention.recoverSessions",
+    async () => {
+      const workspaceFolder =
+        vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+      if (!workspaceFolder) {
+        vscode.window.showErrorMessage("No workspace folder open");
+        return;
+      }
+      const recordingsDir = recordingsDirOf(workspaceFolder);
+      const bundles = findUnfinalizedSessions(
+        recordingsDir,
+        getRecordingSession()?.getSessionId()
+      );
+      const unreadable = listUnreadableBundles(recordingsDir);
+      if (bundles.length === 0 && unreadable.length === 0) {
+        vscode.window.showInformationMessage(
+          "Every recorded session was finalized."
+        );
+        return;
+      }
+
+      const items: SessionItem[] = bundles.map((bundle) => {
+        const item = {
+          label: new Date(bundle.getStart()).toLocaleString(),
+          description: bundle.getManifest().participantId,
+          dir: bundle.getDir(),
+          bundle,
+        };
+        try {
+          const open = openTags(readTags(bundle));
+          return {
+            ...item,
+            detail: `Last data at ${new Date(
+              lastKnownTime(bundle)
+            ).toLocaleTimeString()}${
+              open.length > 0 ? `, tags still shown: ${open.join(", ")}` : ""
+            }`,
+            picked: true,
+          };
+        } catch (error) {
+          if (!(error instanceof TagLogError)) {
+            throw error;
+          }
+          // It cannot be repaired, only discarded
+          return {
+            ...item,
+            detail: `Unreadable tag log: ${error.message}`,
+            picked: false,
+          };
+        }
+      });
+      for (const error of unreadable) {
+        items.push({
+          label: path.basename(error.dir),
+          detail: `Unreadable manifest: ${error.message}`,
+          picked: false,
+          dir: error.dir,
+        });
+      }
+
+      const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: "Sessions that were never finalized",
+      });
+      if (!picked || picked.length === 0) {
+        return;
+      }
+
+      const action = await vscode.window.showQuickPick(
+        [
+          {
+            label: "Repair",
+            description:
+              "Close the tags still shown at the last recorded time and mark the sessions as recovered",
+          },
+          {
+            label: "Discard",
+            description: "Delete the sessions and all their files",
+          },
+        ],
+        { placeHolder: `${picked.length} session(s)` }
+      );
+      if (action?.label === "Repair") {
+        for (const { label, bundle } of picked) {
+          if (!bundle) {
+            vscode.window.showErrorMessage(
+              `Cannot repair ${label}, its manifest is unreadable. It can only be discarded.`
+            );
+          }
+        }
+        repairSessions(
+          picked.flatMap(({ bundle }) => (bundle ? [bundle] : []))
+        );
+      } else if (action?.label === "Discard") {
+        const confirmed = await vscode.window.showWarningMessage(
+          `Delete ${picked.length} session(s) and all their files?`,
+          { modal: true },
+          "Delete"
+        );
+        if (confirmed !== "Delete") {
+          return;
+        }
+        for (const { label, dir } of picked) {
+          try {
+            discardSession(dir);
+          } catch (error) {
+            vscode.window.showErrorMessage(
+              `Failed to delete ${label}: ${error}`
+            );
+          }
+        }
+      }
+    }
+  );
+}
+
+/**
+ * Looks for sessions that were never finalized and offers to deal with them.
+ */
+export async function checkUnfinalizedSessions(): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspaceFolder) {
+    return;
+  }
+  const recordingsDir = recordingsDirOf(workspaceFolder);
+  const bundles = findUnfinalizedSessions(
+    recordingsDir,
+    getRecordingSession()?.getSessionId()
+  );
+  const unreadable = listUnreadableBundles(recordingsDir).length;
+  if (bundles.length === 0 && unreadable === 0) {
+    return;
+  }
+  const choice = await vscode.window.showWarningMessage(
+    `${bundles.length + unreadable} recorded session(s) were never finalized, probably because VS Code quit unexpectedly.${
+      unreadable > 0
+        ? ` The manifest of ${unreadable} cannot be read, those can only be discarded.`
+        : ""
+    }`,
+    "Repair All",
+    "Review"
+  );
+  if (choice === "Repair All") {
+    repairSessions(bundles);
+  } else if (choice === "Review") {
+    await vscode.commands.executeCommand("gp3attention.recoverSessions");
+  }
+}
+
+function repairSessions(bundles: SessionBundle[]): void {
+  let repaired = 0;
+  for (const bundle of bundles) {
+    try {
+      recoverSession(bundle, new Date());
+      repaired++;
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to repair ${bundle.getSessionId()}: ${error}`
+      );
+    }
+  }
+  if (repaired > 0) {
+    vscode.window.showInformationMessage(`Repaired ${repaired} session(s).`);
+  }
+}
@@ -0,0 +1,483 @@
+import * as vscode from "vscode";
+
+import { loadScanpath, pickSession } from "./recordedSessions";
+import { ReplayFixation, Scanpath } from "./scanpathReplay";
+import { readReplayTrailLength } from "./settings";
+
+const FRAME_INTERVAL_MS = 50;
+const SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+/**
+ * Plays the fixations of a recorded session back over the files they landed on. The current
+ * fixation is highlighted and the ones before it are numbered, while the editor follows the
+ * scrolling recorded at each moment. Controlled from the status bar.
+ */
+export class ScanpathPlayer implements vscode.Disposable {
+  private scanpath: Scanpath;
+  private trailLength: number;
+  private time: number; // Position of the playback, ms since the epoch
+  private speed = 1;
+  private timer: NodeJS.Timeout | undefined; // Set while playing
+  private lastFrame = 0; // Date.now() of the previous frame
+  private editor: vscode.TextEditor | undefined; // Showing the current fixation
+  private lastTop: number | undefined; // Line last scrolled to
+  private rendering = false;
+  private dirty = false; // The playback moved during a render
+  private warnedUris: Set<string> = new Set(); // Files that changed since the session
+  private currentDecoration: vscode.TextEditorDecorationType;
+  private trailDecoration: vscode.TextEditorDecorationType;
+  private statusItems: vscode.StatusBarItem[];
+  private timeItem: vscode.StatusBarItem;
+  private playItem: vscode.StatusBarItem;
+  private speedItem: vscode.StatusBarItem;
+
+  constructor(scanpath: Scanpath, trailLength: number) {
+    this.scanpath = scanpath;
+    this.trailLength = trailLength;
+    this.time = scanpath.getStart();
+
+    this.currentDecoration = vscode.window.createTextEditorDecorationType({
+      backgroundColor: "rgba(255, 200, 0, 0.45)",
+      border: "1px solid rgba(255, 160, 0, 0.9)",
+      overviewRulerColor: "rgba(255, 160, 0, 0.9)",
+      overviewRulerLane: vscode.OverviewRulerLane.Center,
+    });
+    this.trailDecoration = vscode.window.createTextEditorDecorationType({
+      backgroundColor: "rgba(0, 120, 255, 0.15)",
+      before: {
+        color: "#ffffff",
+        backgroundColor: "rgba(0, 120, 255, 0.8)",
+        margin: "0 2px 0 0",
+        fontWeight: "bold",
+      },
+    });
+
+    this.playItem = createStatusItem(
+      "$(play)",
+      "gp3attention.replay.togglePlayback",
+      "Play or pause the replay",
+      104
+    );
+    this.timeItem = createStatusItem(
+      "",
+      "gp3attention.replay.jump",
+      "Jump to a tagged segment or time",
+      102
+    );
+    this.speedItem = createStatusItem(
+      "1×",
+      "gp3attention.replay.setSpeed",
+      "Playback speed",
+      101
+    );
+    this.statusItems = [
+      createStatusItem(
+        "$(chevron-left)",
+        "gp3attention.replay.stepBackward",
+        "Previous fixation",
+        105
+      ),
+      this.playItem,
+      createStatusItem(
+        "$(chevron-right)",
+        "gp3attention.replay.stepForward",
+        "Next fixation",
+        103
+      ),
+      this.timeItem,
+      this.speedItem,
+      createStatusItem(
+        "$(close)",
+        "gp3attention.replay.stop",
+        "Stop the replay",
+        100
+      ),
+    ];
+    this.render();
+  }
+
+  public getScanpath(): Scanpath {
+    return this.scanpath;
+  }
+
+  public isPlaying(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /** Starts or resumes the playback, from the start if it is over. */
+  public play(): void {
+    if (this.timer) {
+      return;
+    }
+    if (this.time >= this.scanpath.getEnd()) {
+      this.time = this.scanpath.getStart();
+    }
+    this.lastFrame = Date.now();
+    this.timer = setInterval(() => this.advance(), FRAME_INTERVAL_MS);
+    this.render();
+  }
+
+  public pause(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.render();
+  }
+
+  /**
+   * Moves the playback to a moment of the session.
+   *
+   * @param time - Milliseconds since the epoch.
+   */
+  public seek(time: number): void {
+    this.time = Math.min(
+      Math.max(time, this.scanpath.getStart()),
+      this.scanpath.getEnd()
+    );
+    this.lastFrame = Date.now();
+    this.render();
+  }
+
+  /**
+   * Moves the playback to the start of a neighbouring fixation.
+   *
+   * @param direction - 1 for the next fixation, -1 for the previous one.
+   */
+  public step(direction: 1 | -1): void {
+    const fixations = this.scanpath.getFixations();
+    const index = Math.min(
+      Math.max(this.scanpath.indexAt(this.time) + direction, 0),
+      fixations.length - 1
+    );
+    this.seek(fixations[index].start);
+  }
+
+  /**
+   * @param speed - How many times faster than real time to play.
+   */
+  public setSpeed(speed: number): void {
+    this.speed = speed;
+    this.render();
+  }
+
+  public dispose(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.dirty = false;
+    this.currentDecoration.dispose();
+    this.trailDecoration.dispose();
+    this.statusItems.forEach((statusItem) => statusItem.dispose());
+  }
+
+  private advance(): void {
+    const now = Date.now();
+    this.time += (now - this.lastFrame) * this.speed;
+    this.lastFrame = now;
+    if (this.time >= this.scanpath.getEnd()) {
+      this.time = this.scanpath.getEnd();
+      this.pause();
+      return;
+    }
+    this.render();
+  }
+
+  private render(): void {
+    const start = this.scanpath.getStart();
+    this.timeItem.text = `${formatElapsed(this.time - start)} / ${formatElapsed(
+      this.scanpath.getEnd() - start
+    )}`;
+    this.playItem.text = this.timer ? "$(debug-pause)" : "$(play)";
+    this.speedItem.text = `${this.speed}×`;
+
+    // Opening a file takes a while, catch up once it is shown
+    if (this.rendering) {
+      this.dirty = true;
+      return;
+    }
+    this.rendering = true;
+    this.showFixations()
+      .catch((error) =>
+        vscode.window.showErrorMessage(`Failed to replay: ${error}`)
+      )
+      .finally(() => {
+        this.rendering = false;
+        if (this.dirty) {
+          this.dirty = false;
+          this.render();
+        }
+      });
+  }
+
+  private async showFixations(): Promise<void> {
+    const trail = this.scanpath.trail(this.time, this.trailLength);
+    const current = trail.pop();
+    if (!current) {
+      this.clearDecorations();
+      return;
+    }
+
+    const editor = await this.showDocument(current.uri);
+    if (editor !== this.editor) {
+      this.clearDecorations();
+      this.editor = editor;
+      this.lastTop = undefined;
+    }
+
+    const top = this.scanpath.scrollAt(current.uri, this.time);
+    if (top && top.line !== this.lastTop) {
+      this.lastTop = top.line;
+      editor.revealRange(
+        new vscode.Range(top.line, 0, top.line, 0),
+        vscode.TextEditorRevealType.AtTop
+      );
+    }
+
+    const currentRange = this.rangeOf(current, editor.document);
+    editor.setDecorations(
+      this.currentDecoration,
+      currentRange ? [currentRange] : []
+    );
+    const trailOptions: vscode.DecorationOptions[] = [];
+    for (const fixation of trail) {
+      const range = this.rangeOf(fixation, editor.document);
+      if (range) {
+        trailOptions.push({
+          range,
+          renderOptions: {
+            before: { contentText: `${fixation.index + 1}` },
+          },
+        });
+      }
+    }
+    editor.setDecorations(this.trailDecoration, trailOptions);
+  }
+
+  private async showDocument(uri: string): Promise<vscode.TextEditor> {
+    const visible = vscode.window.visibleTextEditors.find(
+      (editor) => editor.document.uri.toString() === uri
+    );
+    if (visible) {
+      return visible;
+    }
+
+    const document = await vscode.workspace.openTextDocument(
+      vscode.Uri.parse(uri)
+    );
+    const finalText = this.scanpath.finalText(uri);
+    if (
+      finalText !== undefined &&
+      finalText !== document.getText() &&
+      !this.warnedUris.has(uri)
+    ) {
+      this.warnedUris.add(uri);
+      vscode.window.showWarningMessage(
+        `${vscode.workspace.asRelativePath(
+          document.uri
+        )} changed since the session, fixations may be shown on the wrong code.`
+      );
+    }
+    return vscode.window.showTextDocument(document, {
+      preview: true,
+      preserveFocus: true,
+    });
+  }
+
+  // The token a fixation landed on, or its character
+  private rangeOf(
+    fixation: ReplayFixation,
+    document: vscode.TextDocument
+  ): vscode.Range | undefined {
+    const position = this.scanpath.positionOf(fixation);
+    if (!position || position.line >= document.lineCount) {
+      return undefined;
+    }
+    if (fixation.token) {
+      const shift = position.character - fixation.position.character;
+      return new vscode.Range(
+        position.line,
+        fixation.token.start + shift,
+        position.line,
+        fixation.token.end + shift
+      );
+    }
+    return new vscode.Range(
+      position.line,
+      position.character,
+      position.line,
+      position.character + 1
+    );
+  }
+
+  private clearDecorations(): void {
+    this.editor?.setDecorations(this.currentDecoration, []);
+    this.editor?.setDecorations(this.trailDecoration, []);
+  }
+}
+
+let player: ScanpathPlayer | null = null;
+
+export function replaySession() {
+  return vscode.commands.registerCommand(
+    "gp3attention.replaySession",
+    async () => {
+      const session = await pickSession("Pick the session to replay");
+      if (!session) {
+        return;
+      }
+
+      let scanpath: Scanpath;
+      try {
+        scanpath = loadScanpath(session);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to load the session: ${error}`);
+        return;
+      }
+      if (scanpath.getFixations().length === 0) {
+        vscode.window.showInformationMessage(
+          "The session has no fixations on code to replay."
+        );
+        return;
+      }
+
+      player?.dispose();
+      player = new ScanpathPlayer(scanpath, readReplayTrailLength());
+      player.play();
+    }
+  );
+}
+
+export function toggleReplayPlayback() {
+  return vscode.commands.registerCommand(
+    "gp3attention.replay.togglePlayback",
+    () => {
+      if (player?.isPlaying()) {
+        player.pause();
+      } else if (player) {
+        player.play();
+      } else {
+        showNoReplay();
+      }
+    }
+  );
+}
+
+export function stepReplayForward() {
+  return vscode.commands.registerCommand(
+    "gp3attention.replay.stepForward",
+    () => (player ? player.step(1) : showNoReplay())
+  );
+}
+
+export function stepReplayBackward() {
+  return vscode.commands.registerCommand(
+    "gp3attention.replay.stepBackward",
+    () => (player ? player.step(-1) : showNoReplay())
+  );
+}
+
+export function setReplaySpeed() {
+  return vscode.commands.registerCommand(
+    "gp3attention.replay.setSpeed",
+    async () => {
+      if (!player) {
+        showNoReplay();
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        SPEEDS.map((speed) => ({ label: `${speed}×`, speed })),
+        { placeHolder: "Playback speed" }
+      );
+      if (picked) {
+        player?.setSpeed(picked.speed);
+      }
+    }
+  );
+}
+
+export function jumpInReplay() {
+  return vscode.commands.registerCommand(
+    "gp3attention.replay.jump",
+    async () => {
+      if (!player) {
+        showNoReplay();
+        return;
+      }
+      const scanpath = player.getScanpath();
+      const start = scanpath.getStart();
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: "Start of the session", time: start },
+          ...scanpath.getSegments().map((segment) => ({
+            label: segment.tag,
+            description: `${formatElapsed(
+              segment.start - start
+            )} – ${formatElapsed(segment.end - start)}`,
+            time: segment.start,
+          })),
+          { label: "Go to a time…", time: NaN },
+        ],
+        { placeHolder: "Jump to a tagged segment or time" }
+      );
+      if (!picked) {
+        return;
+      }
+
+      let time = picked.time;
+      if (Number.isNaN(time)) {
+        const input = await vscode.window.showInputBox({
+          prompt: "Time since the start of the session, e.g. 2:30",
+          validateInput: (value) =>
+            Number.isNaN(parseElapsed(value))
+              ? "Enter minutes and seconds, e.g. 2:30"
+              : undefined,
+        });
+        if (input === undefined) {
+          return;
+        }
+        time = start + parseElapsed(input);
+      }
+      player?.seek(time);
+    }
+  );
+}
+
+export function stopReplay() {
+  return vscode.commands.registerCommand("gp3attention.replay.stop", () => {
+    player?.dispose();
+    player = null;
+  });
+}
+
+// Items are laid out from the highest priority
+function createStatusItem(
+  text: string,
+  command: string,
+  tooltip: string,
+  priority: number
+): vscode.StatusBarItem {
+  const item = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Left,
+    priority
+  );
+  item.text = text;
+  item.command = command;
+  item.tooltip = tooltip;
+  item.show();
+  return item;
+}
+
+function showNoReplay(): void {
+  vscode.window.showInformationMessage(
+    "No replay running. Start one with GP3: Replay Session."
+  );
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(Math.floor(ms / 1000), 0);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// "2:30" or "150" to milliseconds
+function parseElapsed(value: string): number {
+  const match = /^\s*(?:(\d+):)?(\d+(?:\.\d+)?)\s*$/.exec(value);
+  return match ? (Number(match[1] ?? 0) * 60 + Number(match[2])) * 1000 : NaN;
+}
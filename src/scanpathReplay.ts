@@ -0,0 +1,390 @@
+/**
+ * Rebuilds the scanpath of a recorded session from its logs: the fixations in the order they
+ * happened, the code each one landed on, what the editors showed at each moment and the
+ * segments marked with tags. Positions are translated to the last version of each document in
+ * the session, so they land on the right code even if the participant typed afterwards.
+ */
+
+import { DocumentHistory, TextPosition } from "./documentHistory";
+import { EditorEvent, LoggedRange } from "./editorEvents";
+import { TagSegment } from "./tagLog";
+
+/**
+ * A fixation that landed on a document.
+ */
+export interface ReplayFixation {
+  index: number; // Order in the session, from 0
+  start: number; // Milliseconds since the epoch
+  end: number;
+  duration: number;
+  uri: string;
+  version: number; // Document version shown at the time
+  position: TextPosition;
+  token?: { start: number; end: number }; // Characters of the line
+  symbols: string[]; // Enclosing symbols, outermost first
+}
+
+/**
+ * Reads the fixations attributed to code from an eye movement log.
+ *
+ * @param text - The content of `eye_movements.jsonl`.
+ * @returns The fixations that landed on a document, in time order.
+ */
+export function parseAttributedFixations(text: string): ReplayFixation[] {
+  const fixations: ReplayFixation[] = [];
+  for (const entry of parseJsonLines(text)) {
+    const fields = (entry ?? {}) as Record<string, unknown>;
+    const { type, start, time, duration, uri, version, position } = fields;
+    if (
+      type !== "attribution" ||
+      typeof start !== "number" ||
+      typeof time !== "number" ||
+      typeof duration !== "number" ||
+      typeof uri !== "string" ||
+      typeof version !== "number" ||
+      !isPosition(position)
+    ) {
+      continue;
+    }
+    const token = (fields.token ?? {}) as Record<string, unknown>;
+    fixations.push({
+      index: 0,
+      start,
+      end: time,
+      duration,
+      uri,
+      version,
+      position: { line: position[0], character: position[1] },
+      token:
+        typeof token.start === "number" && typeof token.end === "number"
+          ? { start: token.start, end: token.end }
+          : undefined,
+      symbols: Array.isArray(fields.symbols)
+        ? fields.symbols.filter((symbol) => typeof symbol === "string")
+        : [],
+    });
+  }
+  fixations.sort((a, b) => a.start - b.start);
+  fixations.forEach((fixation, index) => (fixation.index = index));
+  return fixations;
+}
+
+/**
+ * Reads an editor event log, skipping lines that are cut off or not events of a known shape.
+ *
+ * @param text - The content of `editor.jsonl`.
+ */
+export function parseEditorEvents(text: string): EditorEvent[] {
+  return parseJsonLines(text).filter(isEditorEvent);
+}
+
+// Checks the fields a replay reads, lines of other shapes are skipped
+function isEditorEvent(entry: unknown): entry is EditorEvent {
+  const event = (entry ?? {}) as Record<string, unknown>;
+  if (typeof event.time !== "number") {
+    return false;
+  }
+  switch (event.type) {
+    case "document":
+      return (
+        typeof event.uri === "string" &&
+        typeof event.version === "number" &&
+        typeof event.text === "string"
+      );
+    case "visibleRanges":
+      return isLoggedEditor(event);
+    case "selection":
+      return (
+        typeof event.uri === "string" &&
+        Array.isArray(event.selections) &&
+        event.selections.every(isRange)
+      );
+    case "activeEditor":
+      return typeof event.uri === "string" || event.uri === null;
+    case "edit":
+      return (
+        typeof event.uri === "string" &&
+        typeof event.version === "number" &&
+        Array.isArray(event.changes) &&
+        event.changes.every((change) => {
+          const { range, text } = (change ?? {}) as Record<string, unknown>;
+          return isRange(range) && typeof text === "string";
+        })
+      );
+    case "layout":
+      return (
+        Array.isArray(event.editors) && event.editors.every(isLoggedEditor)
+      );
+    case "metrics":
+      return typeof event.metrics === "object" && event.metrics !== null;
+    case "focus":
+      return typeof event.focused === "boolean";
+    default:
+      return false;
+  }
+}
+
+function isLoggedEditor(entry: unknown): boolean {
+  const editor = (entry ?? {}) as Record<string, unknown>;
+  return (
+    typeof editor.uri === "string" &&
+    typeof editor.version === "number" &&
+    Array.isArray(editor.visibleRanges) &&
+    editor.visibleRanges.every(isRange)
+  );
+}
+
+function isRange(value: unknown): value is LoggedRange {
+  return (
+    Array.isArray(value) &&
+    value.length === 4 &&
+    value.every((number) => typeof number === "number")
+  );
+}
+
+function isPosition(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    typeof value[0] === "number" &&
+    typeof value[1] === "number"
+  );
+}
+
+// The first position an editor showed, against the version it showed
+interface Scroll {
+  time: number;
+  version: number;
+  top: TextPosition;
+}
+
+/**
+ * A recorded session, ready to be played back.
+ */
+export class Scanpath {
+  private fixations: ReplayFixation[];
+  private segments: TagSegment[];
+  private scrolls: Map<string, Scroll[]> = new Map(); // By URI, oldest first
+  private histories: Map<string, DocumentHistory> = new Map(); // By URI
+
+  /**
+   * @param fixations - The fixations, in time order.
+   * @param editorEvents - The editor event log of the session.
+   * @param segments - The tagged segments of the session.
+   */
+  constructor(
+    fixations: ReplayFixation[],
+    editorEvents: EditorEvent[],
+    segments: TagSegment[]
+  ) {
+    this.fixations = fixations;
+    this.segments = segments;
+
+    for (const event of editorEvents) {
+      switch (event.type) {
+        case "document":
+          // A document opened again starts its versions over
+          this.histories.set(
+            event.uri,
+            new DocumentHistory(event.version, event.text)
+          );
+          break;
+        case "edit":
+          try {
+            this.histories.get(event.uri)?.apply(
+              event.version,
+              event.changes.map(({ range, text }) => ({
+                start: { line: range[0], character: range[1] },
+                end: { line: range[2], character: range[3] },
+                text,
+              }))
+            );
+          } catch {
+            // Out of order versions, positions after it stay untranslated
+          }
+          break;
+        case "visibleRanges":
+          this.addScroll(
+            event.time,
+            event.uri,
+            event.version,
+            event.visibleRanges
+          );
+          break;
+        case "layout":
+          for (const editor of event.editors) {
+            this.addScroll(
+              event.time,
+              editor.uri,
+              editor.version,
+              editor.visibleRanges
+            );
+          }
+          break;
+      }
+    }
+  }
+
+  /** When the first fixation started, or `NaN` without fixations. */
+  public getStart(): number {
+    return this.fixations.length > 0 ? this.fixations[0].start : NaN;
+  }
+
+  /** When the last fixation ended, or `NaN` without fixations. */
+  public getEnd(): number {
+    return this.fixations.length > 0
+      ? this.fixations.reduce(
+          (latest, fixation) => Math.max(latest, fixation.end),
+          -Infinity
+        )
+      : NaN;
+  }
+
+  public getFixations(): ReplayFixation[] {
+    return this.fixations;
+  }
+
+  public getSegments(): TagSegment[] {
+    return this.segments;
+  }
+
+  /**
+   * The fixation under way at a moment, or the last one before it.
+   *
+   * @param time - Milliseconds since the epoch.
+   * @returns The index of the fixation, or -1 before the first one.
+   */
+  public indexAt(time: number): number {
+    // Binary search for the last fixation started at or before `time`
+    let low = 0;
+    let high = this.fixations.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.fixations[middle].start <= time) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * The fixation at a moment and the ones right before it on the same document.
+   *
+   * @param time - Milliseconds since the epoch.
+   * @param length - How many fixations at most, the current one included.
+   * @returns The fixations, oldest first.
+   */
+  public trail(time: number, length: number): ReplayFixation[] {
+    const current = this.indexAt(time);
+    if (current < 0 || length <= 0) {
+      return [];
+    }
+    const uri = this.fixations[current].uri;
+    const trail: ReplayFixation[] = [];
+    for (let i = current; i >= 0 && trail.length < length; i--) {
+      if (this.fixations[i].uri !== uri) {
+        break;
+      }
+      trail.unshift(this.fixations[i]);
+    }
+    return trail;
+  }
+
+  /**
+   * Where a fixation landed in the last version of its document.
+   *
+   * @param fixation - The fixation.
+   * @returns The position, or the recorded one if the log does not cover its version. Fixations
+   *          on code deleted later return `undefined`.
+   */
+  public positionOf(fixation: ReplayFixation): TextPosition | undefined {
+    return this.translate(fixation.uri, fixation.position, fixation.version);
+  }
+
+  /**
+   * The first position shown by the editor of a document at a moment, in the last version of
+   * the document.
+   *
+   * @param uri - The document.
+   * @param time - Milliseconds since the epoch.
+   */
+  public scrollAt(uri: string, time: number): TextPosition | undefined {
+    const scrolls = this.scrolls.get(uri) ?? [];
+    for (let i = scrolls.length - 1; i >= 0; i--) {
+      if (scrolls[i].time <= time) {
+        return this.translate(uri, scrolls[i].top, scrolls[i].version);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The text of a document at the end of the session.
+   *
+   * @param uri - The document.
+   * @returns The text, or `undefined` if the document was never shown.
+   */
+  public finalText(uri: string): string | undefined {
+    const history = this.histories.get(uri);
+    return history?.textAt(history.getVersion());
+  }
+
+  private addScroll(
+    time: number,
+    uri: string,
+    version: number,
+    visibleRanges: LoggedRange[]
+  ): void {
+    if (visibleRanges.length === 0) {
+      return;
+    }
+    const scrolls = this.scrolls.get(uri) ?? [];
+    scrolls.push({
+      time,
+      version,
+      top: { line: visibleRanges[0][0], character: visibleRanges[0][1] },
+    });
+    this.scrolls.set(uri, scrolls);
+  }
+
+  private translate(
+    uri: string,
+    position: TextPosition,
+    version: number
+  ): TextPosition | undefined {
+    const history = this.histories.get(uri);
+    if (!history) {
+      return position;
+    }
+    if (
+      version !== history.getBaseVersion() &&
+      history.textAt(version) === undefined
+    ) {
+      return position; // A version from before the document was opened again
+    }
+    return history.translatePosition(position, version);
+  }
+}
+
+/**
+ * Parses a log of one JSON object per line, skipping lines that are cut off.
+ *
+ * @param text - The content of the log.
+ */
+export function parseJsonLines(text: string): unknown[] {
+  const entries: unknown[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // The last line of a session that did not end cleanly
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,393 @@
+/**
+ * The on-disk format of a recorded session: one directory per session under
+ * `.vscode/recordings`, named after the session ID, with a `session.json` manifest that says
+ * when the session started, what it was recorded with and where each data file is. Every tool
+ * that writes or reads sessions goes through this module, so they all agree on one format.
+ *
+ * Sessions recorded before bundles existed are flat files named after the session ID in the
+ * recordings directory. They are read as bundles too, with a manifest built from the files.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { CalibrationResult } from "./calibration";
+import { sessionStartOf } from "./tagLog";
+
+export const MANIFEST_FILE = "session.json";
+export const FORMAT_VERSION = 1;
+
+/** What a data file of a session holds. */
+export type SessionFileKind =
+  | "tags" // Tag CSV, see `parseTagCsv`
+  | "editorEvents" // Editor event log, see `EditorEventLog`
+  | "eyeMovements" // Fixations, saccades, blinks and attributions, see `EyeMovementLog`
+  | "gaze" // Every raw tracker record, see `GazeSampleLog`
+  | "faceVideo"; // The face camera
+
+/**
+ * A data file of a session.
+ */
+export interface SessionFile {
+  kind: SessionFileKind;
+  path: string; // Relative to the bundle directory
+  // Added to the times in the file to get milliseconds since the epoch: 0 for the logs, which
+  // use wall clock time already, and the start of the recording for the video
+  clockOffsetMs: number;
+}
+
+/** The tracker a session was recorded with. */
+export interface TrackerInfo {
+  host: string;
+  port: number;
+  productId?: string; // E.g. `GP3`
+  serialId?: string;
+}
+
+/**
+ * The content of `session.json`.
+ */
+export interface SessionManifest {
+  formatVersion: number;
+  sessionId: string; // The timestamp the bundle directory is named after
+  startedAt: string; // ISO 8601
+  endedAt?: string; // Set when the session is finalized
+  recoveredAt?: string; // Set when a session that was never finalized is repaired
+  extensionVersion: string;
+  participantId?: string;
+  tracker?: TrackerInfo;
+  calibration?: CalibrationResult; // The calibration the tracker was accepted with
+  settings: Record<string, unknown>; // The parameters an analysis needs to be reproduced
+  files: SessionFile[];
+}
+
+/**
+ * Raised when a directory is not a session bundle this version can read. `unreadable` is set
+ * if the directory has a manifest that is cut off or not a manifest, e.g. after a crash.
+ */
+export class SessionBundleError extends Error {
+  constructor(
+    public readonly dir: string,
+    message: string,
+    public readonly unreadable: boolean = false
+  ) {
+    super(`${dir}: ${message}`);
+    this.name = "SessionBundleError";
+  }
+}
+
+// Tag CSVs of sessions recorded before bundles, named after their session. Face videos of
+// that time are found by `findFaceVideo`.
+const LEGACY_FILE = /^tags_(.+)\.csv$/;
+
+/**
+ * The ID of a session started at a time, e.g. `2025-05-01T12-30-00_000Z`. IDs sort in time
+ * order and are safe as file names.
+ */
+export function newSessionId(date: Date): string {
+  return date.toISOString().replace(/:/g, "-").replace(/\./g, "_");
+}
+
+/**
+ * A recorded session on disk.
+ */
+export class SessionBundle {
+  private dir: string;
+  private manifest: SessionManifest;
+  private legacy: boolean; // Flat files without a manifest, read only
+
+  private constructor(dir: string, manifest: SessionManifest, legacy: boolean) {
+    this.dir = dir;
+    this.manifest = manifest;
+    this.legacy = legacy;
+  }
+
+  /**
+   * Creates the directory and manifest of a new session.
+   *
+   * @param recordingsDir - The directory holding the sessions.
+   * @param start - When the session starts.
+   * @param info - The rest of the manifest known up front.
+   */
+  public static create(
+    recordingsDir: string,
+    start: Date,
+    info: { extensionVersion: string; participantId?: string }
+  ): SessionBundle {
+    const sessionId = newSessionId(start);
+    const dir = path.join(recordingsDir, sessionId);
+    if (fs.existsSync(dir)) {
+      throw new SessionBundleError(
+        dir,
+        "A session with this ID exists already"
+      );
+    }
+    fs.mkdirSync(dir, { recursive: true });
+    const bundle = new SessionBundle(
+      dir,
+      {
+        formatVersion: FORMAT_VERSION,
+        sessionId,
+        startedAt: start.toISOString(),
+        extensionVersion: info.extensionVersion,
+        participantId: info.participantId,
+        settings: {},
+        files: [],
+      },
+      false
+    );
+    bundle.save();
+    return bundle;
+  }
+
+  /**
+   * Opens the bundle in a directory.
+   *
+   * @param dir - The bundle directory.
+   * @throws SessionBundleError if the manifest is missing, not JSON or from a newer version.
+   */
+  public static open(dir: string): SessionBundle {
+    const manifestPath = path.join(dir, MANIFEST_FILE);
+    let manifest: SessionManifest;
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+    } catch (error) {
+      throw new SessionBundleError(
+        dir,
+        `Cannot read ${MANIFEST_FILE}: ${error}`,
+        fs.existsSync(manifestPath)
+      );
+    }
+    if (
+      typeof manifest?.sessionId !== "string" ||
+      !Array.isArray(manifest.files)
+    ) {
+      throw new SessionBundleError(
+        dir,
+        `${MANIFEST_FILE} is not a session manifest`,
+        true
+      );
+    }
+    if (!(manifest.formatVersion <= FORMAT_VERSION)) {
+      throw new SessionBundleError(
+        dir,
+        `Format version ${manifest.formatVersion} is newer than this extension supports`
+      );
+    }
+    return new SessionBundle(
+      dir,
+      { ...manifest, settings: manifest.settings ?? {} },
+      false
+    );
+  }
+
+  /**
+   * Reads a session recorded before bundles, from its flat tag CSV.
+   *
+   * @param recordingsDir - The directory holding the files.
+   * @param sessionId - The timestamp the tag CSV is named after.
+   */
+  public static openLegacy(
+    recordingsDir: string,
+    sessionId: string
+  ): SessionBundle {
+    const start = sessionStartOf(sessionId);
+    return new SessionBundle(
+      recordingsDir,
+      {
+        formatVersion: 0,
+        sessionId,
+        startedAt: Number.isFinite(start) ? new Date(start).toISOString() : "",
+        extensionVersion: "unknown",
+        settings: {},
+        files: [
+          { kind: "tags", path: `tags_${sessionId}.csv`, clockOffsetMs: 0 },
+        ],
+      },
+      true
+    );
+  }
+
+  /** The directory the data files are relative to. */
+  public getDir(): string {
+    return this.dir;
+  }
+
+  public getSessionId(): string {
+    return this.manifest.sessionId;
+  }
+
+  /** When the session started, in ms since the epoch, `NaN` if unknown. */
+  public getStart(): number {
+    return Date.parse(this.manifest.startedAt);
+  }
+
+  public getManifest(): Readonly<SessionManifest> {
+    return this.manifest;
+  }
+
+  /** Whether the session was recorded before bundles. */
+  public isLegacy(): boolean {
+    return this.legacy;
+  }
+
+  /**
+   * The data file of a kind, if the session has one.
+   */
+  public getFile(kind: SessionFileKind): SessionFile | undefined {
+    return this.manifest.files.find((file) => file.kind === kind);
+  }
+
+  /**
+   * The absolute path of the data file of a kind, if the session has one.
+   */
+  public pathOf(kind: SessionFileKind): string | undefined {
+    const file = this.getFile(kind);
+    return file && path.join(this.dir, file.path);
+  }
+
+  /**
+   * Reads a text data file.
+   *
+   * @returns The content, empty if the session has no such file.
+   */
+  public read(kind: SessionFileKind): string {
+    const filePath = this.pathOf(kind);
+    return filePath && fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, "utf-8")
+      : "";
+  }
+
+  /**
+   * Adds a data file to the manifest, replacing any earlier file of the same kind. The caller
+   * creates the file.
+   *
+   * @param kind - What the file holds.
+   * @param fileName - The name of the file within the bundle.
+   * @param clockOffsetMs - Added to the times in the file to get milliseconds since the epoch.
+   * @returns The absolute path to write the file to.
+   */
+  public addFile(
+    kind: SessionFileKind,
+    fileName: string,
+    clockOffsetMs: number = 0
+  ): string {
+    this.manifest.files = [
+      ...this.manifest.files.filter((file) => file.kind !== kind),
+      { kind, path: fileName, clockOffsetMs },
+    ];
+    this.save();
+    return path.join(this.dir, fileName);
+  }
+
+  /**
+   * Sets fields of the manifest, e.g. the tracker once it is known.
+   */
+  public update(
+    update: Partial<
+      Omit<
+        SessionManifest,
+        "formatVersion" | "sessionId" | "files" | "settings"
+      >
+    >
+  ): void {
+    this.manifest = { ...this.manifest, ...update };
+    this.save();
+  }
+
+  /**
+   * Adds to the settings of the session. Keys that are already set are overwritten.
+   */
+  public updateSettings(update: Record<string, unknown>): void {
+    this.manifest.settings = { ...this.manifest.settings, ...update };
+    this.save();
+  }
+
+  private save(): void {
+    if (this.legacy) {
+      throw new SessionBundleError(
+        this.dir,
+        "Sessions recorded before bundles are read only"
+      );
+    }
+    // Replace the manifest in one step, a crash mid-write leaves the previous one in place
+    const manifestPath = path.join(this.dir, MANIFEST_FILE);
+    const tempPath = `${manifestPath}.tmp`;
+    const fd = fs.openSync(tempPath, "w");
+    try {
+      fs.writeFileSync(fd, JSON.stringify(this.manifest, null, 2) + "\n");
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, manifestPath);
+  }
+}
+
+/**
+ * The sessions recorded to a directory, newest first, legacy ones included. Sessions with a
+ * manifest this version cannot read are left out, see `listUnreadableBundles`.
+ *
+ * @param recordingsDir - The directory holding the sessions.
+ */
+export function listBundles(recordingsDir: string): SessionBundle[] {
+  if (!fs.existsSync(recordingsDir)) {
+    return [];
+  }
+  const bundles: SessionBundle[] = [];
+  const legacyIds = new Set<string>();
+  for (const entry of fs.readdirSync(recordingsDir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      try {
+        bundles.push(SessionBundle.open(path.join(recordingsDir, entry.name)));
+      } catch (error) {
+        if (!(error instanceof SessionBundleError)) {
+          throw error;
+        }
+      }
+      continue;
+    }
+    const match = LEGACY_FILE.exec(entry.name);
+    if (match) {
+      legacyIds.add(match[1]);
+    }
+  }
+  for (const sessionId of legacyIds) {
+    bundles.push(SessionBundle.openLegacy(recordingsDir, sessionId));
+  }
+  return bundles.sort((a, b) =>
+    b.getSessionId().localeCompare(a.getSessionId())
+  );
+}
+
+/**
+ * The session directories whose manifest is there but cannot be read, e.g. because a crash cut
+ * it off. They can only be deleted.
+ *
+ * @param recordingsDir - The directory holding the sessions.
+ * @returns Why each cannot be read, with the directory in `dir`.
+ */
+export function listUnreadableBundles(
+  recordingsDir: string
+): SessionBundleError[] {
+  if (!fs.existsSync(recordingsDir)) {
+    return [];
+  }
+  const errors: SessionBundleError[] = [];
+  for (const entry of fs.readdirSync(recordingsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    try {
+      SessionBundle.open(path.join(recordingsDir, entry.name));
+    } catch (error) {
+      if (!(error instanceof SessionBundleError)) {
+        throw error;
+      }
+      if (error.unreadable) {
+        errors.push(error);
+      }
+    }
+  }
+  return errors.sort((a, b) => b.dir.localeCompare(a.dir));
+}
@@ -0,0 +1,367 @@
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { findFaceVideo, loadScanpath, pickSession } from "./recordedSessions";
+import { parseEditorEvents, parseJsonLines, Scanpath } from "./scanpathReplay";
+import { SessionBundle } from "./sessionBundle";
+import { buildTimeline, SessionTimeline } from "./sessionTimeline";
+import { parseTagSchema } from "./tagSchema";
+
+/**
+ * Shows a recorded session on one time axis: the tagged segments, the active file, the
+ * fixation density, the validity of the gaze data and the face video. Clicking the timeline
+ * seeks the video and opens the code that was looked at then.
+ */
+export class SessionDashboard implements vscode.Disposable {
+  private panel: vscode.WebviewPanel;
+  private scanpath: Scanpath;
+  private timeline: SessionTimeline;
+  private subscription: vscode.Disposable;
+
+  /**
+   * Loads a session and opens its dashboard.
+   *
+   * @param session - The session.
+   */
+  constructor(session: SessionBundle) {
+    this.scanpath = loadScanpath(session);
+    const fixationStarts = parseJsonLines(session.read("eyeMovements")).flatMap(
+      (entry) => {
+        const { type, start } = (entry ?? {}) as Record<string, unknown>;
+        return type === "fixation" && typeof start === "number" ? [start] : [];
+      }
+    );
+    this.timeline = buildTimeline(
+      session.getStart(),
+      this.scanpath.getSegments(),
+      parseEditorEvents(session.read("editorEvents")),
+      fixationStarts,
+      session.read("gaze")
+    );
+
+    const video = findFaceVideo(
+      session,
+      this.timeline.start,
+      this.timeline.end
+    );
+    this.panel = vscode.window.createWebviewPanel(
+      "gp3attention.sessionDashboard",
+      `Session ${session.getSessionId()}`,
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: video
+          ? [vscode.Uri.file(path.dirname(video.path))]
+          : [],
+      }
+    );
+    this.panel.webview.html = renderDashboard(
+      this.panel.webview,
+      this.timeline,
+      tagColorsOf(session),
+      video && {
+        src: this.panel.webview
+          .asWebviewUri(vscode.Uri.file(video.path))
+          .toString(),
+        name: path.basename(video.path),
+        start: video.start,
+      }
+    );
+    this.subscription = this.panel.webview.onDidReceiveMessage((message) => {
+      if (message.type === "open" && typeof message.time === "number") {
+        this.openAt(message.time).catch((error) =>
+          vscode.window.showErrorMessage(`Failed to open the code: ${error}`)
+        );
+      }
+    });
+    this.panel.onDidDispose(() => this.subscription.dispose());
+  }
+
+  public dispose(): void {
+    this.panel.dispose();
+  }
+
+  // Opens the code the fixation under way at a moment landed on, scrolled as it was then
+  private async openAt(time: number): Promise<void> {
+    const index = this.scanpath.indexAt(time);
+    const fixation = this.scanpath.getFixations()[index];
+    const file = this.timeline.files.find(
+      (span) => span.start <= time && time < span.end
+    );
+    const uri = fixation?.uri ?? file?.uri;
+    if (!uri) {
+      vscode.window.showInformationMessage("No file was looked at then.");
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(
+      vscode.Uri.parse(uri)
+    );
+    const editor = await vscode.window.showTextDocument(document, {
+      viewColumn: vscode.ViewColumn.Beside,
+      preserveFocus: true,
+    });
+    const top = this.scanpath.scrollAt(uri, time);
+    if (top) {
+      editor.revealRange(
+        new vscode.Range(top.line, 0, top.line, 0),
+        vscode.TextEditorRevealType.AtTop
+      );
+    }
+
+    const position = fixation && this.scanpath.positionOf(fixation);
+    if (position && position.line < document.lineCount) {
+      const shift = position.character - fixation.position.character;
+      const range = fixation.token
+        ? new vscode.Range(
+            position.line,
+            fixation.token.start + shift,
+            position.line,
+            fixation.token.end + shift
+          )
+        : new vscode.Range(
+            position.line,
+            position.character,
+            position.line,
+            position.character + 1
+          );
+      editor.selection = new vscode.Selection(range.start, range.end);
+      if (!top) {
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+      }
+    }
+  }
+}
+
+export function showSessionDashboard() {
+  return vscode.commands.registerCommand(
+    "gp3attention.showSessionDashboard",
+    async () => {
+      const session = await pickSession("Pick the session to show");
+      if (!session) {
+        return;
+      }
+      try {
+        new SessionDashboard(session);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to load the session: ${error}`);
+      }
+    }
+  );
+}
+
+// The colors of the tag schema saved with the session, if any
+function tagColorsOf(session: SessionBundle): Record<string, string> {
+  const colors: Record<string, string> = {};
+  const schema = session.getManifest().settings.tagSchema;
+  if (schema === undefined) {
+    return colors;
+  }
+  try {
+    for (const definition of parseTagSchema(schema)) {
+      if (definition.color) {
+        colors[definition.name] = definition.color;
+      }
+    }
+  } catch {
+    // Saved by a version with another schema, tags keep the default color
+  }
+  return colors;
+}
+
+function renderDashboard(
+  webview: vscode.Webview,
+  timeline: SessionTimeline,
+  tagColors: Record<string, string>,
+  video: { src: string; name: string; start: number } | undefined
+): string {
+  const nonce = createNonce();
+  // The data must not be able to close its script element
+  const data = JSON.stringify({
+    ...timeline,
+    files: timeline.files.map((span) => ({
+      ...span,
+      name: path.basename(vscode.Uri.parse(span.uri).path),
+    })),
+    tagColors,
+    video: video && { start: video.start },
+  }).replace(/</g, "\\u003c");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; media-src ${
+    webview.cspSource
+  }; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    video { max-width: 480px; max-height: 270px; display: block; margin-bottom: 8px; }
+    svg { width: 100%; cursor: crosshair; }
+    .label { fill: var(--vscode-descriptionForeground); font-size: 11px; }
+    p.label { color: var(--vscode-descriptionForeground); }
+    .tick { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+    .tag { fill: var(--vscode-charts-purple); }
+    .density { fill: var(--vscode-charts-blue); }
+    .valid { fill: var(--vscode-charts-green); }
+    .invalid { fill: var(--vscode-charts-red); opacity: 0.35; }
+    .cursor { stroke: var(--vscode-charts-orange); stroke-width: 2; }
+    .name { fill: var(--vscode-editor-background); font-size: 10px; pointer-events: none; }
+    .file0 { fill: var(--vscode-charts-blue); }
+    .file1 { fill: var(--vscode-charts-green); }
+    .file2 { fill: var(--vscode-charts-yellow); }
+    .file3 { fill: var(--vscode-charts-orange); }
+    .file4 { fill: var(--vscode-charts-purple); }
+    .file5 { fill: var(--vscode-charts-red); }
+  </style>
+</head>
+<body>
+  ${
+    video
+      ? `<video id="video" src="${video.src}" controls></video>
+  <p class="label">${escapeHtml(
+    video.name
+  )}. If the video does not play, open it outside of VS Code.</p>`
+      : `<p class="label">No face video recorded during this session.</p>`
+  }
+  <p id="cursorLabel" class="label">Click the timeline to open the code looked at then.</p>
+  <svg id="timeline"></svg>
+  <script id="data" type="application/json">${data}</script>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const data = JSON.parse(document.getElementById("data").textContent);
+    const svg = document.getElementById("timeline");
+    const video = document.getElementById("video");
+    const cursorLabel = document.getElementById("cursorLabel");
+    const LABEL_WIDTH = 120;
+    const ROW_HEIGHT = 20;
+    const ROW_GAP = 8;
+    const AXIS_HEIGHT = 18;
+    const FILE_COLORS = 6;
+    let cursor = data.start;
+
+    function escapeHtml(text) {
+      return String(text).replace(/[&<>"']/g, (c) => "&#" + c.charCodeAt(0) + ";");
+    }
+
+    function formatElapsed(ms) {
+      const seconds = Math.max(Math.floor(ms / 1000), 0);
+      return Math.floor(seconds / 60) + ":" + String(seconds % 60).padStart(2, "0");
+    }
+
+    function render() {
+      const width = svg.clientWidth;
+      const span = Math.max(data.end - data.start, 1);
+      const x = (time) => LABEL_WIDTH + ((time - data.start) / span) * (width - LABEL_WIDTH);
+      const binWidth = ((width - LABEL_WIDTH) * data.binMs) / span;
+      const tagNames = [...new Set(data.tags.map((segment) => segment.tag))];
+      const rows = [
+        ...tagNames.map((name) => ({ label: name, draw: (y) => drawTag(name, y) })),
+        { label: "Active file", draw: drawFiles },
+        { label: "Fixations / s", draw: drawDensity },
+        { label: "Valid data", draw: drawValidity },
+      ];
+      const parts = [];
+
+      // About ten ticks, on whole minutes
+      const tickMinutes = Math.max(Math.ceil(span / 60000 / 10), 1);
+      for (let minute = 0; minute * 60000 <= span; minute += tickMinutes) {
+        const tickX = x(data.start + minute * 60000);
+        parts.push('<text class="tick" x="' + tickX + '" y="12">' + minute + ":00</text>");
+      }
+      rows.forEach((row, index) => {
+        const y = AXIS_HEIGHT + index * (ROW_HEIGHT + ROW_GAP);
+        parts.push('<text class="label" x="0" y="' + (y + 14) + '">' + escapeHtml(row.label) + "</text>");
+        row.draw(y);
+      });
+      const height = AXIS_HEIGHT + rows.length * (ROW_HEIGHT + ROW_GAP);
+      parts.push('<line class="cursor" x1="' + x(cursor) + '" x2="' + x(cursor) + '" y1="0" y2="' + height + '"></line>');
+      svg.setAttribute("height", height);
+      svg.innerHTML = parts.join("");
+
+      function drawTag(name, y) {
+        for (const segment of data.tags.filter((segment) => segment.tag === name)) {
+          // Schema colors are hex colors, see parseTagSchema
+          const color = Object.prototype.hasOwnProperty.call(data.tagColors, name) && data.tagColors[name];
+          parts.push('<rect ' + (color ? 'fill="' + color + '"' : 'class="tag"') + ' x="' + x(segment.start) + '" y="' + y + '" width="' + Math.max(x(segment.end) - x(segment.start), 1) + '" height="' + ROW_HEIGHT + '"><title>' + escapeHtml(name) + "</title></rect>");
+        }
+      }
+      function drawFiles(y) {
+        const colors = new Map();
+        for (const file of data.files) {
+          if (!colors.has(file.uri)) {
+            colors.set(file.uri, colors.size % FILE_COLORS);
+          }
+          const fileWidth = Math.max(x(file.end) - x(file.start), 1);
+          parts.push('<rect class="file' + colors.get(file.uri) + '" x="' + x(file.start) + '" y="' + y + '" width="' + fileWidth + '" height="' + ROW_HEIGHT + '"><title>' + escapeHtml(file.name) + "</title></rect>");
+          if (fileWidth > file.name.length * 6) {
+            parts.push('<text class="name" x="' + (x(file.start) + 3) + '" y="' + (y + 14) + '">' + escapeHtml(file.name) + "</text>");
+          }
+        }
+      }
+      function drawDensity(y) {
+        const highest = Math.max(...data.fixationDensity, 1e-9);
+        data.fixationDensity.forEach((density, bin) => {
+          const barHeight = (density / highest) * ROW_HEIGHT;
+          parts.push('<rect class="density" x="' + x(data.start + bin * data.binMs) + '" y="' + (y + ROW_HEIGHT - barHeight) + '" width="' + binWidth + '" height="' + barHeight + '"></rect>');
+        });
+      }
+      function drawValidity(y) {
+        data.validity.forEach((fraction, bin) => {
+          if (fraction === null) {
+            return;
+          }
+          const barX = x(data.start + bin * data.binMs);
+          const barHeight = fraction * ROW_HEIGHT;
+          parts.push('<rect class="invalid" x="' + barX + '" y="' + y + '" width="' + binWidth + '" height="' + ROW_HEIGHT + '"></rect>');
+          parts.push('<rect class="valid" x="' + barX + '" y="' + (y + ROW_HEIGHT - barHeight) + '" width="' + binWidth + '" height="' + barHeight + '"><title>' + Math.round(fraction * 100) + "% valid</title></rect>");
+        });
+      }
+    }
+
+    function moveCursor(time) {
+      cursor = Math.min(Math.max(time, data.start), data.end);
+      cursorLabel.textContent = formatElapsed(cursor - data.start) + " into the session";
+      render();
+    }
+
+    svg.addEventListener("click", (event) => {
+      const bounds = svg.getBoundingClientRect();
+      const offset = event.clientX - bounds.left - LABEL_WIDTH;
+      if (offset < 0) {
+        return;
+      }
+      const time = data.start + (offset / (bounds.width - LABEL_WIDTH)) * (data.end - data.start);
+      moveCursor(time);
+      if (video && data.video) {
+        video.currentTime = Math.max((time - data.video.start) / 1000, 0);
+      }
+      vscode.postMessage({ type: "open", time });
+    });
+    if (video && data.video) {
+      video.addEventListener("timeupdate", () =>
+        moveCursor(data.video.start + video.currentTime * 1000)
+      );
+    }
+    window.addEventListener("resize", render);
+    render();
+  </script>
+</body>
+</html>`;
+}
+
+function createNonce(): string {
+  const characters =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let nonce = "";
+  for (let i = 0; i < 32; i++) {
+    nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+  }
+  return nonce;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
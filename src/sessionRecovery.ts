@@ -0,0 +1,156 @@
+/**
+ * Finds the sessions that were never finalized, because VS Code crashed or was killed while
+ * they were recorded, and repairs them: the tags still shown are closed at the last moment any
+ * of the logs recorded, and the manifest is marked as recovered so analyses can tell.
+ */
+
+import * as fs from "fs";
+
+import { listBundles, SessionBundle, SessionFileKind } from "./sessionBundle";
+import { formatTagRow, openTags, parseTagCsv, tagLogVersion } from "./tagLog";
+
+// Enough of the end of a log to hold its last complete lines
+const TAIL_BYTES = 64 * 1024;
+
+/**
+ * The sessions of a directory that were never finalized, newest first.
+ *
+ * @param recordingsDir - The directory holding the sessions.
+ * @param activeSessionId - The session being recorded right now, which is left out.
+ */
+export function findUnfinalizedSessions(
+  recordingsDir: string,
+  activeSessionId?: string
+): SessionBundle[] {
+  return listBundles(recordingsDir).filter(
+    (bundle) =>
+      !bundle.isLegacy() &&
+      !bundle.getManifest().endedAt &&
+      bundle.getSessionId() !== activeSessionId
+  );
+}
+
+/**
+ * The last moment any data file of a session recorded, in ms since the epoch. Lines cut off by
+ * the crash are skipped.
+ *
+ * @param bundle - The session.
+ * @returns The time, or the start of the session if no file recorded anything.
+ */
+export function lastKnownTime(bundle: SessionBundle): number {
+  const times = [
+    bundle.getStart(),
+    ...parseTagCsv(bundle.read("tags"), bundle.getStart()).map(
+      (record) => record.time
+    ),
+    lastLoggedTime(bundle, "editorEvents", (line) => JSON.parse(line).time),
+    lastLoggedTime(bundle, "eyeMovements", (line) => JSON.parse(line).time),
+    // The first column of the gaze CSV is the time of the record, complete once a comma follows
+    lastLoggedTime(bundle, "gaze", (line) =>
+      line.includes(",") ? Number(line.split(",")[0]) : NaN
+    ),
+  ];
+  return times
+    .filter((time) => Number.isFinite(time))
+    .reduce((latest, time) => Math.max(latest, time), -Infinity);
+}
+
+/**
+ * Repairs a session that was never finalized: closes the tags still shown at the last known
+ * time, the way `TagManager.finalize` would have, and marks the manifest as ended and
+ * recovered.
+ *
+ * @param bundle - The session.
+ * @param now - When the session is recovered.
+ * @returns When the session is taken to have ended and the tags that were closed.
+ */
+export function recoverSession(
+  bundle: SessionBundle,
+  now: Date
+): { endedAt: number; closedTags: string[] } {
+  const endedAt = lastKnownTime(bundle);
+  const end = new Date(endedAt);
+  const closedTags: string[] = [];
+  const tagsPath = bundle.pathOf("tags");
+  if (tagsPath && fs.existsSync(tagsPath)) {
+    let text = fs.readFileSync(tagsPath, "utf-8");
+    // A row cut off by the crash would swallow the first closing row
+    if (text.length > 0 && !text.endsWith("\n")) {
+      text = text.slice(0, text.lastIndexOf("\n") + 1);
+      fs.truncateSync(tagsPath, Buffer.byteLength(text));
+    }
+    const records = parseTagCsv(text, bundle.getStart());
+    closedTags.push(...openTags(records));
+    // The monotonic clock is gone with the process, carry on from the last row that had it
+    const last = records
+      .filter((record) => record.elapsedMs !== undefined)
+      .pop();
+    const elapsedMs = last && last.elapsedMs! + endedAt - last.time;
+    const version = tagLogVersion(text);
+    fs.appendFileSync(
+      tagsPath,
+      [...closedTags, "start"]
+        .map((tag) =>
+          formatTagRow(
+            { tag, time: endedAt, elapsedMs, visible: false },
+            version
+          )
+        )
+        .join("")
+    );
+  }
+  bundle.update({
+    endedAt: end.toISOString(),
+    recoveredAt: now.toISOString(),
+  });
+  return { endedAt, closedTags };
+}
+
+/**
+ * Deletes a session and all its files.
+ *
+ * @param dir - The bundle directory.
+ */
+export function discardSession(dir: string): void {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+// The time of the last line of a log that parses, NaN if none does
+function lastLoggedTime(
+  bundle: SessionBundle,
+  kind: SessionFileKind,
+  timeOf: (line: string) => number
+): number {
+  const filePath = bundle.pathOf(kind);
+  if (!filePath || !fs.existsSync(filePath)) {
+    return NaN;
+  }
+  const lines = readTail(filePath).split("\n");
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (!lines[i].trim()) {
+      continue;
+    }
+    try {
+      const time = timeOf(lines[i]);
+      if (typeof time === "number" && Number.isFinite(time)) {
+        return time;
+      }
+    } catch {
+      // Cut off or not a data line
+    }
+  }
+  return NaN;
+}
+
+function readTail(filePath: string): string {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    const length = Math.min(size, TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    fs.readSync(fd, buffer, 0, length, size - length);
+    return buffer.toString("utf-8");
+  } finally {
+    fs.closeSync(fd);
+  }
+}
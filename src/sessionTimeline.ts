@@ -0,0 +1,182 @@
+/**
+ * Puts the logs of a recorded session on one time axis for the session dashboard: the tagged
+ * segments, which file was active when, how many fixations there were and how much of the gaze
+ * data was valid.
+ */
+
+import { EditorEvent } from "./editorEvents";
+import { TagSegment } from "./tagLog";
+
+// Bars drawn for the density and validity rows at most
+const MAX_BINS = 400;
+
+/** A stretch of the session a file was the active editor for. */
+export interface FileSpan {
+  uri: string;
+  start: number; // Milliseconds since the epoch
+  end: number;
+}
+
+/**
+ * Everything the dashboard draws, times in milliseconds since the epoch.
+ */
+export interface SessionTimeline {
+  start: number;
+  end: number;
+  binMs: number; // Width of a density and validity bin
+  tags: TagSegment[];
+  files: FileSpan[];
+  fixationDensity: number[]; // Fixations per second in each bin
+  validity: (number | null)[]; // Fraction of valid samples in each bin, null without samples
+}
+
+/**
+ * The width of the bins that split a session into at most `MAX_BINS`, rounded up to a whole
+ * number of seconds.
+ *
+ * @param start - When the session started.
+ * @param end - When it ended.
+ */
+export function binWidth(start: number, end: number): number {
+  return Math.max(Math.ceil((end - start) / MAX_BINS / 1000), 1) * 1000;
+}
+
+/**
+ * The stretches each file was the active editor for, from the `activeEditor` events of an
+ * editor event log. Stretches without an active editor are left out.
+ *
+ * @param events - The editor event log.
+ * @param end - When the session ended.
+ */
+export function activeFileSpans(
+  events: EditorEvent[],
+  end: number
+): FileSpan[] {
+  const spans: FileSpan[] = [];
+  let open: FileSpan | undefined; // The span of the active file, its end not known yet
+  for (const event of events) {
+    if (event.type !== "activeEditor" || event.uri === open?.uri) {
+      continue;
+    }
+    if (open) {
+      open.end = event.time;
+    }
+    open = event.uri
+      ? { uri: event.uri, start: event.time, end: event.time }
+      : undefined;
+    if (open) {
+      spans.push(open);
+    }
+  }
+  if (open) {
+    open.end = Math.max(open.start, end);
+  }
+  return spans;
+}
+
+/**
+ * Counts fixations per bin.
+ *
+ * @param starts - When each fixation started.
+ * @param start - Start of the first bin.
+ * @param binMs - Width of a bin.
+ * @param binCount - Number of bins.
+ * @returns Fixations per second in each bin.
+ */
+export function fixationDensity(
+  starts: number[],
+  start: number,
+  binMs: number,
+  binCount: number
+): number[] {
+  const counts = new Array<number>(binCount).fill(0);
+  for (const time of starts) {
+    const bin = Math.floor((time - start) / binMs);
+    if (bin >= 0 && bin < binCount) {
+      counts[bin]++;
+    }
+  }
+  return counts.map((count) => count / (binMs / 1000));
+}
+
+/**
+ * The fraction of valid samples per bin of a raw gaze CSV, see `GazeSampleLog`.
+ *
+ * @param csv - The content of `gaze.csv`, header included.
+ * @param start - Start of the first bin.
+ * @param binMs - Width of a bin.
+ * @param binCount - Number of bins.
+ * @returns The fraction of samples with a valid best point of gaze in each bin, or `null`
+ *          for bins without samples.
+ */
+export function gazeValidity(
+  csv: string,
+  start: number,
+  binMs: number,
+  binCount: number
+): (number | null)[] {
+  const valid = new Array<number>(binCount).fill(0);
+  const total = new Array<number>(binCount).fill(0);
+  const lines = csv.split("\n");
+  const header = lines[0].split(",");
+  const timeColumn = header.indexOf("time");
+  const validColumn = header.indexOf("bpogv");
+  if (timeColumn < 0 || validColumn < 0) {
+    return total.map(() => null);
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const fields = lines[i].split(",");
+    if (!fields[timeColumn]) {
+      continue; // The empty last line
+    }
+    const bin = Math.floor((Number(fields[timeColumn]) - start) / binMs);
+    if (bin >= 0 && bin < binCount) {
+      total[bin]++;
+      if (fields[validColumn] === "1") {
+        valid[bin]++;
+      }
+    }
+  }
+  return total.map((count, bin) => (count > 0 ? valid[bin] / count : null));
+}
+
+/**
+ * Builds the timeline of a session from its logs.
+ *
+ * @param sessionStart - When the session started, see `sessionStartOf`.
+ * @param tags - The tagged segments.
+ * @param editorEvents - The editor event log.
+ * @param fixationStarts - When each fixation started.
+ * @param gazeCsv - The raw gaze CSV, empty if the session has none.
+ */
+export function buildTimeline(
+  sessionStart: number,
+  tags: TagSegment[],
+  editorEvents: EditorEvent[],
+  fixationStarts: number[],
+  gazeCsv: string
+): SessionTimeline {
+  const times = [
+    ...tags.flatMap((segment) => [segment.start, segment.end]),
+    ...editorEvents.map((event) => event.time),
+    ...fixationStarts,
+  ];
+  // Folded rather than spread, a long session has more times than a call takes arguments
+  const start = Number.isFinite(sessionStart)
+    ? sessionStart
+    : times.reduce((earliest, time) => Math.min(earliest, time), Infinity);
+  const end = times.reduce((latest, time) => Math.max(latest, time), start);
+  const binMs = binWidth(start, end);
+  const binCount = Math.max(Math.ceil((end - start) / binMs), 1);
+
+  return {
+    start,
+    end,
+    binMs,
+    tags,
+    files: activeFileSpans(editorEvents, end),
+    fixationDensity: fixationDensity(fixationStarts, start, binMs, binCount),
+    validity: gazeValidity(gazeCsv, start, binMs, binCount),
+  };
+}
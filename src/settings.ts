@@ -0,0 +1,333 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { HeatmapGranularity } from "./attentionHeatmap";
+import { AutoTagSources } from "./autoTags";
+import { CalibrationThresholds } from "./calibration";
+import {
+  DEFAULT_DRIFT_CORRECTION_SETTINGS,
+  DriftCorrectionSettings,
+} from "./driftCorrection";
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  DetectionAlgorithm,
+  DetectionSettings,
+} from "./fixationDetection";
+import {
+  DEFAULT_FILTER_SETTINGS,
+  FilterKind,
+  FilterSettings,
+} from "./gazeFilters";
+import { DEFAULT_TRACKER_SETTINGS, TrackerSettings } from "./gp3Interface";
+import { parseTagSchema, TagDefinition } from "./tagSchema";
+import { getCalibratedWorkbenchRegions } from "./trackingState";
+import {
+  CaptureThresholds,
+  computeLineHeight,
+  EditorMetrics,
+} from "./windowCalibration";
+import { WorkbenchRegion, WorkbenchRegionKind } from "./workbenchLayout";
+
+/**
+ * Reads the tracker endpoint and retry policy from the `gp3attention.tracker` settings,
+ * falling back to the defaults for anything that is not set.
+ */
+export function readTrackerSettings(): TrackerSettings {
+  const config = vscode.workspace.getConfiguration("gp3attention.tracker");
+  const defaults = DEFAULT_TRACKER_SETTINGS;
+
+  return {
+    host: config.get<string>("host", defaults.host),
+    port: config.get<number>("port", defaults.port),
+    connectTimeoutMs: config.get<number>(
+      "connectTimeoutMs",
+      defaults.connectTimeoutMs
+    ),
+    reconnect: {
+      maxAttempts: config.get<number>(
+        "reconnect.maxAttempts",
+        defaults.reconnect.maxAttempts
+      ),
+      initialDelayMs: config.get<number>(
+        "reconnect.initialDelayMs",
+        defaults.reconnect.initialDelayMs
+      ),
+      maxDelayMs: config.get<number>(
+        "reconnect.maxDelayMs",
+        defaults.reconnect.maxDelayMs
+      ),
+    },
+  };
+}
+
+/**
+ * Reads the limits a calibration must meet from the `gp3attention.calibration` settings.
+ */
+export function readCalibrationThresholds(): CalibrationThresholds {
+  const config = vscode.workspace.getConfiguration("gp3attention.calibration");
+  return {
+    maxAverageError: config.get<number>("maxAverageError", 0.05),
+    maxPointError: config.get<number>("maxPointError", 0.08),
+    minValidRatio: config.get<number>("minValidRatio", 0.8),
+  };
+}
+
+/**
+ * How long a calibration run may take before it is abandoned, in milliseconds.
+ */
+export function readCalibrationTimeoutMs(): number {
+  const config = vscode.workspace.getConfiguration("gp3attention.calibration");
+  return config.get<number>("timeoutSeconds", 60) * 1000;
+}
+
+/**
+ * Reads the limits an anchor fixation must meet from the `gp3attention.windowCalibration`
+ * settings.
+ */
+export function readCaptureThresholds(): CaptureThresholds {
+  const config = vscode.workspace.getConfiguration(
+    "gp3attention.windowCalibration"
+  );
+  return {
+    maxDispersion: config.get<number>("maxDispersion", 0.03),
+    minFixationRatio: config.get<number>("minFixationRatio", 0.5),
+  };
+}
+
+/**
+ * How long the participant looks at each window calibration anchor, in milliseconds.
+ */
+export function readCaptureDurationMs(): number {
+  const config = vscode.workspace.getConfiguration(
+    "gp3attention.windowCalibration"
+  );
+  return config.get<number>("durationSeconds", 5) * 1000;
+}
+
+/**
+ * Reads the editor settings that determine the size of the text on screen.
+ */
+export function readEditorMetrics(): EditorMetrics {
+  const editor = vscode.workspace.getConfiguration("editor");
+  const fontSize = editor.get<number>("fontSize") || 14;
+  const lineHeight = computeLineHeight(
+    fontSize,
+    editor.get<number>("lineHeight", 0),
+    process.platform === "darwin"
+  );
+
+  return {
+    fontSize,
+    lineHeight,
+    zoomLevel: vscode.workspace
+      .getConfiguration("window")
+      .get<number>("zoomLevel", 0),
+    characterWidthRatio: vscode.workspace
+      .getConfiguration("gp3attention.mapping")
+      .get<number>("characterWidthRatio", 0.6),
+  };
+}
+
+/**
+ * Reads the fixation detection parameters from the `gp3attention.fixations` settings.
+ */
+export function readDetectionSettings(): DetectionSettings {
+  const config = vscode.workspace.getConfiguration("gp3attention.fixations");
+  const defaults = DEFAULT_DETECTION_SETTINGS;
+
+  return {
+    algorithm: config.get<DetectionAlgorithm>("algorithm", defaults.algorithm),
+    minFixationDurationMs: config.get<number>(
+      "minDurationMs",
+      defaults.minFixationDurationMs
+    ),
+    maxDispersion: config.get<number>("maxDispersion", defaults.maxDispersion),
+    velocityThreshold: config.get<number>(
+      "velocityThreshold",
+      defaults.velocityThreshold
+    ),
+    minBlinkDurationMs: config.get<number>(
+      "minBlinkDurationMs",
+      defaults.minBlinkDurationMs
+    ),
+    maxBlinkDurationMs: config.get<number>(
+      "maxBlinkDurationMs",
+      defaults.maxBlinkDurationMs
+    ),
+  };
+}
+
+/**
+ * Reads the smoothing applied to live gaze from the `gp3attention.filters` settings.
+ */
+export function readFilterSettings(): FilterSettings {
+  const config = vscode.workspace.getConfiguration("gp3attention.filters");
+  const defaults = DEFAULT_FILTER_SETTINGS;
+
+  return {
+    chain: config.get<FilterKind[]>("chain", defaults.chain),
+    windowSize: config.get<number>("windowSize", defaults.windowSize),
+    oneEuro: {
+      minCutoff: config.get<number>(
+        "oneEuro.minCutoff",
+        defaults.oneEuro.minCutoff
+      ),
+      beta: config.get<number>("oneEuro.beta", defaults.oneEuro.beta),
+      derivativeCutoff: config.get<number>(
+        "oneEuro.derivativeCutoff",
+        defaults.oneEuro.derivativeCutoff
+      ),
+    },
+    kalman: {
+      processNoise: config.get<number>(
+        "kalman.processNoise",
+        defaults.kalman.processNoise
+      ),
+      measurementNoise: config.get<number>(
+        "kalman.measurementNoise",
+        defaults.kalman.measurementNoise
+      ),
+    },
+    downsampleHz: config.get<number>("downsampleHz", defaults.downsampleHz),
+  };
+}
+
+/**
+ * Reads the drift correction parameters from the `gp3attention.drift` settings.
+ *
+ * @returns The parameters, or `null` if drift correction is off.
+ */
+export function readDriftCorrectionSettings(): DriftCorrectionSettings | null {
+  const config = vscode.workspace.getConfiguration("gp3attention.drift");
+  const defaults = DEFAULT_DRIFT_CORRECTION_SETTINGS;
+  if (!config.get<boolean>("enabled", false)) {
+    return null;
+  }
+
+  return {
+    implicitWeight: config.get<number>(
+      "implicitWeight",
+      defaults.implicitWeight
+    ),
+    explicitWeight: config.get<number>(
+      "explicitWeight",
+      defaults.explicitWeight
+    ),
+    maxAnchorError: config.get<number>(
+      "maxAnchorError",
+      defaults.maxAnchorError
+    ),
+    maxOffset: config.get<number>("maxOffset", defaults.maxOffset),
+  };
+}
+
+/**
+ * How long after a click or keystroke the gaze is taken as an implicit drift anchor.
+ *
+ * @returns The delay in milliseconds, or `undefined` if implicit anchors are off.
+ */
+export function readImplicitAnchorDelayMs(): number | undefined {
+  const config = vscode.workspace.getConfiguration("gp3attention.drift");
+  return config.get<boolean>("implicitAnchors", true)
+    ? config.get<number>("anchorDelayMs", 150)
+    : undefined;
+}
+
+/**
+ * How many columns away from a fixation on whitespace the nearest token may be.
+ */
+export function readTokenRadius(): number {
+  return vscode.workspace
+    .getConfiguration("gp3attention.attribution")
+    .get<number>("tokenRadius", 3);
+}
+
+/**
+ * Reads how the attention heatmap is painted from the `gp3attention.heatmap` settings.
+ */
+export function readHeatmapSettings(): {
+  granularity: HeatmapGranularity;
+  windowMs: number;
+} {
+  const config = vscode.workspace.getConfiguration("gp3attention.heatmap");
+  return {
+    granularity: config.get<HeatmapGranularity>("granularity", "line"),
+    windowMs: config.get<number>("windowSeconds", 30) * 1000,
+  };
+}
+
+/**
+ * How many fixations a session replay shows at once, the current one included.
+ */
+export function readReplayTrailLength(): number {
+  return vscode.workspace
+    .getConfiguration("gp3attention.replay")
+    .get<number>("trailLength", 5);
+}
+
+/**
+ * The regions of the workbench: the ones measured for the running tracking session, or else
+ * the ones configured in `gp3attention.workbench.regions`.
+ */
+export function readWorkbenchRegions(): WorkbenchRegion[] {
+  const calibrated = getCalibratedWorkbenchRegions();
+  if (calibrated) {
+    return calibrated;
+  }
+
+  const configured = vscode.workspace
+    .getConfiguration("gp3attention.workbench")
+    .get<
+      {
+        kind: WorkbenchRegionKind;
+        viewColumn?: number;
+        left: number;
+        top: number;
+        right: number;
+        bottom: number;
+      }[]
+    >("regions", []);
+  return configured.map(({ kind, viewColumn, left, top, right, bottom }) => ({
+    kind,
+    viewColumn,
+    rect: { left, top, right, bottom },
+  }));
+}
+
+/**
+ * The tags of the study: the ones in the JSON file `gp3attention.tags.schemaFile` points to,
+ * relative to the workspace folder, or else the ones in `gp3attention.tags.schema`.
+ *
+ * @throws TagSchemaError if the schema is not well formed, or the error reading the file.
+ */
+export function readTagSchema(): TagDefinition[] {
+  const config = vscode.workspace.getConfiguration("gp3attention.tags");
+  const schemaFile = config.get<string>("schemaFile", "");
+  if (!schemaFile) {
+    return parseTagSchema(config.get<unknown[]>("schema", []));
+  }
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const filePath = workspaceFolder
+    ? path.resolve(workspaceFolder, schemaFile)
+    : schemaFile;
+  return parseTagSchema(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+}
+
+/**
+ * Which IDE activity is tagged automatically, from the `gp3attention.autoTags` settings. All
+ * sources are off unless enabled.
+ */
+export function readAutoTagSources(): AutoTagSources {
+  const config = vscode.workspace.getConfiguration("gp3attention.autoTags");
+  return {
+    debug: config.get<boolean>("debug", false),
+    tasks: config.get<boolean>("tasks", false),
+    tests: config.get<boolean>("tests", false),
+    terminal: config.get<boolean>("terminal", false),
+    activeFile: config.get<boolean>("activeFile", false),
+    save: config.get<boolean>("save", false),
+    windowFocus: config.get<boolean>("windowFocus", false),
+    navigation: config.get<boolean>("navigation", false),
+  };
+}
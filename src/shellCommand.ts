@@ -0,0 +1,21 @@
+// A word of a command line, its quoted parts may hold spaces
+const WORD = /(?:"[^"]*"?|'[^']*'?|[^\s"']+)+/g;
+
+// `NAME=value` before the command sets a variable for it
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/**
+ * The name of the program a shell command line runs, without its directory, arguments or the
+ * variables set for it. Arguments and variables are left out because they may hold secrets.
+ *
+ * @param commandLine - The command line as typed.
+ * @returns The name, e.g. `npm` for `NODE_ENV=test ./node_modules/.bin/npm test`, or
+ *          `undefined` for a line without a command.
+ */
+export function commandName(commandLine: string): string | undefined {
+  const word = (commandLine.match(WORD) ?? []).find(
+    (candidate) => !ASSIGNMENT.test(candidate)
+  );
+  const name = word?.replace(/["']/g, "").split(/[\\/]/).pop();
+  return name || undefined;
+}
@@ -0,0 +1,163 @@
+/**
+ * Resolves fixations to the token and the symbols (class, method, block...) they landed on, and
+ * adds up how long each symbol was looked at.
+ */
+
+import { TextPosition } from "./documentHistory";
+
+/**
+ * A symbol of a document, as reported by `vscode.executeDocumentSymbolProvider`.
+ */
+export interface SymbolScope {
+  name: string;
+  kind: number; // vscode.SymbolKind
+  start: TextPosition;
+  end: TextPosition;
+  children: SymbolScope[];
+}
+
+/**
+ * A token of a line: an identifier, a number or a run of punctuation.
+ */
+export interface Token {
+  start: number; // First character
+  end: number; // Exclusive
+  text: string;
+  distance: number; // Columns between the fixation and the token, 0 when on the token
+}
+
+/**
+ * Time spent looking at a symbol.
+ */
+export interface SymbolDwell {
+  uri: string;
+  path: string[]; // Names from the outermost symbol in, empty for the whole file
+  selfMs: number; // Spent in the symbol itself, not in its children. For the file, outside any symbol
+  totalMs: number; // Spent in the symbol and its children
+  fixations: number; // Fixations in the symbol and its children
+}
+
+const TOKEN_PATTERN = /[A-Za-z_$][\w$]*|\d+(?:\.\d+)?|[^\s\w$]+/g;
+
+/**
+ * Finds the token at a character of a line. Fixations between tokens go to the nearest token
+ * within `radius` columns, to the left one if two are equally close.
+ *
+ * @param lineText - The text of the line.
+ * @param character - The character the fixation landed on.
+ * @param radius - How many columns away the nearest token may be.
+ * @returns The token, or `undefined` if none is close enough.
+ */
+export function tokenAt(
+  lineText: string,
+  character: number,
+  radius: number
+): Token | undefined {
+  let nearest: Token | undefined;
+  for (const match of lineText.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const distance =
+      character < start
+        ? start - character
+        : character >= end
+          ? character - end + 1
+          : 0;
+    if (distance <= radius && (!nearest || distance < nearest.distance)) {
+      nearest = { start, end, text: match[0], distance };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * The symbols enclosing a position, outermost first.
+ *
+ * @param symbols - The symbols of the document.
+ * @param position - The position.
+ */
+export function symbolPath(
+  symbols: SymbolScope[],
+  position: TextPosition
+): SymbolScope[] {
+  const path: SymbolScope[] = [];
+  let candidates = symbols;
+  while (true) {
+    const enclosing = candidates.find((symbol) => contains(symbol, position));
+    if (!enclosing) {
+      return path;
+    }
+    path.push(enclosing);
+    candidates = enclosing.children;
+  }
+}
+
+/**
+ * Formats a symbol path the way reports show it, e.g. `TagManager.finalize`.
+ *
+ * @param path - Names from the outermost symbol in.
+ */
+export function formatSymbolPath(path: string[]): string {
+  return path.length > 0 ? path.join(".") : "(top level)";
+}
+
+/**
+ * Adds up the dwell time per symbol over a session.
+ */
+export class AttentionLedger {
+  private entries: Map<string, SymbolDwell> = new Map(); // Keyed by URI and path
+
+  /**
+   * Credits a fixation to a symbol and the symbols enclosing it.
+   *
+   * @param uri - The document.
+   * @param path - Names of the symbols from the outermost one in.
+   * @param durationMs - How long the fixation lasted.
+   */
+  public record(uri: string, path: string[], durationMs: number): void {
+    for (let depth = 0; depth <= path.length; depth++) {
+      const entry = this.entry(uri, path.slice(0, depth));
+      entry.totalMs += durationMs;
+      entry.fixations++;
+      if (depth === path.length) {
+        entry.selfMs += durationMs;
+      }
+    }
+  }
+
+  /**
+   * The dwell time of every symbol looked at, longest first.
+   */
+  public getEntries(): SymbolDwell[] {
+    return [...this.entries.values()].sort((a, b) => b.totalMs - a.totalMs);
+  }
+
+  /**
+   * Forgets everything recorded so far.
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  private entry(uri: string, path: string[]): SymbolDwell {
+    const key = [uri, ...path].join("\u0000");
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { uri, path, selfMs: 0, totalMs: 0, fixations: 0 };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+function contains(symbol: SymbolScope, position: TextPosition): boolean {
+  const afterStart =
+    position.line > symbol.start.line ||
+    (position.line === symbol.start.line &&
+      position.character >= symbol.start.character);
+  const beforeEnd =
+    position.line < symbol.end.line ||
+    (position.line === symbol.end.line &&
+      position.character <= symbol.end.character);
+  return afterStart && beforeEnd;
+}
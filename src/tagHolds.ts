@@ -0,0 +1,91 @@
+/** Where the tags go, e.g. `TagManager`. */
+export interface TagSink {
+  addTag(tag: string, visible: boolean): void;
+}
+
+// The same instant again within this long is left out, hovers are requested on every move
+const INSTANT_DEBOUNCE_MS = 1000;
+
+/**
+ * Shows tags while something holds them, and marks moments. Several holders may hold the same
+ * tag, e.g. two runs of the same task, and the tag is shown until the last one lets go.
+ */
+export class TagHolds {
+  private sink: TagSink;
+  private now: () => number; // Milliseconds
+  private held: Map<unknown, string> = new Map(); // Interval tags by what holds them
+  private shown: Map<string, number> = new Map(); // How many holders each interval tag has
+  private lastInstant: { tag: string; time: number } | undefined;
+
+  /**
+   * @param sink - Where the tags go.
+   * @param now - The clock the instants are debounced with.
+   */
+  constructor(sink: TagSink, now: () => number = Date.now) {
+    this.sink = sink;
+    this.now = now;
+  }
+
+  /**
+   * Shows a tag for as long as the holder has it. A holder has one tag at a time, holding
+   * another lets go of the first.
+   *
+   * @param holder - Anything that identifies the holder, compared by identity.
+   * @param tag - The tag to show.
+   */
+  public hold(holder: unknown, tag: string): void {
+    if (this.held.get(holder) === tag) {
+      return;
+    }
+    this.release(holder);
+    this.held.set(holder, tag);
+    const count = this.shown.get(tag) ?? 0;
+    this.shown.set(tag, count + 1);
+    if (count === 0) {
+      this.sink.addTag(tag, true);
+    }
+  }
+
+  /**
+   * Lets go of the tag of a holder, and hides it if no one else holds it.
+   */
+  public release(holder: unknown): void {
+    const tag = this.held.get(holder);
+    if (tag === undefined) {
+      return;
+    }
+    this.held.delete(holder);
+    const count = this.shown.get(tag) ?? 0;
+    if (count > 1) {
+      this.shown.set(tag, count - 1);
+    } else {
+      this.shown.delete(tag);
+      this.sink.addTag(tag, false);
+    }
+  }
+
+  /**
+   * Lets go of every tag, hiding those still shown.
+   */
+  public releaseAll(): void {
+    for (const holder of [...this.held.keys()]) {
+      this.release(holder);
+    }
+  }
+
+  /**
+   * Shows and hides a tag at once, unless it was just marked.
+   */
+  public mark(tag: string): void {
+    const now = this.now();
+    if (
+      this.lastInstant?.tag === tag &&
+      now - this.lastInstant.time < INSTANT_DEBOUNCE_MS
+    ) {
+      return;
+    }
+    this.lastInstant = { tag, time: now };
+    this.sink.addTag(tag, true);
+    this.sink.addTag(tag, false);
+  }
+}
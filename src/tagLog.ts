@@ -0,0 +1,269 @@
+/**
+ * Reads and writes the tag CSV of `TagManager`, for tools that work on a recorded session.
+ * Tags mark segments of a session: a tag starts a segment when it is shown (`True`) and ends it
+ * when it is hidden (`False`).
+ */
+
+/** The version of the tag CSV `formatTagRow` writes. */
+export const TAG_LOG_VERSION = 2;
+
+const VERSION_PREFIX = "# gp3attention tag log v";
+
+/** The first lines of a tag CSV, newline included. */
+export const TAG_LOG_HEADER = `${VERSION_PREFIX}${TAG_LOG_VERSION}\ntag,time,elapsed_ms,visible\n`;
+
+/** One row of the tag CSV. */
+export interface TagRecord {
+  tag: string;
+  time: number; // Milliseconds since the epoch, to the second before version 2
+  elapsedMs?: number; // Monotonic milliseconds since the first `start` row, from version 2
+  visible: boolean;
+}
+
+/** The stretch of a session a tag was shown for. */
+export interface TagSegment {
+  tag: string;
+  start: number; // Milliseconds since the epoch
+  end: number;
+  depth: number; // Tags still shown when it was: 0 for `start`, 1 for a tag of the session
+  parent: string | null; // The latest of those
+}
+
+/**
+ * Thrown for a tag CSV this version cannot read.
+ */
+export class TagLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TagLogError";
+  }
+}
+
+/**
+ * The start of a session, from the timestamp that names its files.
+ *
+ * @param sessionId - E.g. `2025-05-01T12-30-00_000Z`.
+ * @returns Milliseconds since the epoch, or `NaN` if the ID is not a timestamp.
+ */
+export function sessionStartOf(sessionId: string): number {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})_(\d{3})Z$/.exec(
+    sessionId
+  );
+  return match
+    ? Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`)
+    : NaN;
+}
+
+/**
+ * The format version of a tag CSV. Version 1 logs have no version line.
+ *
+ * @param text - The content of the CSV.
+ */
+export function tagLogVersion(text: string): number {
+  if (!text.startsWith(VERSION_PREFIX)) {
+    return 1;
+  }
+  const firstLine = text.slice(VERSION_PREFIX.length).split(/\r?\n/)[0];
+  return /^\d+$/.test(firstLine) ? Number(firstLine) : NaN;
+}
+
+/**
+ * Parses a tag CSV of any version. Rows cut off by a crash are left out.
+ *
+ * @param text - The content of the CSV, header included.
+ * @param sessionStart - When the session started. Before version 2 the `start` rows only
+ *                       record the year: the first one gets this time, the closing one is left
+ *                       out so the segment ends with the session.
+ * @returns The rows with a valid time, in file order.
+ * @throws TagLogError if the CSV is from a newer version.
+ */
+export function parseTagCsv(text: string, sessionStart: number): TagRecord[] {
+  const version = tagLogVersion(text);
+  if (version === 1) {
+    return parseTagCsvV1(text, sessionStart);
+  }
+  if (!(version <= TAG_LOG_VERSION)) {
+    throw new TagLogError(
+      `Tag log version ${version} is not supported, update the extension`
+    );
+  }
+
+  const records: TagRecord[] = [];
+  // Past the version line and the header
+  for (const fields of parseCsvRows(text).slice(2)) {
+    if (fields.length !== 4) {
+      continue;
+    }
+    const [tag, timestamp, elapsed, visible] = fields;
+    if (
+      !ISO_TIME.test(timestamp) ||
+      (visible !== "True" && visible !== "False")
+    ) {
+      continue;
+    }
+    const elapsedMs = elapsed === "" ? NaN : Number(elapsed);
+    records.push({
+      tag,
+      time: Date.parse(timestamp),
+      ...(Number.isFinite(elapsedMs) ? { elapsedMs } : {}),
+      visible: visible === "True",
+    });
+  }
+  return records;
+}
+
+// What `Date.toISOString` returns
+const ISO_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * Pairs the rows of each tag into segments. Tags still shown at the end of the log end with
+ * the session. Tags shown while others are nest in the latest of them, even if they are
+ * hidden after it.
+ *
+ * @param records - The rows, in file order.
+ * @param sessionEnd - When the session ended.
+ */
+export function tagSegments(
+  records: TagRecord[],
+  sessionEnd: number
+): TagSegment[] {
+  const segments: TagSegment[] = [];
+  // Segments still open by tag, in the order they were shown
+  const open: Map<string, Omit<TagSegment, "end">> = new Map();
+  for (const { tag, time, visible } of records) {
+    if (visible) {
+      if (!open.has(tag)) {
+        const shown = [...open.keys()];
+        open.set(tag, {
+          tag,
+          start: time,
+          depth: shown.length,
+          parent: shown[shown.length - 1] ?? null,
+        });
+      }
+    } else {
+      const segment = open.get(tag);
+      if (segment) {
+        segments.push({ ...segment, end: time });
+        open.delete(tag);
+      }
+    }
+  }
+  for (const segment of open.values()) {
+    segments.push({ ...segment, end: Math.max(segment.start, sessionEnd) });
+  }
+  return segments.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The tags still shown at the end of the rows, other than `start`, in the order they were
+ * shown.
+ *
+ * @param records - The rows, in file order.
+ */
+export function openTags(records: TagRecord[]): string[] {
+  const open: Set<string> = new Set();
+  for (const { tag, visible } of records) {
+    if (visible) {
+      open.add(tag);
+    } else {
+      open.delete(tag);
+    }
+  }
+  open.delete("start");
+  return [...open];
+}
+
+/**
+ * Formats a row of the tag CSV, newline included.
+ *
+ * @param record - The row. Its elapsed time is left empty if unknown.
+ * @param version - The version of the CSV it goes into. Version 1 rows have the time in UTC to
+ *                  the second without the zone, only the year for `start`, and no elapsed
+ *                  time or quoting.
+ */
+export function formatTagRow(
+  record: TagRecord,
+  version: number = TAG_LOG_VERSION
+): string {
+  const { tag, time, elapsedMs, visible } = record;
+  const shown = visible ? "True" : "False";
+  if (version === 1) {
+    const timestamp =
+      tag === "start"
+        ? new Date(time).getFullYear().toString()
+        : new Date(time).toISOString().slice(0, 19);
+    return `${tag},${timestamp},${shown}\n`;
+  }
+  const elapsed =
+    elapsedMs === undefined ? "" : String(Math.round(elapsedMs * 1000) / 1000);
+  return `${quoteCsv(tag)},${new Date(time).toISOString()},${elapsed},${shown}\n`;
+}
+
+function parseTagCsvV1(text: string, sessionStart: number): TagRecord[] {
+  const records: TagRecord[] = [];
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    if (!line.trim()) {
+      continue;
+    }
+    const fields = line.split(",");
+    const visible = fields.pop()?.trim() === "True";
+    const timestamp = fields.pop() ?? "";
+    const tag = fields.join(","); // Tags were not quoted
+    // Timestamps are UTC without the zone
+    const time = /^\d{4}$/.test(timestamp)
+      ? visible
+        ? sessionStart
+        : NaN
+      : Date.parse(`${timestamp}Z`);
+    if (Number.isFinite(time)) {
+      records.push({ tag, time, visible });
+    }
+  }
+  return records;
+}
+
+function quoteCsv(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+// RFC 4180 rows. A row cut off inside quotes is dropped.
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (!quoted && (field !== "" || row.length > 0)) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,186 @@
+/**
+ * The tags of a study, defined up front so they can be picked from a palette or bound to keys
+ * instead of typed during a session. The schema comes from the `gp3attention.tags.schema`
+ * setting or a workspace file, see `readTagSchema`.
+ */
+
+/** An instant marks a moment, an interval lasts until it is hidden. */
+export type TagKind = "instant" | "interval";
+
+/** A tag of the schema. */
+export interface TagDefinition {
+  name: string;
+  kind: TagKind;
+  color?: string; // Hex, e.g. `#e5c07b`, for the session dashboard
+  group?: string; // Showing the tag hides the other tags of the group
+  autoOffSeconds?: number; // Intervals hide themselves after this long
+}
+
+/** A row for the tag log, see `planToggle`. */
+export interface TagChange {
+  tag: string;
+  visible: boolean;
+  autoOffSeconds?: number; // Hide it again after this long
+}
+
+/** An entry of `keybindings.json`. */
+export interface TagKeybinding {
+  key: string;
+  command: string;
+  args: { tag: string };
+}
+
+/**
+ * Thrown for a schema that is not well formed.
+ */
+export class TagSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TagSchemaError";
+  }
+}
+
+const HEX_COLOR = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+/**
+ * Checks a schema as it comes out of the settings or a JSON file.
+ *
+ * @param value - A list of tags, or an object with the list in `tags`. A tag is its name, for an
+ *                interval without anything else, or a `TagDefinition`.
+ * @returns The tags, in order.
+ * @throws TagSchemaError if the schema is not well formed.
+ */
+export function parseTagSchema(value: unknown): TagDefinition[] {
+  const entries =
+    value && typeof value === "object" && !Array.isArray(value)
+      ? (value as { tags?: unknown }).tags
+      : value;
+  if (!Array.isArray(entries)) {
+    throw new TagSchemaError("The schema must be a list of tags");
+  }
+
+  const tags: TagDefinition[] = [];
+  entries.forEach((entry: unknown, index) => {
+    const fields: Record<string, unknown> =
+      typeof entry === "string"
+        ? { name: entry }
+        : entry && typeof entry === "object"
+          ? (entry as Record<string, unknown>)
+          : {};
+    const { name, kind = "interval", color, group, autoOffSeconds } = fields;
+    const fail = (problem: string) => {
+      throw new TagSchemaError(`Tag ${index + 1}: ${problem}`);
+    };
+
+    if (typeof name !== "string" || !name.trim()) {
+      fail("needs a name");
+    }
+    const tag = (name as string).trim();
+    if (tag === "start") {
+      fail("`start` marks the session and cannot be defined");
+    }
+    if (tags.some((other) => other.name === tag)) {
+      fail(`\`${tag}\` is defined twice`);
+    }
+    if (kind !== "instant" && kind !== "interval") {
+      fail("the kind must be `instant` or `interval`");
+    }
+    if (
+      color !== undefined &&
+      !(typeof color === "string" && HEX_COLOR.test(color))
+    ) {
+      fail("the color must be a hex color like `#e5c07b`");
+    }
+    if (group !== undefined && (typeof group !== "string" || !group)) {
+      fail("the group must be a name");
+    }
+    if (
+      autoOffSeconds !== undefined &&
+      !(typeof autoOffSeconds === "number" && autoOffSeconds > 0)
+    ) {
+      fail("the auto-off delay must be a positive number of seconds");
+    }
+    if (autoOffSeconds !== undefined && kind === "instant") {
+      fail("instants have no auto-off delay");
+    }
+
+    tags.push({
+      name: tag,
+      kind: kind as TagKind,
+      ...(color !== undefined ? { color: color as string } : {}),
+      ...(group !== undefined ? { group: group as string } : {}),
+      ...(autoOffSeconds !== undefined
+        ? { autoOffSeconds: autoOffSeconds as number }
+        : {}),
+    });
+  });
+  return tags;
+}
+
+/**
+ * The rows to write for toggling a tag. Showing a tag first hides the other tags of its group,
+ * an instant is shown and hidden at once, hiding one does nothing. Tags not in the schema are
+ * intervals of their own.
+ *
+ * @param schema - The tags of the study.
+ * @param visibleTags - The tags shown right now.
+ * @param tag - The tag to toggle.
+ * @param visible - Show or hide the tag instead of toggling it.
+ * @returns The rows in the order to write them, none if the tag already is as asked.
+ */
+export function planToggle(
+  schema: TagDefinition[],
+  visibleTags: string[],
+  tag: string,
+  visible?: boolean
+): TagChange[] {
+  const definition = schema.find((other) => other.name === tag);
+  const shown = visibleTags.includes(tag);
+  const show =
+    definition?.kind === "instant" ? visible !== false : (visible ?? !shown);
+  if (!show) {
+    return shown ? [{ tag, visible: false }] : [];
+  }
+  if (shown && definition?.kind !== "instant") {
+    return [];
+  }
+
+  const changes: TagChange[] = [];
+  if (definition?.group !== undefined) {
+    for (const other of schema) {
+      if (
+        other.name !== tag &&
+        other.group === definition.group &&
+        visibleTags.includes(other.name)
+      ) {
+        changes.push({ tag: other.name, visible: false });
+      }
+    }
+  }
+  if (definition?.kind === "instant") {
+    changes.push({ tag, visible: true }, { tag, visible: false });
+  } else {
+    changes.push({
+      tag,
+      visible: true,
+      ...(definition?.autoOffSeconds !== undefined
+        ? { autoOffSeconds: definition.autoOffSeconds }
+        : {}),
+    });
+  }
+  return changes;
+}
+
+/**
+ * Keybindings that toggle the tags of a schema. The first ten get `ctrl+alt+1` to `ctrl+alt+0`,
+ * the rest an empty key to fill in.
+ *
+ * @param schema - The tags of the study.
+ */
+export function tagKeybindings(schema: TagDefinition[]): TagKeybinding[] {
+  return schema.map((definition, index) => ({
+    key: index < 10 ? `ctrl+alt+${(index + 1) % 10}` : "",
+    command: "gp3attention.toggleTag",
+    args: { tag: definition.name },
+  }));
+}
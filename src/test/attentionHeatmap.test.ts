@@ -0,0 +1,73 @@
+import * as assert from "assert";
+
+import { AttentionHeatmap } from "../attentionHeatmap";
+
+const URI = "file:///workspace/src/extension.ts";
+
+suite("Attention Heatmap Test Suite", () => {
+  test("Fades dwell time over the window", () => {
+    const heatmap = new AttentionHeatmap("line", 10000);
+    heatmap.record(URI, 4, undefined, 300, 0);
+    heatmap.record(URI, 4, undefined, 200, 5000);
+    heatmap.record(URI, 7, undefined, 400, 5000);
+
+    const spots = heatmap.spots(URI, 5000);
+    const line4 = spots.find((spot) => spot.line === 4)!;
+    const line7 = spots.find((spot) => spot.line === 7)!;
+    assert.strictEqual(line4.dwellMs, 300 * 0.5 + 200);
+    assert.strictEqual(line7.intensity, 1);
+    assert.strictEqual(line4.intensity, 350 / 400);
+
+    assert.deepStrictEqual(
+      heatmap.spots(URI, 12000).map((spot) => spot.line),
+      [4, 7]
+    );
+    assert.deepStrictEqual(heatmap.spots(URI, 15000), []);
+  });
+
+  test("Keeps tokens apart and leaves out fixations off any token", () => {
+    const heatmap = new AttentionHeatmap("token", 10000);
+    heatmap.record(URI, 2, { start: 0, end: 5 }, 100, 0);
+    heatmap.record(URI, 2, { start: 8, end: 12 }, 100, 0);
+    heatmap.record(URI, 2, undefined, 100, 0);
+
+    assert.deepStrictEqual(
+      heatmap.spots(URI, 0).map((spot) => spot.token),
+      [
+        { start: 0, end: 5 },
+        { start: 8, end: 12 },
+      ]
+    );
+  });
+
+  test("Moves spots along with edits and drops deleted ones", () => {
+    const heatmap = new AttentionHeatmap("token", 10000);
+    heatmap.record(URI, 2, { start: 4, end: 9 }, 100, 0);
+    heatmap.record(URI, 5, { start: 0, end: 3 }, 100, 0);
+
+    heatmap.applyChanges(URI, [
+      // Two new lines above, then "ab" typed before the first token
+      {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 0 },
+        text: "\n\n",
+      },
+      {
+        start: { line: 4, character: 0 },
+        end: { line: 4, character: 0 },
+        text: "ab",
+      },
+      // The second token's line is deleted
+      {
+        start: { line: 7, character: 0 },
+        end: { line: 8, character: 0 },
+        text: "",
+      },
+    ]);
+
+    const spots = heatmap.spots(URI, 0);
+    assert.strictEqual(spots.length, 1);
+    assert.strictEqual(spots[0].line, 4);
+    assert.deepStrictEqual(spots[0].token, { start: 6, end: 11 });
+  });
+});
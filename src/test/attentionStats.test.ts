@@ -0,0 +1,142 @@
+import * as assert from "assert";
+
+import {
+  AttentionSample,
+  shiftSamples,
+  summarizeAttention,
+} from "../attentionStats";
+
+const MAIN = "file:///workspace/src/main.ts";
+const UTIL = "file:///workspace/src/util.ts";
+
+function sample(
+  start: number,
+  uri: string,
+  symbols: string[],
+  line: number,
+  duration = 200
+): AttentionSample {
+  return { uri, symbols, line, start, duration };
+}
+
+suite("Attention Stats Test Suite", () => {
+  test("Merges neighbouring lines of a symbol into ranges", () => {
+    const [file] = summarizeAttention(
+      [
+        sample(0, MAIN, ["Parser", "parse"], 10),
+        sample(300, MAIN, ["Parser", "parse"], 11),
+        sample(600, MAIN, ["Parser", "parse"], 14),
+      ],
+      "dwell"
+    );
+
+    assert.strictEqual(file.symbols.length, 1);
+    const ranges = file.symbols[0].ranges
+      .map(({ startLine, endLine, fixations }) => ({
+        startLine,
+        endLine,
+        fixations,
+      }))
+      .sort((a, b) => a.startLine - b.startLine);
+    assert.deepStrictEqual(ranges, [
+      { startLine: 10, endLine: 11, fixations: 2 },
+      { startLine: 14, endLine: 14, fixations: 1 },
+    ]);
+  });
+
+  test("Counts coming back after looking elsewhere as a revisit", () => {
+    const files = summarizeAttention(
+      [
+        sample(0, MAIN, ["parse"], 1),
+        sample(300, MAIN, ["parse"], 1),
+        sample(600, UTIL, ["trim"], 5),
+        sample(900, MAIN, ["parse"], 1),
+        sample(1200, MAIN, ["lex"], 20),
+        sample(1500, MAIN, ["parse"], 1),
+      ],
+      "dwell"
+    );
+
+    const main = files.find((file) => file.uri === MAIN)!;
+    assert.strictEqual(main.fixations, 5);
+    assert.strictEqual(main.revisits, 1);
+    const parse = main.symbols.find((symbol) => symbol.path[0] === "parse")!;
+    assert.strictEqual(parse.fixations, 4);
+    assert.strictEqual(parse.revisits, 2);
+    assert.strictEqual(parse.ranges[0].revisits, 2);
+  });
+
+  test("Ranks each level by the chosen statistic", () => {
+    const samples = [
+      sample(0, MAIN, ["parse"], 1, 2000),
+      sample(2000, UTIL, ["trim"], 5, 100),
+      sample(2100, UTIL, ["pad"], 9, 100),
+      sample(2200, UTIL, ["pad"], 9, 100),
+    ];
+
+    const byDwell = summarizeAttention(samples, "dwell");
+    assert.deepStrictEqual(
+      byDwell.map((file) => file.uri),
+      [MAIN, UTIL]
+    );
+
+    const byFixations = summarizeAttention(samples, "fixations");
+    assert.deepStrictEqual(
+      byFixations.map((file) => file.uri),
+      [UTIL, MAIN]
+    );
+    assert.deepStrictEqual(
+      byFixations[0].symbols.map((symbol) => symbol.path[0]),
+      ["pad", "trim"]
+    );
+    assert.strictEqual(byFixations[0].dwellMs, 300);
+  });
+
+  test("Only counts fixations within the intervals", () => {
+    const files = summarizeAttention(
+      [
+        sample(0, MAIN, [], 1),
+        sample(1000, MAIN, [], 2),
+        sample(2000, UTIL, [], 3),
+      ],
+      "dwell",
+      [{ start: 500, end: 2000 }]
+    );
+
+    assert.deepStrictEqual(
+      files.map((file) => [file.uri, file.fixations]),
+      [[MAIN, 1]]
+    );
+    assert.deepStrictEqual(files[0].symbols[0].path, []);
+  });
+
+  test("Moves the lines of a document along with an edit", () => {
+    const samples = [
+      sample(0, MAIN, [], 2),
+      sample(300, MAIN, [], 5),
+      sample(600, MAIN, [], 9),
+      sample(900, UTIL, [], 5),
+    ];
+
+    const shifted = shiftSamples(samples, MAIN, [
+      // Two lines inserted above line 2
+      {
+        start: { line: 1, character: 0 },
+        end: { line: 1, character: 0 },
+        text: "a\nb\n",
+      },
+      // Lines 6 to 8 deleted, the sample on line 7 moves to where the deletion starts
+      {
+        start: { line: 6, character: 4 },
+        end: { line: 9, character: 0 },
+        text: "",
+      },
+    ]);
+
+    assert.deepStrictEqual(
+      shifted.map((moved) => moved.line),
+      [4, 6, 8, 5]
+    );
+    assert.strictEqual(shifted[3], samples[3]);
+  });
+});
@@ -0,0 +1,117 @@
+import * as assert from "assert";
+
+import {
+  findBadPoints,
+  isCalibrationAcceptable,
+  mergeCalibrationResults,
+  parseCalibrationResult,
+} from "../calibration";
+
+const THRESHOLDS = {
+  maxAverageError: 0.05,
+  maxPointError: 0.08,
+  minValidRatio: 0.8,
+};
+
+suite("Calibration Test Suite", () => {
+  const result = parseCalibrationResult({
+    ID: "CALIB_RESULT",
+    CALX1: "0.5",
+    CALY1: "0.5",
+    LX1: "0.52",
+    LY1: "0.5",
+    LV1: "1",
+    RX1: "0.50",
+    RY1: "0.5",
+    RV1: "1",
+    CALX2: "0.1",
+    CALY2: "0.1",
+    LX2: "0.3",
+    LY2: "0.1",
+    LV2: "1",
+    RX2: "0",
+    RY2: "0",
+    RV2: "0",
+    CALX3: "0.9",
+    CALY3: "0.9",
+    LX3: "0",
+    LY3: "0",
+    LV3: "0",
+    RX3: "0",
+    RY3: "0",
+    RV3: "0",
+  });
+
+  test("Computes per-point errors from the valid eyes", () => {
+    assert.strictEqual(result.points.length, 3);
+    assert.ok(Math.abs(result.points[0].error - 0.01) < 1e-9);
+    assert.ok(Math.abs(result.points[1].error - 0.2) < 1e-9);
+    assert.strictEqual(result.points[2].valid, false);
+    assert.strictEqual(result.validPoints, 2);
+    assert.ok(Math.abs(result.averageError - 0.105) < 1e-9);
+  });
+
+  test("Rejects calibrations over the threshold and lists bad points", () => {
+    assert.strictEqual(isCalibrationAcceptable(result, THRESHOLDS), false);
+    assert.deepStrictEqual(
+      findBadPoints(result, THRESHOLDS).map((point) => point.index),
+      [2, 3]
+    );
+  });
+
+  test("Merges re-run points into the earlier result", () => {
+    const rerun = parseCalibrationResult({
+      CALX1: "0.1",
+      CALY1: "0.1",
+      LX1: "0.1",
+      LY1: "0.12",
+      LV1: "1",
+      RX1: "0.1",
+      RY1: "0.12",
+      RV1: "1",
+      CALX2: "0.9",
+      CALY2: "0.9",
+      LX2: "0.9",
+      LY2: "0.9",
+      LV2: "1",
+      RX2: "0.9",
+      RY2: "0.9",
+      RV2: "0",
+    });
+    const merged = mergeCalibrationResults(result, rerun);
+
+    assert.deepStrictEqual(
+      merged.points.map((point) => point.index),
+      [1, 2, 3]
+    );
+    assert.strictEqual(merged.validPoints, 3);
+    assert.strictEqual(isCalibrationAcceptable(merged, THRESHOLDS), true);
+    assert.deepStrictEqual(findBadPoints(merged, THRESHOLDS), []);
+  });
+
+  test("Rejects calibrations with too few valid points", () => {
+    const attributes: Record<string, string> = { ID: "CALIB_RESULT" };
+    for (let index = 1; index <= 9; index++) {
+      const valid = index === 1 ? "1" : "0";
+      Object.assign(attributes, {
+        [`CALX${index}`]: "0.5",
+        [`CALY${index}`]: "0.5",
+        [`LX${index}`]: "0.5",
+        [`LY${index}`]: "0.5",
+        [`LV${index}`]: valid,
+        [`RX${index}`]: "0.5",
+        [`RY${index}`]: "0.5",
+        [`RV${index}`]: valid,
+      });
+    }
+    const oneOfNine = parseCalibrationResult(attributes);
+
+    assert.strictEqual(oneOfNine.validPoints, 1);
+    assert.strictEqual(oneOfNine.averageError, 0);
+    assert.strictEqual(isCalibrationAcceptable(oneOfNine, THRESHOLDS), false);
+    assert.strictEqual(
+      isCalibrationAcceptable(oneOfNine, { ...THRESHOLDS, minValidRatio: 0.1 }),
+      true
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import * as assert from "assert";
+
+import { DocumentHistory } from "../documentHistory";
+
+function history(): DocumentHistory {
+  // Version 1 is the text as first seen
+  const result = new DocumentHistory(1, "alpha\nbeta\ngamma");
+  // Version 2 inserts a line above "beta"
+  result.apply(2, [
+    {
+      start: { line: 1, character: 0 },
+      end: { line: 1, character: 0 },
+      text: "inserted\n",
+    },
+  ]);
+  // Version 3 replaces "gamma" with "delta"
+  result.apply(3, [
+    {
+      start: { line: 3, character: 0 },
+      end: { line: 3, character: 5 },
+      text: "delta",
+    },
+  ]);
+  return result;
+}
+
+suite("Document History Test Suite", () => {
+  test("Rebuilds the text of every version", () => {
+    const document = history();
+
+    assert.strictEqual(document.textAt(1), "alpha\nbeta\ngamma");
+    assert.strictEqual(document.textAt(2), "alpha\ninserted\nbeta\ngamma");
+    assert.strictEqual(document.textAt(3), "alpha\ninserted\nbeta\ndelta");
+    assert.strictEqual(document.textAt(4), undefined);
+  });
+
+  test("Translates positions forward and back", () => {
+    const document = history();
+
+    assert.deepStrictEqual(
+      document.translatePosition({ line: 1, character: 2 }, 1),
+      { line: 2, character: 2 }
+    );
+    assert.deepStrictEqual(
+      document.translatePosition({ line: 2, character: 2 }, 3, 1),
+      { line: 1, character: 2 }
+    );
+    assert.deepStrictEqual(
+      document.translatePosition({ line: 0, character: 3 }, 1, 3),
+      { line: 0, character: 3 }
+    );
+  });
+
+  test("Loses positions in replaced text", () => {
+    const document = history();
+
+    assert.strictEqual(
+      document.translatePosition({ line: 2, character: 1 }, 1, 3),
+      undefined
+    );
+    assert.strictEqual(
+      document.translatePosition({ line: 1, character: 3 }, 3, 1),
+      undefined
+    );
+  });
+
+  test("Shifts the rest of a line after an edit in it", () => {
+    const document = new DocumentHistory(1, "let x = 1;");
+    document.apply(2, [
+      {
+        start: { line: 0, character: 4 },
+        end: { line: 0, character: 5 },
+        text: "total",
+      },
+    ]);
+
+    assert.deepStrictEqual(
+      document.translatePosition({ line: 0, character: 8 }, 1),
+      { line: 0, character: 12 }
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import * as assert from "assert";
+
+import {
+  DEFAULT_DRIFT_CORRECTION_SETTINGS,
+  DriftAnchor,
+  DriftCorrector,
+} from "../driftCorrection";
+
+function anchor(
+  source: DriftAnchor["source"],
+  observedX: number,
+  expectedX = 0.5
+): DriftAnchor {
+  return {
+    source,
+    expected: { x: expectedX, y: 0.5 },
+    observed: { x: observedX, y: 0.5 },
+    time: 0,
+  };
+}
+
+suite("Drift Correction Test Suite", () => {
+  test("Moves the offset towards implicit anchors by their weight", () => {
+    const corrector = new DriftCorrector({
+      ...DEFAULT_DRIFT_CORRECTION_SETTINGS,
+      implicitWeight: 0.5,
+    });
+
+    assert.ok(corrector.addAnchor(anchor("implicit", 0.46)).accepted);
+    assert.ok(Math.abs(corrector.getOffset().x - 0.02) < 1e-9);
+    assert.ok(corrector.addAnchor(anchor("implicit", 0.46)).accepted);
+    assert.ok(Math.abs(corrector.getOffset().x - 0.03) < 1e-9);
+    assert.ok(Math.abs(corrector.correct({ x: 0.2, y: 0.2 }).x - 0.23) < 1e-9);
+  });
+
+  test("Ignores implicit anchors that were not looked at", () => {
+    const corrector = new DriftCorrector();
+
+    const update = corrector.addAnchor(anchor("implicit", 0.1));
+
+    assert.strictEqual(update.accepted, false);
+    assert.ok(update.reason);
+    assert.deepStrictEqual(corrector.getOffset(), { x: 0, y: 0 });
+  });
+
+  test("Trusts explicit anchors and clamps the offset", () => {
+    const corrector = new DriftCorrector();
+
+    assert.ok(corrector.addAnchor(anchor("explicit", 0.46)).accepted);
+    assert.ok(Math.abs(corrector.getOffset().x - 0.04) < 1e-9);
+    const update = corrector.addAnchor(anchor("explicit", 0.2));
+    assert.ok(update.accepted);
+    assert.ok(Math.abs(update.offset.x - 0.1) < 1e-9);
+
+    corrector.reset();
+    assert.deepStrictEqual(corrector.getOffset(), { x: 0, y: 0 });
+  });
+});
@@ -0,0 +1,114 @@
+import * as assert from "assert";
+
+import {
+  activeEditorEvent,
+  describeEditor,
+  editEvent,
+  EditorLike,
+  layoutEvent,
+  selectionEvent,
+  toRange,
+} from "../editorEvents";
+
+const URI = "file:///workspace/src/main.ts";
+
+function range(
+  startLine: number,
+  startCharacter: number,
+  endLine: number,
+  endCharacter: number
+) {
+  return {
+    start: { line: startLine, character: startCharacter },
+    end: { line: endLine, character: endCharacter },
+  };
+}
+
+const EDITOR: EditorLike = {
+  // Like `vscode.Uri`, which is logged as its string form
+  document: { uri: { toString: () => URI }, version: 3 },
+  viewColumn: 2,
+  visibleRanges: [range(0, 0, 10, 4), range(20, 0, 30, 0)],
+};
+
+suite("Editor Events Test Suite", () => {
+  test("Flattens ranges", () => {
+    assert.deepStrictEqual(toRange(range(1, 2, 3, 4)), [1, 2, 3, 4]);
+  });
+
+  test("Describes an editor and the layout", () => {
+    const described = {
+      uri: URI,
+      viewColumn: 2,
+      version: 3,
+      visibleRanges: [
+        [0, 0, 10, 4],
+        [20, 0, 30, 0],
+      ],
+    };
+
+    assert.deepStrictEqual(describeEditor(EDITOR), described);
+    assert.deepStrictEqual(layoutEvent([EDITOR]), {
+      type: "layout",
+      editors: [described],
+    });
+    assert.deepStrictEqual(layoutEvent([]), { type: "layout", editors: [] });
+  });
+
+  test("Logs the active editor, or that there is none", () => {
+    assert.deepStrictEqual(activeEditorEvent(EDITOR), {
+      type: "activeEditor",
+      uri: URI,
+      viewColumn: 2,
+    });
+    assert.deepStrictEqual(
+      JSON.parse(JSON.stringify(activeEditorEvent(undefined))),
+      { type: "activeEditor", uri: null }
+    );
+  });
+
+  test("Logs selections anchor first", () => {
+    assert.deepStrictEqual(
+      selectionEvent(
+        EDITOR,
+        [
+          {
+            anchor: { line: 5, character: 8 },
+            active: { line: 2, character: 0 },
+          },
+        ],
+        1
+      ),
+      {
+        type: "selection",
+        uri: URI,
+        viewColumn: 2,
+        selections: [[5, 8, 2, 0]],
+        kind: 1,
+      }
+    );
+  });
+
+  test("Logs edits against the version after them", () => {
+    assert.deepStrictEqual(
+      editEvent(
+        EDITOR.document,
+        [
+          { range: range(0, 0, 0, 0), text: "// header\n" },
+          { range: range(4, 2, 5, 0), text: "" },
+        ],
+        2
+      ),
+      {
+        type: "edit",
+        uri: URI,
+        version: 3,
+        changes: [
+          { range: [0, 0, 0, 0], text: "// header\n" },
+          { range: [4, 2, 5, 0], text: "" },
+        ],
+        reason: 2,
+      }
+    );
+  });
+});
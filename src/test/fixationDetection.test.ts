@@ -0,0 +1,83 @@
+import * as assert from "assert";
+
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  DetectionSettings,
+  EyeMovementEvent,
+  FixationDetector,
+  GazePoint,
+} from "../fixationDetection";
+
+// 60 Hz samples resting on `a` for 300 ms, jumping to `b` and resting there for 300 ms
+function twoFixations(): GazePoint[] {
+  const points: GazePoint[] = [];
+  for (let i = 0; i < 18; i++) {
+    points.push({ x: 0.2, y: 0.2, time: i * 17, valid: true });
+  }
+  points.push({ x: 0.5, y: 0.4, time: 18 * 17, valid: true });
+  for (let i = 19; i < 37; i++) {
+    points.push({ x: 0.8, y: 0.6, time: i * 17, valid: true });
+  }
+  return points;
+}
+
+function detect(
+  points: GazePoint[],
+  settings: Partial<DetectionSettings> = {}
+): EyeMovementEvent[] {
+  const detector = new FixationDetector({
+    ...DEFAULT_DETECTION_SETTINGS,
+    ...settings,
+  });
+  return [
+    ...points.flatMap((point) => detector.push(point)),
+    ...detector.flush(),
+  ];
+}
+
+suite("Fixation Detection Test Suite", () => {
+  for (const algorithm of ["ivt", "idt"] as const) {
+    test(`Finds fixations and the saccade between them (${algorithm})`, () => {
+      const events = detect(twoFixations(), { algorithm });
+
+      assert.deepStrictEqual(
+        events.map((event) => event.type),
+        ["fixation", "saccade", "fixation"]
+      );
+      const [first, saccade, second] = events;
+      assert.ok(first.type === "fixation" && Math.abs(first.x - 0.2) < 1e-9);
+      assert.ok(second.type === "fixation" && Math.abs(second.x - 0.8) < 1e-9);
+      assert.ok(saccade.type === "saccade" && saccade.amplitude > 0.5);
+    });
+  }
+
+  test("Drops fixations shorter than the minimum duration", () => {
+    const events = detect(twoFixations(), { minFixationDurationMs: 400 });
+
+    assert.deepStrictEqual(events, []);
+  });
+
+  test("Reports blinks and bridges short gaps", () => {
+    const points = twoFixations().slice(0, 18);
+    // A 34 ms gap, then a 170 ms gap
+    points.splice(
+      5,
+      2,
+      ...points.slice(5, 7).map((p) => ({ ...p, valid: false }))
+    );
+    for (let i = 18; i < 28; i++) {
+      points.push({ x: NaN, y: NaN, time: i * 17, valid: false });
+    }
+    for (let i = 28; i < 40; i++) {
+      points.push({ x: 0.2, y: 0.2, time: i * 17, valid: true });
+    }
+
+    const events = detect(points);
+    assert.deepStrictEqual(
+      events.map((event) => event.type),
+      ["fixation", "blink", "fixation"]
+    );
+    assert.strictEqual(events[0].start, 0);
+    assert.strictEqual(events[1].duration, 170);
+  });
+});
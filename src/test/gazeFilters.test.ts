@@ -0,0 +1,81 @@
+import * as assert from "assert";
+
+import { GazePoint } from "../fixationDetection";
+import {
+  DEFAULT_FILTER_SETTINGS,
+  FilterChain,
+  KalmanFilter,
+  MedianFilter,
+  MovingAverageFilter,
+  OneEuroFilter,
+} from "../gazeFilters";
+
+function point(x: number, time: number, valid = true): GazePoint {
+  return { x, y: 0.5, time, valid };
+}
+
+suite("Gaze Filters Test Suite", () => {
+  test("Averages and takes the median of the last samples", () => {
+    const average = new MovingAverageFilter(3);
+    const median = new MedianFilter(3);
+    let averaged = 0;
+    let medianed = 0;
+    for (const [index, x] of [0.1, 0.2, 0.9, 0.3].entries()) {
+      averaged = average.filter(point(x, index * 17)).x;
+      medianed = median.filter(point(x, index * 17)).x;
+    }
+
+    assert.ok(Math.abs(averaged - (0.2 + 0.9 + 0.3) / 3) < 1e-9);
+    assert.strictEqual(medianed, 0.3);
+  });
+
+  test("Smooths jitter while resting and follows jumps", () => {
+    for (const filter of [
+      new OneEuroFilter(DEFAULT_FILTER_SETTINGS.oneEuro),
+      new KalmanFilter(DEFAULT_FILTER_SETTINGS.kalman),
+    ]) {
+      let resting = 0;
+      for (let i = 0; i < 60; i++) {
+        resting = filter.filter(point(i % 2 === 0 ? 0.49 : 0.51, i * 17)).x;
+      }
+      let jumped = 0;
+      for (let i = 60; i < 120; i++) {
+        jumped = filter.filter(point(0.8, i * 17)).x;
+      }
+
+      assert.ok(Math.abs(resting - 0.5) < 0.01);
+      assert.ok(Math.abs(jumped - 0.8) < 0.01);
+    }
+  });
+
+  test("Passes invalid samples through and starts over after them", () => {
+    const chain = new FilterChain({
+      ...DEFAULT_FILTER_SETTINGS,
+      chain: ["movingAverage"],
+    });
+    chain.push(point(0.1, 0));
+    const invalid = chain.push(point(NaN, 17, false));
+    const after = chain.push(point(0.9, 34));
+
+    assert.strictEqual(invalid?.valid, false);
+    assert.strictEqual(after?.x, 0.9);
+  });
+
+  test("Downsamples the output only", () => {
+    const chain = new FilterChain({
+      ...DEFAULT_FILTER_SETTINGS,
+      chain: ["movingAverage"],
+      downsampleHz: 20,
+    });
+    const output = [0, 17, 34, 51, 68].map((time) =>
+      chain.push(point(time / 100, time))
+    );
+
+    assert.deepStrictEqual(
+      output.map((sample) => sample !== undefined),
+      [true, false, false, true, false]
+    );
+    // The dropped samples still went through the filter
+    assert.ok(Math.abs(output[3]!.x - (0 + 0.17 + 0.34 + 0.51) / 4) < 1e-9);
+  });
+});
@@ -0,0 +1,123 @@
+import * as assert from "assert";
+
+import { mapGazeToPosition, ViewportSnapshot } from "../gazeMapper";
+import { EditorMetrics, ViewportTransform } from "../windowCalibration";
+
+const METRICS: EditorMetrics = {
+  fontSize: 14,
+  lineHeight: 20,
+  zoomLevel: 0,
+  characterWidthRatio: 0.6,
+};
+
+// A text area at (0.1, 0.1) with 0.02 high rows and 0.01 wide columns
+const TRANSFORM: ViewportTransform = {
+  originX: 0.1,
+  originY: 0.1,
+  columnWidth: 0.01,
+  rowHeight: 0.02,
+  width: 0.8,
+  height: 0.8,
+  metrics: METRICS,
+  measuredAt: 0,
+};
+
+const LINES = ["first line", "\tindented", "third", "fourth"];
+
+function snapshot(overrides: Partial<ViewportSnapshot> = {}): ViewportSnapshot {
+  return {
+    visibleRanges: [{ start: 0, end: LINES.length - 1 }],
+    lineText: (line) => LINES[line],
+    tabSize: 4,
+    wordWrap: "off",
+    wordWrapColumn: 80,
+    wrappingIndent: "same",
+    codeLensLines: [],
+    stickyHeaderLines: [],
+    insertions: new Map(),
+    metrics: METRICS,
+    ...overrides,
+  };
+}
+
+suite("Gaze Mapper Test Suite", () => {
+  test("Maps the centre of a character with full confidence", () => {
+    const mapped = mapGazeToPosition(
+      { x: 0.1 + 2.5 * 0.01, y: 0.1 + 0.5 * 0.02 },
+      TRANSFORM,
+      snapshot()
+    );
+
+    assert.strictEqual(mapped?.kind, "text");
+    assert.strictEqual(mapped?.line, 0);
+    assert.strictEqual(mapped?.character, 2);
+    assert.ok(Math.abs(mapped!.confidence - 1) < 1e-9);
+  });
+
+  test("Skips folded lines", () => {
+    const mapped = mapGazeToPosition(
+      { x: 0.105, y: 0.1 + 2.5 * 0.02 },
+      TRANSFORM,
+      snapshot({
+        visibleRanges: [
+          { start: 0, end: 1 },
+          { start: 3, end: 3 },
+        ],
+      })
+    );
+
+    assert.strictEqual(mapped?.line, 3);
+  });
+
+  test("Flags code lens rows instead of shifting lines", () => {
+    const view = snapshot({ codeLensLines: [1] });
+    const lens = mapGazeToPosition(
+      { x: 0.105, y: 0.1 + 1.5 * 0.02 },
+      TRANSFORM,
+      view
+    );
+    const text = mapGazeToPosition(
+      { x: 0.105, y: 0.1 + 2.5 * 0.02 },
+      TRANSFORM,
+      view
+    );
+
+    assert.strictEqual(lens?.kind, "codeLens");
+    assert.strictEqual(lens?.line, 1);
+    assert.strictEqual(text?.kind, "text");
+    assert.strictEqual(text?.line, 1);
+  });
+
+  test("Loses confidence past the end of a line", () => {
+    const mapped = mapGazeToPosition(
+      { x: 0.1 + 9.5 * 0.01, y: 0.1 + 2.5 * 0.02 },
+      TRANSFORM,
+      snapshot()
+    );
+
+    assert.strictEqual(mapped?.line, 2);
+    assert.strictEqual(mapped?.character, 5);
+    assert.ok(mapped!.confidence < 1 && mapped!.confidence > 0);
+  });
+
+  test("Rescales rows when the line height changes", () => {
+    const mapped = mapGazeToPosition(
+      { x: 0.105, y: 0.1 + 1.5 * 0.04 },
+      TRANSFORM,
+      snapshot({ metrics: { ...METRICS, lineHeight: 40 } })
+    );
+
+    assert.strictEqual(mapped?.line, 1);
+  });
+
+  test("Ignores points outside the text area", () => {
+    assert.strictEqual(
+      mapGazeToPosition({ x: 0.05, y: 0.5 }, TRANSFORM, snapshot()),
+      undefined
+    );
+    assert.strictEqual(
+      mapGazeToPosition({ x: 0.5, y: 0.5 }, TRANSFORM, snapshot()),
+      undefined
+    );
+  });
+});
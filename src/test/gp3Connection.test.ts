@@ -0,0 +1,105 @@
+import * as assert from "assert";
+
+import {
+  backoffDelay,
+  ConnectionLifecycle,
+  ConnectionState,
+  ReconnectPolicy,
+} from "../gp3Connection";
+
+const POLICY: ReconnectPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 1500,
+};
+
+function lifecycle(): {
+  lifecycle: ConnectionLifecycle;
+  states: ConnectionState[];
+} {
+  const states: ConnectionState[] = [];
+  return {
+    lifecycle: new ConnectionLifecycle(POLICY, (state) => states.push(state)),
+    states,
+  };
+}
+
+suite("gp3Connection Test Suite", () => {
+  test("Doubles the delay up to the limit", () => {
+    assert.deepStrictEqual(
+      [1, 2, 3, 4].map((attempt) => backoffDelay(attempt, POLICY)),
+      [500, 1000, 1500, 1500]
+    );
+  });
+
+  test("Retries a dropped connection until the policy is exhausted", () => {
+    const { lifecycle: connection, states } = lifecycle();
+
+    connection.attemptStarted();
+    assert.strictEqual(connection.getState(), "connecting");
+    assert.deepStrictEqual(connection.connected(), []);
+    const delays = [1, 2, 3, 4].map(() => {
+      const delay = connection.closed();
+      if (delay !== undefined) {
+        connection.attemptStarted();
+      }
+      return delay;
+    });
+
+    assert.deepStrictEqual(delays, [500, 1000, 1500, undefined]);
+    assert.deepStrictEqual(states, ["connected", "reconnecting", "failed"]);
+    assert.strictEqual(connection.getAttempt(), 4);
+  });
+
+  test("Starts over after a reset or a successful connection", () => {
+    const { lifecycle: connection, states } = lifecycle();
+
+    connection.attemptStarted();
+    assert.strictEqual(connection.closed(), 500);
+    assert.strictEqual(connection.closed(), 1000);
+    // Never connected, so the fresh attempt is a first one again
+    connection.reset();
+    connection.attemptStarted();
+    assert.strictEqual(connection.getState(), "connecting");
+    assert.strictEqual(connection.closed(), 500);
+    connection.connected();
+    assert.strictEqual(connection.getAttempt(), 0);
+    assert.strictEqual(connection.closed(), 500);
+
+    assert.deepStrictEqual(states, [
+      "reconnecting",
+      "connecting",
+      "reconnecting",
+      "connected",
+      "reconnecting",
+    ]);
+  });
+
+  test("Stops for good once disconnected", () => {
+    const { lifecycle: connection, states } = lifecycle();
+    connection.connected();
+
+    connection.disconnect();
+
+    assert.strictEqual(connection.closed(), undefined);
+    assert.deepStrictEqual(states, ["connected", "disconnected"]);
+  });
+
+  test("Enables the streams again after a reconnect", () => {
+    const { lifecycle: connection } = lifecycle();
+    connection.trackSet("ENABLE_SEND_DATA", { STATE: 1 });
+    connection.trackSet("ENABLE_SEND_POG_FIX", { STATE: "1" });
+    connection.trackSet("ENABLE_SEND_CURSOR", { STATE: true });
+    connection.trackSet("ENABLE_SEND_CURSOR", { STATE: 0 });
+    connection.trackSet("CALIBRATE_SHOW", { STATE: 1 });
+
+    assert.deepStrictEqual(connection.connected(), []);
+    connection.closed();
+    connection.attemptStarted();
+
+    assert.deepStrictEqual(connection.connected(), [
+      ["ENABLE_SEND_DATA", { STATE: 1 }],
+      ["ENABLE_SEND_POG_FIX", { STATE: "1" }],
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import * as assert from "assert";
+
+import { formatCommand, LineReassembler, parseMessage } from "../gp3Protocol";
+
+suite("gp3Protocol Test Suite", () => {
+  test("Reassembles records split across chunks", () => {
+    const reassembler = new LineReassembler();
+
+    assert.deepStrictEqual(reassembler.push('<REC CNT="1" />\r\n<REC CN'), [
+      '<REC CNT="1" />',
+    ]);
+    assert.deepStrictEqual(reassembler.push('T="2" />\r\n'), [
+      '<REC CNT="2" />',
+    ]);
+    assert.strictEqual(reassembler.getDroppedLines(), 0);
+  });
+
+  test("Drops partial lines that exceed the line limit", () => {
+    const reassembler = new LineReassembler(10);
+
+    assert.deepStrictEqual(reassembler.push('<REC CNT="123456789'), []);
+    assert.strictEqual(reassembler.getDroppedLines(), 1);
+  });
+
+  test("Parses attributes and decodes entities", () => {
+    const message = parseMessage(
+      '<ACK ID="USER_DATA" VALUE="a &quot;b&quot; &amp; c" />'
+    );
+
+    assert.deepStrictEqual(message, {
+      tag: "ACK",
+      attributes: { ID: "USER_DATA", VALUE: 'a "b" & c' },
+    });
+  });
+
+  test("Rejects malformed lines", () => {
+    assert.strictEqual(parseMessage('<REC CNT="1"'), null);
+    assert.strictEqual(parseMessage("garbage"), null);
+    assert.strictEqual(parseMessage("<REC CNT=1 />"), null);
+  });
+
+  test("Formats commands with escaped parameters", () => {
+    assert.strictEqual(
+      formatCommand(true, "USER_DATA", { VALUE: 'say "hi"', DUR: 0 }),
+      '<SET ID="USER_DATA" VALUE="say &quot;hi&quot;" DUR="0" />\r\n'
+    );
+    assert.strictEqual(
+      formatCommand(true, "ENABLE_SEND_DATA", { STATE: true }),
+      '<SET ID="ENABLE_SEND_DATA" STATE="1" />\r\n'
+    );
+    assert.strictEqual(
+      formatCommand(false, "SCREEN_SIZE"),
+      '<GET ID="SCREEN_SIZE" />\r\n'
+    );
+  });
+});
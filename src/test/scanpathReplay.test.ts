@@ -0,0 +1,162 @@
+import * as assert from "assert";
+
+import { EditorEvent } from "../editorEvents";
+import {
+  parseAttributedFixations,
+  parseEditorEvents,
+  Scanpath,
+} from "../scanpathReplay";
+
+const URI = "file:///workspace/src/main.ts";
+const OTHER_URI = "file:///workspace/src/other.ts";
+
+function attribution(
+  start: number,
+  uri: string,
+  line: number,
+  version = 1
+): string {
+  return JSON.stringify({
+    type: "attribution",
+    time: start + 200,
+    start,
+    duration: 200,
+    region: { kind: "editor", viewColumn: 1 },
+    uri,
+    version,
+    position: [line, 4],
+    token: { start: 2, end: 8, text: "result" },
+    symbols: [],
+  });
+}
+
+suite("Scanpath Replay Test Suite", () => {
+  test("Reads the attributed fixations of an eye movement log", () => {
+    const fixations = parseAttributedFixations(
+      [
+        JSON.stringify({ type: "detection", time: 0, settings: {} }),
+        attribution(2000, URI, 3),
+        JSON.stringify({ type: "attribution", time: 1200, region: {} }),
+        attribution(1000, URI, 1),
+        '{"type": "attribution", "ti',
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(
+      fixations.map((fixation) => [fixation.index, fixation.position.line]),
+      [
+        [0, 1],
+        [1, 3],
+      ]
+    );
+    assert.deepStrictEqual(fixations[0].token, { start: 2, end: 8 });
+  });
+
+  test("Skips entries with fields of the wrong type", () => {
+    const valid = JSON.parse(attribution(1000, URI, 1));
+    assert.deepStrictEqual(
+      parseAttributedFixations(
+        [
+          "null",
+          "42",
+          JSON.stringify({ ...valid, start: "1000" }),
+          JSON.stringify({ ...valid, version: null }),
+          JSON.stringify({ ...valid, position: ["1", 4] }),
+          JSON.stringify({ ...valid, token: "result", symbols: ["f", 1] }),
+        ].join("\n")
+      ).map((fixation) => [fixation.token, fixation.symbols]),
+      [[undefined, ["f"]]]
+    );
+
+    assert.deepStrictEqual(
+      parseEditorEvents(
+        [
+          JSON.stringify({ time: 0, type: "focus", focused: true }),
+          JSON.stringify({ time: 1, type: "focus", focused: "yes" }),
+          JSON.stringify({ time: "2", type: "focus", focused: true }),
+          JSON.stringify({ time: 3, type: "activeEditor", uri: null }),
+          JSON.stringify({ time: 4, type: "edit", uri: URI, version: 2 }),
+          JSON.stringify({
+            time: 5,
+            type: "layout",
+            editors: [{ uri: URI, version: 1, visibleRanges: [[0, 0, 9]] }],
+          }),
+          JSON.stringify({ time: 6, type: "unknown" }),
+        ].join("\n")
+      ).map((event) => event.time),
+      [0, 3]
+    );
+  });
+
+  test("Finds the fixation and trail at a moment", () => {
+    const scanpath = new Scanpath(
+      parseAttributedFixations(
+        [
+          attribution(1000, OTHER_URI, 0),
+          attribution(2000, URI, 1),
+          attribution(3000, URI, 2),
+          attribution(4000, URI, 3),
+        ].join("\n")
+      ),
+      [],
+      []
+    );
+
+    assert.strictEqual(scanpath.indexAt(500), -1);
+    assert.strictEqual(scanpath.indexAt(3100), 2);
+    assert.strictEqual(scanpath.indexAt(3500), 2);
+    assert.deepStrictEqual(
+      scanpath.trail(3500, 5).map((fixation) => fixation.index),
+      [1, 2]
+    );
+    assert.deepStrictEqual(
+      scanpath.trail(9000, 2).map((fixation) => fixation.index),
+      [2, 3]
+    );
+    assert.strictEqual(scanpath.getEnd(), 4200);
+  });
+
+  test("Translates positions and scrolling to the last version", () => {
+    const events: EditorEvent[] = [
+      {
+        time: 0,
+        type: "document",
+        uri: URI,
+        languageId: "typescript",
+        version: 1,
+        text: "a\nb\nc\nd\n",
+      },
+      {
+        time: 500,
+        type: "visibleRanges",
+        uri: URI,
+        version: 1,
+        visibleRanges: [[2, 0, 3, 0]],
+      },
+      {
+        time: 2500,
+        type: "edit",
+        uri: URI,
+        version: 2,
+        changes: [{ range: [0, 0, 0, 0], text: "// header\n" }],
+      },
+    ];
+    const scanpath = new Scanpath(
+      parseAttributedFixations(attribution(1000, URI, 3)),
+      events,
+      []
+    );
+
+    const [fixation] = scanpath.getFixations();
+    assert.deepStrictEqual(scanpath.positionOf(fixation), {
+      line: 4,
+      character: 4,
+    });
+    assert.deepStrictEqual(scanpath.scrollAt(URI, 1000), {
+      line: 3,
+      character: 0,
+    });
+    assert.strictEqual(scanpath.scrollAt(URI, 100), undefined);
+    assert.strictEqual(scanpath.finalText(URI), "// header\na\nb\nc\nd\n");
+  });
+});
@@ -0,0 +1,148 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  listBundles,
+  listUnreadableBundles,
+  MANIFEST_FILE,
+  SessionBundle,
+  SessionBundleError,
+} from "../sessionBundle";
+
+const START = new Date("2025-05-01T12:30:00.000Z");
+
+suite("Session Bundle Test Suite", () => {
+  let recordingsDir: string;
+
+  setup(() => {
+    recordingsDir = fs.mkdtempSync(path.join(os.tmpdir(), "gp3-sessions-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(recordingsDir, { recursive: true, force: true });
+  });
+
+  test("Writes a manifest that reads back the same", () => {
+    const bundle = SessionBundle.create(recordingsDir, START, {
+      extensionVersion: "1.2.3",
+      participantId: "P07",
+    });
+    const tagsPath = bundle.addFile("tags", "tags.csv");
+    fs.writeFileSync(tagsPath, "tag,timestamp,visible\n");
+    bundle.addFile("faceVideo", "face.mov", START.getTime() + 250);
+    bundle.updateSettings({ fixationDetection: { algorithm: "ivt" } });
+    bundle.update({ tracker: { host: "127.0.0.1", port: 4242 } });
+
+    assert.strictEqual(
+      bundle.getDir(),
+      path.join(recordingsDir, "2025-05-01T12-30-00_000Z")
+    );
+    const reopened = SessionBundle.open(bundle.getDir());
+    assert.deepStrictEqual(reopened.getManifest(), bundle.getManifest());
+    assert.strictEqual(reopened.getStart(), START.getTime());
+    assert.strictEqual(reopened.getManifest().participantId, "P07");
+    assert.strictEqual(
+      reopened.getFile("faceVideo")?.clockOffsetMs,
+      START.getTime() + 250
+    );
+    assert.strictEqual(reopened.read("tags"), "tag,timestamp,visible\n");
+    assert.strictEqual(reopened.read("gaze"), "");
+  });
+
+  test("Replaces a file of the same kind", () => {
+    const bundle = SessionBundle.create(recordingsDir, START, {
+      extensionVersion: "1.2.3",
+    });
+    bundle.addFile("faceVideo", "face.mov", 1);
+    bundle.addFile("faceVideo", "face2.mov", 2);
+
+    assert.deepStrictEqual(bundle.getManifest().files, [
+      { kind: "faceVideo", path: "face2.mov", clockOffsetMs: 2 },
+    ]);
+  });
+
+  test("Rejects manifests from a newer version", () => {
+    const dir = path.join(recordingsDir, "future");
+    fs.mkdirSync(dir);
+    fs.writeFileSync(
+      path.join(dir, MANIFEST_FILE),
+      JSON.stringify({ formatVersion: 99, sessionId: "future", files: [] })
+    );
+
+    assert.throws(() => SessionBundle.open(dir), SessionBundleError);
+  });
+
+  test("Replaces the manifest without leaving a partial one", () => {
+    const bundle = SessionBundle.create(recordingsDir, START, {
+      extensionVersion: "1.2.3",
+    });
+
+    bundle.update({ endedAt: "2025-05-01T13:00:00.000Z" });
+
+    assert.deepStrictEqual(fs.readdirSync(bundle.getDir()), [MANIFEST_FILE]);
+    assert.strictEqual(
+      SessionBundle.open(bundle.getDir()).getManifest().endedAt,
+      "2025-05-01T13:00:00.000Z"
+    );
+  });
+
+  test("Lists the sessions whose manifest cannot be read", () => {
+    const bundle = SessionBundle.create(recordingsDir, START, {
+      extensionVersion: "1.2.3",
+    });
+    const manifestPath = path.join(bundle.getDir(), MANIFEST_FILE);
+    fs.writeFileSync(
+      manifestPath,
+      fs.readFileSync(manifestPath, "utf-8").slice(0, 40)
+    );
+    fs.mkdirSync(path.join(recordingsDir, "not-a-session"));
+    const future = path.join(recordingsDir, "future");
+    fs.mkdirSync(future);
+    fs.writeFileSync(
+      path.join(future, MANIFEST_FILE),
+      JSON.stringify({ formatVersion: 99, sessionId: "future", files: [] })
+    );
+
+    assert.deepStrictEqual(listBundles(recordingsDir), []);
+    assert.deepStrictEqual(
+      listUnreadableBundles(recordingsDir).map((error) => error.dir),
+      [bundle.getDir()]
+    );
+  });
+
+  test("Lists bundles and flat tag CSVs newest first", () => {
+    SessionBundle.create(recordingsDir, START, { extensionVersion: "1.2.3" });
+    const legacyId = "2025-04-01T09-00-00_000Z";
+    fs.writeFileSync(
+      path.join(recordingsDir, `tags_${legacyId}.csv`),
+      "tag,timestamp,visible\n"
+    );
+    fs.writeFileSync(
+      path.join(recordingsDir, "face_2025-04-01T09-00-01.mov"),
+      ""
+    );
+    fs.writeFileSync(
+      path.join(recordingsDir, "gaze_2025-03-01T09-00-00_000Z.csv"),
+      ""
+    );
+    fs.mkdirSync(path.join(recordingsDir, "not-a-session"));
+
+    const bundles = listBundles(recordingsDir);
+
+    assert.deepStrictEqual(
+      bundles.map((bundle) => [bundle.getSessionId(), bundle.isLegacy()]),
+      [
+        ["2025-05-01T12-30-00_000Z", false],
+        [legacyId, true],
+      ]
+    );
+    const legacy = bundles[1];
+    assert.strictEqual(legacy.getStart(), Date.parse("2025-04-01T09:00:00Z"));
+    assert.deepStrictEqual(legacy.getManifest().files, [
+      { kind: "tags", path: `tags_${legacyId}.csv`, clockOffsetMs: 0 },
+    ]);
+    assert.throws(() => legacy.updateSettings({}), SessionBundleError);
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { SessionBundle } from "../sessionBundle";
+import {
+  findUnfinalizedSessions,
+  lastKnownTime,
+  recoverSession,
+} from "../sessionRecovery";
+import { parseTagCsv, TAG_LOG_HEADER } from "../tagLog";
+
+const START = new Date("2025-05-01T12:30:00.000Z");
+
+suite("Session Recovery Test Suite", () => {
+  let recordingsDir: string;
+
+  setup(() => {
+    recordingsDir = fs.mkdtempSync(path.join(os.tmpdir(), "gp3-recovery-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(recordingsDir, { recursive: true, force: true });
+  });
+
+  // A session killed mid-write, with the last line of each log cut off
+  function crashedSession(): SessionBundle {
+    const bundle = SessionBundle.create(recordingsDir, START, {
+      extensionVersion: "1.2.3",
+    });
+    fs.writeFileSync(
+      bundle.addFile("tags", "tags.csv"),
+      TAG_LOG_HEADER +
+        [
+          "start,2025-05-01T12:30:00.000Z,0,True",
+          "task1,2025-05-01T12:31:00.000Z,60000,True",
+          '"a, b",2025-05-01T12:32:00.000Z,120000,True',
+          '"a, b",2025-05-01T12:33:00.000Z,180000,False',
+          '"task3,2025-05-0',
+        ].join("\n")
+    );
+    fs.writeFileSync(
+      bundle.addFile("eyeMovements", "eye_movements.jsonl"),
+      `{"time":${START.getTime() + 250000}}\n{"time":${START.getTime()}`
+    );
+    fs.writeFileSync(
+      bundle.addFile("gaze", "gaze.csv"),
+      `receivedAt,x\n${START.getTime() + 300000},0.5\n${START.getTime() + 4}`
+    );
+    return bundle;
+  }
+
+  test("Finds the sessions without an end but the active one", () => {
+    const crashed = crashedSession();
+    const finalized = SessionBundle.create(
+      recordingsDir,
+      new Date("2025-05-01T10:00:00.000Z"),
+      { extensionVersion: "1.2.3" }
+    );
+    finalized.update({ endedAt: "2025-05-01T11:00:00.000Z" });
+    const active = SessionBundle.create(
+      recordingsDir,
+      new Date("2025-05-01T14:00:00.000Z"),
+      { extensionVersion: "1.2.3" }
+    );
+
+    assert.deepStrictEqual(
+      findUnfinalizedSessions(recordingsDir, active.getSessionId()).map(
+        (bundle) => bundle.getSessionId()
+      ),
+      [crashed.getSessionId()]
+    );
+  });
+
+  test("Takes the last complete line of any log as the end", () => {
+    assert.strictEqual(
+      lastKnownTime(crashedSession()),
+      START.getTime() + 300000
+    );
+  });
+
+  test("Closes the tags still shown at the last known time", () => {
+    const bundle = crashedSession();
+
+    const result = recoverSession(bundle, new Date("2025-05-02T09:00:00.000Z"));
+
+    const end = START.getTime() + 300000;
+    assert.deepStrictEqual(result, { endedAt: end, closedTags: ["task1"] });
+    assert.deepStrictEqual(
+      parseTagCsv(bundle.read("tags"), START.getTime()).slice(-3),
+      [
+        { tag: "a, b", time: end - 120000, elapsedMs: 180000, visible: false },
+        { tag: "task1", time: end, elapsedMs: 300000, visible: false },
+        { tag: "start", time: end, elapsedMs: 300000, visible: false },
+      ]
+    );
+    const manifest = SessionBundle.open(bundle.getDir()).getManifest();
+    assert.strictEqual(manifest.endedAt, new Date(end).toISOString());
+    assert.strictEqual(manifest.recoveredAt, "2025-05-02T09:00:00.000Z");
+    assert.deepStrictEqual(findUnfinalizedSessions(recordingsDir), []);
+  });
+});
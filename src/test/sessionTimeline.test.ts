@@ -0,0 +1,88 @@
+import * as assert from "assert";
+
+import { EditorEvent } from "../editorEvents";
+import {
+  activeFileSpans,
+  binWidth,
+  buildTimeline,
+  fixationDensity,
+  gazeValidity,
+} from "../sessionTimeline";
+
+const MAIN = "file:///workspace/src/main.ts";
+const UTIL = "file:///workspace/src/util.ts";
+
+function activeEditor(time: number, uri: string | null): EditorEvent {
+  return { time, type: "activeEditor", uri };
+}
+
+suite("Session Timeline Test Suite", () => {
+  test("Splits long sessions into whole seconds", () => {
+    assert.strictEqual(binWidth(0, 60000), 1000);
+    assert.strictEqual(binWidth(0, 3600000), 9000);
+  });
+
+  test("Follows the active file", () => {
+    const spans = activeFileSpans(
+      [
+        activeEditor(0, MAIN),
+        { time: 50, type: "focus", focused: false },
+        activeEditor(100, MAIN),
+        activeEditor(200, null),
+        activeEditor(300, UTIL),
+      ],
+      500
+    );
+
+    assert.deepStrictEqual(spans, [
+      { uri: MAIN, start: 0, end: 200 },
+      { uri: UTIL, start: 300, end: 500 },
+    ]);
+  });
+
+  test("Bins fixations and valid samples", () => {
+    assert.deepStrictEqual(
+      fixationDensity([0, 500, 1500, 2500, 9000], 0, 1000, 3),
+      [2, 1, 1]
+    );
+
+    const csv = [
+      "time,received_at,tracker_time,cnt,bpogx,bpogy,bpogv",
+      "100,100,0.1,1,0.5,0.5,1",
+      "200,200,0.2,2,,,0",
+      "300,300,0.3,3,0.5,0.5,1",
+      "2100,2100,2.1,4,0.5,0.5,1",
+      "",
+    ].join("\n");
+    assert.deepStrictEqual(gazeValidity(csv, 0, 1000, 3), [2 / 3, null, 1]);
+    assert.deepStrictEqual(gazeValidity("", 0, 1000, 2), [null, null]);
+  });
+
+  test("Builds the timeline from the logs", () => {
+    const timeline = buildTimeline(
+      1000,
+      [{ tag: "task1", start: 2000, end: 4000, depth: 1, parent: "start" }],
+      [activeEditor(1500, MAIN)],
+      [2500, 3000],
+      ""
+    );
+
+    assert.strictEqual(timeline.start, 1000);
+    assert.strictEqual(timeline.end, 4000);
+    assert.strictEqual(timeline.binMs, 1000);
+    assert.deepStrictEqual(timeline.fixationDensity, [0, 1, 1]);
+    assert.deepStrictEqual(timeline.files, [
+      { uri: MAIN, start: 1500, end: 4000 },
+    ]);
+  });
+
+  test("Builds the timeline of a session with many fixations", () => {
+    // More than a function call takes arguments
+    const fixationStarts = Array.from({ length: 500000 }, (_, i) => 1000 + i);
+
+    const timeline = buildTimeline(NaN, [], [], fixationStarts, "");
+
+    assert.strictEqual(timeline.start, 1000);
+    assert.strictEqual(timeline.end, 500999);
+  });
+});
@@ -0,0 +1,28 @@
+import * as assert from "assert";
+
+import { commandName } from "../shellCommand";
+
+suite("Shell Command Test Suite", () => {
+  test("Names the program without its arguments", () => {
+    assert.strictEqual(commandName("npm test -- --grep parser"), "npm");
+    assert.strictEqual(
+      commandName("curl -H 'Authorization: Bearer abc' https://example.com"),
+      "curl"
+    );
+    assert.strictEqual(commandName("  ./node_modules/.bin/mocha"), "mocha");
+    assert.strictEqual(
+      commandName('"C:\\Program Files\\nodejs\\node.exe" app.js'),
+      "node.exe"
+    );
+  });
+
+  test("Leaves out the variables set for the command", () => {
+    assert.strictEqual(commandName("TOKEN=secret git push"), "git");
+    assert.strictEqual(
+      commandName('API_KEY="a b c" NODE_ENV=test node'),
+      "node"
+    );
+    assert.strictEqual(commandName("TOKEN=secret"), undefined);
+    assert.strictEqual(commandName("   "), undefined);
+  });
+});
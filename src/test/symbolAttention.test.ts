@@ -0,0 +1,72 @@
+import * as assert from "assert";
+
+import {
+  AttentionLedger,
+  SymbolScope,
+  symbolPath,
+  tokenAt,
+} from "../symbolAttention";
+
+const SYMBOLS: SymbolScope[] = [
+  {
+    name: "TagManager",
+    kind: 4,
+    start: { line: 0, character: 0 },
+    end: { line: 20, character: 1 },
+    children: [
+      {
+        name: "finalize",
+        kind: 5,
+        start: { line: 10, character: 2 },
+        end: { line: 15, character: 3 },
+        children: [],
+      },
+    ],
+  },
+];
+
+suite("Symbol Attention Test Suite", () => {
+  test("Finds the token under a fixation", () => {
+    const token = tokenAt("  this.appendEntry(tag, false);", 9, 3);
+
+    assert.strictEqual(token?.text, "appendEntry");
+    assert.strictEqual(token?.start, 7);
+    assert.strictEqual(token?.distance, 0);
+  });
+
+  test("Snaps fixations on whitespace to the nearest token", () => {
+    assert.strictEqual(tokenAt("foo      bar", 4, 3)?.text, "foo");
+    assert.strictEqual(tokenAt("foo      bar", 7, 3)?.text, "bar");
+    assert.strictEqual(tokenAt("foo          bar", 7, 3), undefined);
+  });
+
+  test("Resolves the enclosing symbols", () => {
+    const inMethod = symbolPath(SYMBOLS, { line: 12, character: 4 });
+    const inClass = symbolPath(SYMBOLS, { line: 5, character: 4 });
+
+    assert.deepStrictEqual(
+      inMethod.map((symbol) => symbol.name),
+      ["TagManager", "finalize"]
+    );
+    assert.deepStrictEqual(
+      inClass.map((symbol) => symbol.name),
+      ["TagManager"]
+    );
+  });
+
+  test("Adds dwell time to a symbol and its parents", () => {
+    const ledger = new AttentionLedger();
+    ledger.record("file:///a.ts", ["TagManager", "finalize"], 300);
+    ledger.record("file:///a.ts", ["TagManager"], 200);
+    ledger.record("file:///a.ts", [], 100);
+
+    const [file, tagManager, finalize] = ledger.getEntries();
+    assert.deepStrictEqual(file.path, []);
+    assert.strictEqual(file.totalMs, 600);
+    assert.strictEqual(file.selfMs, 100);
+    assert.strictEqual(tagManager.totalMs, 500);
+    assert.strictEqual(tagManager.selfMs, 200);
+    assert.strictEqual(finalize.totalMs, 300);
+    assert.strictEqual(finalize.fixations, 1);
+  });
+});
@@ -0,0 +1,89 @@
+import * as assert from "assert";
+
+import { TagHolds, TagSink } from "../tagHolds";
+
+class FakeSink implements TagSink {
+  public rows: [string, boolean][] = [];
+
+  public addTag(tag: string, visible: boolean): void {
+    this.rows.push([tag, visible]);
+  }
+}
+
+suite("Tag Holds Test Suite", () => {
+  test("Shows a tag until the last holder lets go", () => {
+    const sink = new FakeSink();
+    const holds = new TagHolds(sink);
+    const build = {};
+    const rebuild = {};
+
+    holds.hold(build, "task: build");
+    holds.hold(rebuild, "task: build");
+    holds.hold(build, "task: build");
+    assert.deepStrictEqual(sink.rows, [["task: build", true]]);
+
+    holds.release(build);
+    holds.release(build);
+    assert.deepStrictEqual(sink.rows, [["task: build", true]]);
+
+    holds.release(rebuild);
+    assert.deepStrictEqual(sink.rows, [
+      ["task: build", true],
+      ["task: build", false],
+    ]);
+  });
+
+  test("Lets go of the old tag when a holder takes another", () => {
+    const sink = new FakeSink();
+    const holds = new TagHolds(sink);
+
+    holds.hold("activeFile", "file: a.ts");
+    holds.hold("activeFile", "file: b.ts");
+
+    assert.deepStrictEqual(sink.rows, [
+      ["file: a.ts", true],
+      ["file: a.ts", false],
+      ["file: b.ts", true],
+    ]);
+  });
+
+  test("Leaves out the same instant marked again right away", () => {
+    const sink = new FakeSink();
+    let now = 10000;
+    const holds = new TagHolds(sink, () => now);
+
+    holds.mark("hover: a.ts:1");
+    now += 500;
+    holds.mark("hover: a.ts:1");
+    holds.mark("hover: a.ts:2");
+    holds.mark("hover: a.ts:1");
+    now += 999;
+    holds.mark("hover: a.ts:1");
+    now += 1000;
+    holds.mark("hover: a.ts:1");
+
+    assert.deepStrictEqual(
+      sink.rows.filter(([, visible]) => visible).map(([tag]) => tag),
+      ["hover: a.ts:1", "hover: a.ts:2", "hover: a.ts:1", "hover: a.ts:1"]
+    );
+    assert.strictEqual(sink.rows.length, 8);
+  });
+
+  test("Hides every held tag when the tagger stops", () => {
+    const sink = new FakeSink();
+    const holds = new TagHolds(sink);
+    holds.hold("debug", "debug: Launch");
+    holds.hold("windowFocus", "window: unfocused");
+    holds.hold("other", "debug: Launch");
+
+    holds.releaseAll();
+    holds.releaseAll();
+
+    assert.deepStrictEqual(sink.rows, [
+      ["debug: Launch", true],
+      ["window: unfocused", true],
+      ["window: unfocused", false],
+      ["debug: Launch", false],
+    ]);
+  });
+});
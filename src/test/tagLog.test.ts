@@ -0,0 +1,188 @@
+import * as assert from "assert";
+
+import {
+  formatTagRow,
+  openTags,
+  parseTagCsv,
+  sessionStartOf,
+  TAG_LOG_HEADER,
+  TagLogError,
+  TagRecord,
+  tagSegments,
+} from "../tagLog";
+
+const SESSION_ID = "2025-05-01T12-30-00_250Z";
+const SESSION_START = Date.parse("2025-05-01T12:30:00.250Z");
+
+suite("Tag Log Test Suite", () => {
+  test("Reads the session start from its ID", () => {
+    assert.strictEqual(sessionStartOf(SESSION_ID), SESSION_START);
+    assert.ok(Number.isNaN(sessionStartOf("recording")));
+  });
+
+  test("Parses the version 1 CSV", () => {
+    const records = parseTagCsv(
+      [
+        "tag,timestamp,visible",
+        "start,2025,True",
+        "task1,2025-05-01T12:31:00,True",
+        "task1,2025-05-01T12:35:10,False",
+        "start,2025,False",
+        "",
+      ].join("\n"),
+      SESSION_START
+    );
+
+    assert.deepStrictEqual(records, [
+      { tag: "start", time: SESSION_START, visible: true },
+      {
+        tag: "task1",
+        time: Date.parse("2025-05-01T12:31:00Z"),
+        visible: true,
+      },
+      {
+        tag: "task1",
+        time: Date.parse("2025-05-01T12:35:10Z"),
+        visible: false,
+      },
+    ]);
+  });
+
+  test("Pairs shown and hidden rows into segments", () => {
+    const segments = tagSegments(
+      [
+        { tag: "start", time: 0, visible: true },
+        { tag: "task1", time: 10, visible: true },
+        { tag: "task2", time: 20, visible: true },
+        { tag: "task1", time: 30, visible: false },
+        { tag: "task1", time: 40, visible: true },
+        { tag: "start", time: 50, visible: false },
+      ],
+      60
+    );
+
+    assert.deepStrictEqual(segments, [
+      { tag: "start", start: 0, end: 50, depth: 0, parent: null },
+      { tag: "task1", start: 10, end: 30, depth: 1, parent: "start" },
+      { tag: "task2", start: 20, end: 60, depth: 2, parent: "task1" },
+      { tag: "task1", start: 40, end: 60, depth: 2, parent: "task2" },
+    ]);
+  });
+
+  test("Lists the tags still shown", () => {
+    assert.deepStrictEqual(
+      openTags([
+        { tag: "start", time: 0, visible: true },
+        { tag: "task1", time: 10, visible: true },
+        { tag: "task2", time: 20, visible: true },
+        { tag: "task1", time: 30, visible: false },
+        { tag: "task3", time: 40, visible: true },
+      ]),
+      ["task2", "task3"]
+    );
+  });
+
+  test("Reads back what it writes", () => {
+    const records: TagRecord[] = [
+      { tag: "start", time: SESSION_START, elapsedMs: 0, visible: true },
+      {
+        tag: "task1",
+        time: SESSION_START + 1001,
+        elapsedMs: 1000.625,
+        visible: true,
+      },
+      {
+        tag: 'say "hi", then\nleave',
+        time: SESSION_START + 2002,
+        elapsedMs: 2001.5,
+        visible: true,
+      },
+      {
+        tag: 'say "hi", then\nleave',
+        time: SESSION_START + 3003,
+        elapsedMs: 3002,
+        visible: false,
+      },
+      { tag: "task1", time: SESSION_START + 4004, visible: false },
+      {
+        tag: "start",
+        time: SESSION_START + 5005,
+        elapsedMs: 5004,
+        visible: false,
+      },
+    ];
+    const text =
+      TAG_LOG_HEADER + records.map((record) => formatTagRow(record)).join("");
+
+    assert.deepStrictEqual(parseTagCsv(text, NaN), records);
+    assert.deepStrictEqual(
+      parseTagCsv(text.replace(/\n/g, "\r\n"), NaN).map((record) => record.tag),
+      records.map((record) => record.tag.replace(/\n/g, "\r\n"))
+    );
+    assert.deepStrictEqual(tagSegments(parseTagCsv(text, NaN), Infinity), [
+      {
+        tag: "start",
+        start: SESSION_START,
+        end: SESSION_START + 5005,
+        depth: 0,
+        parent: null,
+      },
+      {
+        tag: "task1",
+        start: SESSION_START + 1001,
+        end: SESSION_START + 4004,
+        depth: 1,
+        parent: "start",
+      },
+      {
+        tag: 'say "hi", then\nleave',
+        start: SESSION_START + 2002,
+        end: SESSION_START + 3003,
+        depth: 2,
+        parent: "task1",
+      },
+    ]);
+  });
+
+  test("Quotes tags only when needed", () => {
+    const time = Date.parse("2025-05-01T12:31:00.750Z");
+
+    assert.strictEqual(
+      formatTagRow({ tag: "task1", time, elapsedMs: 60500, visible: true }),
+      "task1,2025-05-01T12:31:00.750Z,60500,True\n"
+    );
+    assert.strictEqual(
+      formatTagRow({ tag: 'a,"b"', time, visible: false }),
+      '"a,""b""",2025-05-01T12:31:00.750Z,,False\n'
+    );
+    assert.strictEqual(
+      formatTagRow({ tag: "task1", time, visible: false }, 1),
+      "task1,2025-05-01T12:31:00,False\n"
+    );
+  });
+
+  test("Skips rows cut off by a crash", () => {
+    const text =
+      TAG_LOG_HEADER +
+      formatTagRow({ tag: "start", time: SESSION_START, visible: true });
+
+    for (const cutOff of [
+      "task1,2025-05-01T12:31",
+      "task1,2025-05-01T12:31:00.750Z,60500,Tr",
+      '"a, b',
+    ]) {
+      assert.strictEqual(parseTagCsv(text + cutOff, NaN).length, 1, cutOff);
+    }
+  });
+
+  test("Rejects logs from a newer version", () => {
+    assert.throws(
+      () =>
+        parseTagCsv(
+          "# gp3attention tag log v3\ntag,time,elapsed_ms,visible\n",
+          SESSION_START
+        ),
+      TagLogError
+    );
+  });
+});
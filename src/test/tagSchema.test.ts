@@ -0,0 +1,104 @@
+import * as assert from "assert";
+
+import {
+  parseTagSchema,
+  planToggle,
+  TagDefinition,
+  tagKeybindings,
+  TagSchemaError,
+} from "../tagSchema";
+
+const SCHEMA: TagDefinition[] = [
+  { name: "task1", kind: "interval", group: "task" },
+  { name: "task2", kind: "interval", group: "task", color: "#e5c07b" },
+  { name: "reading", kind: "interval", autoOffSeconds: 30 },
+  { name: "bug found", kind: "instant" },
+];
+
+suite("Tag Schema Test Suite", () => {
+  test("Reads names and definitions, from a list or a file", () => {
+    const entries = [
+      "task1",
+      { name: " task2 ", group: "task", color: "#e5c07b" },
+      { name: "bug found", kind: "instant" },
+    ];
+    const expected: TagDefinition[] = [
+      { name: "task1", kind: "interval" },
+      { name: "task2", kind: "interval", color: "#e5c07b", group: "task" },
+      { name: "bug found", kind: "instant" },
+    ];
+
+    assert.deepStrictEqual(parseTagSchema(entries), expected);
+    assert.deepStrictEqual(parseTagSchema({ tags: entries }), expected);
+  });
+
+  test("Rejects malformed schemas", () => {
+    for (const value of [
+      { name: "task1" },
+      [{ kind: "interval" }],
+      ["start"],
+      ["task1", "task1"],
+      [{ name: "task1", kind: "phase" }],
+      [{ name: "task1", color: "red" }],
+      [{ name: "task1", autoOffSeconds: 0 }],
+      [{ name: "bug found", kind: "instant", autoOffSeconds: 5 }],
+    ]) {
+      assert.throws(
+        () => parseTagSchema(value),
+        TagSchemaError,
+        JSON.stringify(value)
+      );
+    }
+  });
+
+  test("Ends the other tags of the group when one starts", () => {
+    assert.deepStrictEqual(planToggle(SCHEMA, ["start", "task1"], "task2"), [
+      { tag: "task1", visible: false },
+      { tag: "task2", visible: true },
+    ]);
+    assert.deepStrictEqual(planToggle(SCHEMA, ["start", "task2"], "task2"), [
+      { tag: "task2", visible: false },
+    ]);
+  });
+
+  test("Shows and hides as asked", () => {
+    assert.deepStrictEqual(planToggle(SCHEMA, ["start"], "reading", true), [
+      { tag: "reading", visible: true, autoOffSeconds: 30 },
+    ]);
+    assert.deepStrictEqual(
+      planToggle(SCHEMA, ["start", "reading"], "reading", true),
+      []
+    );
+    assert.deepStrictEqual(planToggle(SCHEMA, ["start"], "task1", false), []);
+    assert.deepStrictEqual(planToggle(SCHEMA, ["start"], "bug found"), [
+      { tag: "bug found", visible: true },
+      { tag: "bug found", visible: false },
+    ]);
+    assert.deepStrictEqual(
+      planToggle(SCHEMA, ["start", "task1"], "bug found", false),
+      []
+    );
+    assert.deepStrictEqual(planToggle(SCHEMA, ["start"], "other"), [
+      { tag: "other", visible: true },
+    ]);
+  });
+
+  test("Binds the first ten tags to keys", () => {
+    const schema: TagDefinition[] = Array.from({ length: 11 }, (_, index) => ({
+      name: `tag${index}`,
+      kind: "interval",
+    }));
+
+    const keybindings = tagKeybindings(schema);
+
+    assert.deepStrictEqual(keybindings[0], {
+      key: "ctrl+alt+1",
+      command: "gp3attention.toggleTag",
+      args: { tag: "tag0" },
+    });
+    assert.deepStrictEqual(
+      keybindings.slice(9).map((keybinding) => keybinding.key),
+      ["ctrl+alt+0", ""]
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import * as assert from "assert";
+
+import { StreamHealthWindow } from "../trackerHealth";
+
+suite("Tracker Health Test Suite", () => {
+  test("Measures the sample rate and validity over the window", () => {
+    const window = new StreamHealthWindow(1000);
+    for (let time = 0; time < 1000; time += 10) {
+      window.record(time, time < 750);
+    }
+
+    assert.deepStrictEqual(window.health(999), {
+      sampleRate: 100,
+      validRatio: 0.75,
+    });
+  });
+
+  test("Forgets records older than the window", () => {
+    const window = new StreamHealthWindow(1000);
+    window.record(0, false);
+    window.record(900, true);
+
+    assert.deepStrictEqual(window.health(1500), {
+      sampleRate: 1,
+      validRatio: 1,
+    });
+    assert.deepStrictEqual(window.health(3000), {
+      sampleRate: 0,
+      validRatio: null,
+    });
+  });
+});
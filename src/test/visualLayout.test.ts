@@ -0,0 +1,108 @@
+import * as assert from "assert";
+
+import {
+  buildVisualRows,
+  characterAtColumn,
+  LayoutInput,
+  stickyHeaderLines,
+  wrapLine,
+} from "../visualLayout";
+
+const LINES = ["class A {", "  method() {", "    return 1;", "  }", "}"];
+
+function layout(overrides: Partial<LayoutInput> = {}): LayoutInput {
+  return {
+    visibleRanges: [{ start: 0, end: LINES.length - 1 }],
+    lineText: (line) => LINES[line],
+    tabSize: 4,
+    wrappingIndent: "same",
+    codeLensLines: [],
+    stickyHeaderLines: [],
+    insertions: new Map(),
+    maxRows: 100,
+    ...overrides,
+  };
+}
+
+suite("Visual Layout Test Suite", () => {
+  test("Wraps lines after whitespace with the same indent", () => {
+    assert.deepStrictEqual(wrapLine("  aaa bbb ccc", 8, 4, "same"), [
+      { startCharacter: 0, endCharacter: 6, indent: 0 },
+      { startCharacter: 6, endCharacter: 10, indent: 2 },
+      { startCharacter: 10, endCharacter: 13, indent: 2 },
+    ]);
+  });
+
+  test("Breaks words wider than a row", () => {
+    assert.deepStrictEqual(wrapLine("abcdefghij", 4, 4, "none"), [
+      { startCharacter: 0, endCharacter: 4, indent: 0 },
+      { startCharacter: 4, endCharacter: 8, indent: 0 },
+      { startCharacter: 8, endCharacter: 10, indent: 0 },
+    ]);
+  });
+
+  test("Skips wrapped rows scrolled out of view", () => {
+    const rows = buildVisualRows(
+      layout({
+        visibleRanges: [{ start: 1, end: 2, startCharacter: 8 }],
+        wrapColumn: 8,
+      })
+    );
+
+    assert.deepStrictEqual(rows[0], {
+      kind: "text",
+      line: 1,
+      segment: 1,
+      startCharacter: 8,
+      endCharacter: 12,
+      indent: 2,
+    });
+  });
+
+  test("Inserts code lens rows and overlays sticky headers", () => {
+    const rows = buildVisualRows(
+      layout({
+        visibleRanges: [{ start: 2, end: 4 }],
+        codeLensLines: [3],
+        stickyHeaderLines: [0],
+      })
+    );
+
+    assert.deepStrictEqual(
+      rows.map((row) => [row.kind, row.line]),
+      [
+        ["stickyHeader", 0],
+        ["codeLens", 3],
+        ["text", 3],
+        ["text", 4],
+      ]
+    );
+  });
+
+  test("Picks the scopes still open at the top of the viewport", () => {
+    const scopes = [
+      { start: 0, end: 4 },
+      { start: 1, end: 3 },
+    ];
+
+    assert.deepStrictEqual(stickyHeaderLines(scopes, 1, 5), [0, 1]);
+    assert.deepStrictEqual(stickyHeaderLines(scopes, 1, 1), [0]);
+    assert.deepStrictEqual(stickyHeaderLines(scopes, 0, 5), []);
+  });
+
+  test("Recognizes columns taken up by inlay hints", () => {
+    const row = { startCharacter: 0, endCharacter: 9, indent: 0 };
+    const hints = [{ character: 4, width: 3 }];
+
+    assert.deepStrictEqual(characterAtColumn("foo(bar);", row, 5, 4, hints), {
+      character: 4,
+      overshoot: 0,
+      onInsertion: true,
+    });
+    assert.deepStrictEqual(characterAtColumn("foo(bar);", row, 7, 4, hints), {
+      character: 4,
+      overshoot: 0,
+      onInsertion: false,
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import * as assert from "assert";
+
+import { GazeSample } from "../gp3Interface";
+import { buildVisualRows } from "../visualLayout";
+import {
+  computeLineHeight,
+  computeViewportTransform,
+  EditorMetrics,
+  FixationCapture,
+  lastLetterRow,
+  summarizeCapture,
+} from "../windowCalibration";
+
+const THRESHOLDS = { maxDispersion: 0.05, minFixationRatio: 0.5 };
+
+const METRICS: EditorMetrics = {
+  fontSize: 14,
+  lineHeight: 20,
+  zoomLevel: 0,
+  characterWidthRatio: 0.6,
+};
+
+function sample(
+  fpogid: number,
+  fpogx: number,
+  fpogy: number,
+  fpogd: number,
+  fpogv = true
+): GazeSample {
+  return {
+    cnt: 0,
+    time: 0,
+    fpogx,
+    fpogy,
+    fpogs: 0,
+    fpogd,
+    fpogid,
+    fpogv,
+    bpogx: fpogx,
+    bpogy: fpogy,
+    bpogv: fpogv,
+    cx: 0,
+    cy: 0,
+    cs: 0,
+    receivedAt: 0,
+  };
+}
+
+suite("Window Calibration Test Suite", () => {
+  test("Derives the line height like VS Code", () => {
+    assert.strictEqual(computeLineHeight(14, 0, false), 19);
+    assert.strictEqual(computeLineHeight(14, 0, true), 21);
+    assert.strictEqual(computeLineHeight(14, 1.5, false), 21);
+    assert.strictEqual(computeLineHeight(14, 22, false), 22);
+    assert.strictEqual(computeLineHeight(4, 0, false), 8);
+  });
+
+  test("Takes the median of the longest fixation", () => {
+    const capture = summarizeCapture(
+      [
+        sample(1, 0.9, 0.9, 0.1),
+        sample(2, 0.1, 0.2, 0.5),
+        sample(2, 0.11, 0.21, 1.0),
+        sample(2, 0.12, 0.22, 1.5),
+        sample(3, 0.5, 0.5, 0.2, false),
+      ],
+      2,
+      THRESHOLDS
+    );
+
+    assert.ok(typeof capture !== "string");
+    assert.strictEqual(capture.x, 0.11);
+    assert.strictEqual(capture.y, 0.21);
+    assert.strictEqual(capture.duration, 1.5);
+    assert.strictEqual(capture.sampleCount, 3);
+    assert.ok(Math.abs(capture.dispersion - Math.hypot(0.02, 0.02)) < 1e-9);
+  });
+
+  test("Rejects captures without a steady fixation", () => {
+    assert.strictEqual(
+      summarizeCapture([sample(1, 0.1, 0.1, 1, false)], 2, THRESHOLDS),
+      "No valid gaze data was received."
+    );
+    assert.match(
+      summarizeCapture([sample(1, 0.1, 0.1, 0.5)], 2, THRESHOLDS) as string,
+      /did not settle/
+    );
+    assert.match(
+      summarizeCapture(
+        [sample(1, 0.1, 0.1, 0.5), sample(1, 0.2, 0.1, 1.5)],
+        2,
+        THRESHOLDS
+      ) as string,
+      /unstable/
+    );
+  });
+
+  test("Spans the text area from the first letter to the editor edge", () => {
+    const upperLeft: FixationCapture = {
+      x: 0.105,
+      y: 0.11,
+      dispersion: 0,
+      duration: 2,
+      sampleCount: 60,
+    };
+    const transform = computeViewportTransform(
+      upperLeft,
+      { x: 0.3, y: 0.51 },
+      { lastRow: 20, textAreaRight: 0.8 },
+      METRICS,
+      1000
+    );
+
+    assert.ok(typeof transform !== "string");
+    const close = (actual: number, expected: number) =>
+      assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} ${expected}`);
+    close(transform.rowHeight, 0.02);
+    close(transform.columnWidth, (0.02 * 14 * 0.6) / 20);
+    close(transform.originX, 0.105 - transform.columnWidth / 2);
+    close(transform.originY, 0.1);
+    // Not where the last letter happens to be
+    close(transform.width, 0.8 - transform.originX);
+    close(transform.height, 0.42);
+    assert.strictEqual(transform.measuredAt, 1000);
+  });
+
+  test("Rejects anchors that cannot be used", () => {
+    const upperLeft = { x: 0.1, y: 0.1 };
+    for (const [lowerRight, layout, reason] of [
+      [{ x: 0.5, y: 0.5 }, { lastRow: 0, textAreaRight: 1 }, /two rows/],
+      [{ x: 0.5, y: 0.5 }, { lastRow: -1, textAreaRight: 1 }, /two rows/],
+      [{ x: 0.5, y: 0.05 }, { lastRow: 10, textAreaRight: 1 }, /below/],
+      [{ x: 0.5, y: 0.5 }, { lastRow: 10, textAreaRight: 0.05 }, /inside/],
+    ] as const) {
+      const result = computeViewportTransform(
+        upperLeft,
+        lowerRight,
+        layout,
+        METRICS,
+        0
+      );
+      assert.match(result as string, reason);
+    }
+  });
+
+  test("Counts rows on screen down to the last letter", () => {
+    const lines = ["aaaa bbbb cccc", "", "  dd", "ee", "   "];
+    const rows = buildVisualRows({
+      // Line 1 is folded away
+      visibleRanges: [
+        { start: 0, end: 0 },
+        { start: 2, end: 4 },
+      ],
+      lineText: (line) => lines[line],
+      tabSize: 4,
+      wrapColumn: 5,
+      wrappingIndent: "none",
+      codeLensLines: [3],
+      stickyHeaderLines: [],
+      insertions: new Map(),
+      maxRows: Infinity,
+    });
+
+    // Three wrapped rows, "  dd", the code lens, "ee", then only whitespace
+    assert.strictEqual(
+      lastLetterRow(rows, (line) => lines[line]),
+      5
+    );
+    assert.strictEqual(
+      lastLetterRow(rows.slice(0, 1), () => "   "),
+      -1
+    );
+  });
+});
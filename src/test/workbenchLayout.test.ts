@@ -0,0 +1,71 @@
+import * as assert from "assert";
+
+import { ViewportTransform } from "../windowCalibration";
+import {
+  classifyGaze,
+  transformForGroup,
+  WorkbenchRegion,
+} from "../workbenchLayout";
+
+const REGIONS: WorkbenchRegion[] = [
+  { kind: "sidebar", rect: { left: 0, top: 0, right: 0.2, bottom: 0.8 } },
+  {
+    kind: "editorGroup",
+    viewColumn: 1,
+    rect: { left: 0.2, top: 0, right: 0.6, bottom: 0.8 },
+  },
+  {
+    kind: "editorGroup",
+    viewColumn: 2,
+    rect: { left: 0.6, top: 0, right: 1, bottom: 0.8 },
+  },
+  { kind: "panel", rect: { left: 0.2, top: 0.8, right: 1, bottom: 1 } },
+];
+
+suite("Workbench Layout Test Suite", () => {
+  test("Classifies gaze into regions", () => {
+    assert.deepStrictEqual(classifyGaze({ x: 0.1, y: 0.5 }, REGIONS), {
+      kind: "sidebar",
+    });
+    assert.deepStrictEqual(classifyGaze({ x: 0.7, y: 0.5 }, REGIONS), {
+      kind: "editorGroup",
+      viewColumn: 2,
+    });
+    assert.deepStrictEqual(classifyGaze({ x: 0.5, y: 0.9 }, REGIONS), {
+      kind: "panel",
+    });
+    assert.deepStrictEqual(classifyGaze({ x: 0.1, y: 0.9 }, REGIONS), {
+      kind: "other",
+    });
+    assert.deepStrictEqual(classifyGaze({ x: 1.2, y: 0.5 }, REGIONS), {
+      kind: "offScreen",
+    });
+  });
+
+  test("Moves a transform to another editor group", () => {
+    const transform: ViewportTransform = {
+      originX: 0.25,
+      originY: 0.05,
+      columnWidth: 0.01,
+      rowHeight: 0.02,
+      width: 0.35,
+      height: 0.7,
+      metrics: {
+        fontSize: 14,
+        lineHeight: 20,
+        zoomLevel: 0,
+        characterWidthRatio: 0.6,
+      },
+      measuredAt: 0,
+    };
+    const moved = transformForGroup(
+      transform,
+      REGIONS[1].rect,
+      REGIONS[2].rect
+    );
+
+    assert.ok(Math.abs(moved.originX - 0.65) < 1e-9);
+    assert.strictEqual(moved.originY, 0.05);
+    assert.ok(Math.abs(moved.width - 0.35) < 1e-9);
+  });
+});
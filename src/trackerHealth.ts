@@ -0,0 +1,62 @@
+/**
+ * Keeps track of how well the tracker is doing right now: how many records arrive per second
+ * and how many of them carry a valid point of gaze. A drop in either is the first sign of a
+ * participant leaving the tracking box, a lost connection or an overloaded machine.
+ */
+
+/**
+ * The health of the data stream over the last seconds.
+ */
+export interface StreamHealth {
+  sampleRate: number; // Records per second
+  validRatio: number | null; // Share of records with a valid best point of gaze, null without records
+}
+
+/**
+ * The records received within a sliding time window.
+ */
+export class StreamHealthWindow {
+  private windowMs: number;
+  private samples: { time: number; valid: boolean }[] = []; // Oldest first
+
+  constructor(windowMs: number) {
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Adds a record.
+   *
+   * @param time - When it was received, in ms.
+   * @param valid - Whether it had a valid best point of gaze.
+   */
+  public record(time: number, valid: boolean): void {
+    this.samples.push({ time, valid });
+    this.prune(time);
+  }
+
+  /**
+   * The health over the window that ends now.
+   *
+   * @param now - The current time, in ms.
+   */
+  public health(now: number): StreamHealth {
+    this.prune(now);
+    const valid = this.samples.filter((sample) => sample.valid).length;
+    return {
+      sampleRate: this.samples.length / (this.windowMs / 1000),
+      validRatio: this.samples.length > 0 ? valid / this.samples.length : null,
+    };
+  }
+
+  /** Forgets every record, e.g. when switching to another tracker. */
+  public clear(): void {
+    this.samples = [];
+  }
+
+  private prune(now: number): void {
+    const firstKept = this.samples.findIndex(
+      (sample) => sample.time > now - this.windowMs
+    );
+    this.samples.splice(0, firstKept < 0 ? this.samples.length : firstKept);
+  }
+}
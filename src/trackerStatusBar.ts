@@ -0,0 +1,221 @@
+import * as vscode from "vscode";
+
+import { gp3Interface } from "./gp3Interface";
+import { StreamHealthWindow } from "./trackerHealth";
+import {
+  getActiveTracker,
+  getRecordingSession,
+  onDidChangeActiveTracker,
+  onDidChangeRecordingSession,
+} from "./trackingState";
+
+const HEALTH_WINDOW_MS = 5000;
+const REFRESH_INTERVAL_MS = 1000;
+// Below this share of valid samples the participant is likely out of the tracking box
+const LOW_VALIDITY = 0.5;
+
+/**
+ * Shows the health of the tracker in the status bar: the connection state, the sample rate,
+ * the share of valid samples over the last seconds and whether the face video and the tags
+ * are being recorded. Clicking it offers the actions to get a session back on track.
+ */
+export class TrackerStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private health = new StreamHealthWindow(HEALTH_WINDOW_MS);
+  private isRecording: () => boolean;
+  private trackerSubscriptions: vscode.Disposable[] = [];
+  private disposables: vscode.Disposable[];
+  private timer: NodeJS.Timeout;
+
+  /**
+   * @param isRecording - Whether the face video is being recorded.
+   */
+  constructor(isRecording: () => boolean) {
+    this.isRecording = isRecording;
+    this.item = vscode.window.createStatusBarItem(
+      "gp3attention.trackerHealth",
+      vscode.StatusBarAlignment.Left,
+      110
+    );
+    this.item.name = "GP3 Tracker Health";
+    this.item.command = "gp3attention.showTrackerActions";
+    this.item.show();
+
+    this.attach(getActiveTracker());
+    this.disposables = [
+      onDidChangeActiveTracker((tracker) => this.attach(tracker)),
+      onDidChangeRecordingSession(() => this.update()),
+    ];
+    // The sample rate and recording state change without events
+    this.timer = setInterval(() => this.update(), REFRESH_INTERVAL_MS);
+  }
+
+  public dispose(): void {
+    clearInterval(this.timer);
+    this.trackerSubscriptions.forEach((disposable) => disposable.dispose());
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.item.dispose();
+  }
+
+  private attach(tracker: gp3Interface | null): void {
+    this.trackerSubscriptions.forEach((disposable) => disposable.dispose());
+    this.health.clear();
+    this.trackerSubscriptions = tracker
+      ? [
+          tracker.onSample((sample) =>
+            this.health.record(sample.receivedAt, sample.bpogv)
+          ),
+          tracker.onDidChangeState(() => this.update()),
+        ]
+      : [];
+    this.update();
+  }
+
+  private update(): void {
+    const tracker = getActiveTracker();
+    const recording = this.isRecording();
+    const session = getRecordingSession();
+    const { sampleRate, validRatio } = this.health.health(Date.now());
+    const state = tracker?.getState();
+
+    let text: string;
+    let background: vscode.ThemeColor | undefined;
+    if (!tracker) {
+      text = "$(eye-closed) No tracker";
+    } else if (state === "connected") {
+      text = `$(eye) ${sampleRate.toFixed(0)} Hz · ${
+        validRatio === null ? "–" : `${(validRatio * 100).toFixed(0)}%`
+      } valid`;
+      if (validRatio === null || validRatio < LOW_VALIDITY) {
+        background = new vscode.ThemeColor("statusBarItem.warningBackground");
+      }
+    } else if (state === "connecting" || state === "reconnecting") {
+      text = "$(sync~spin) Reconnecting";
+      background = new vscode.ThemeColor("statusBarItem.warningBackground");
+    } else {
+      text =
+        state === "failed"
+          ? "$(error) Tracker lost"
+          : "$(debug-disconnect) Disconnected";
+      background = new vscode.ThemeColor("statusBarItem.errorBackground");
+    }
+    if (recording) {
+      text += " $(record)";
+    }
+    if (session) {
+      text += " $(tag)";
+    }
+    this.item.text = text;
+    this.item.backgroundColor = background;
+
+    const lines = [
+      `**Tracker:** ${state ?? "no tracking session"}`,
+      ...(state === "connected"
+        ? [
+            `**Sample rate:** ${sampleRate.toFixed(0)} Hz`,
+            `**Valid samples:** ${
+              validRatio === null
+                ? "none received"
+                : `${(validRatio * 100).toFixed(0)}%`
+            } over the last ${HEALTH_WINDOW_MS / 1000} s`,
+          ]
+        : []),
+      `**Face video:** ${recording ? "recording" : "off"}`,
+      `**Tags:** ${session ? `recording to session ${session.getSessionId()}` : "off"}`,
+    ];
+    if (tracker) {
+      const stats = tracker.getStreamStats();
+      lines.push(
+        `**Stream:** ${stats.malformedLines} malformed, ${stats.droppedLines} dropped lines, ${stats.counterGaps} counter gaps`
+      );
+    }
+    this.item.tooltip = new vscode.MarkdownString(
+      `${lines.join("  \n")}\n\nClick for actions`
+    );
+  }
+}
+
+export function showTrackerStatus(
+  isRecording: () => boolean
+): vscode.Disposable {
+  const statusBar = new TrackerStatusBar(isRecording);
+  const command = vscode.commands.registerCommand(
+    "gp3attention.showTrackerActions",
+    async () => {
+      const tracker = getActiveTracker();
+      const recording = isRecording();
+      const session = getRecordingSession();
+      const actions: (vscode.QuickPickItem & { command: string })[] = [
+        ...(tracker && tracker.getState() !== "connected"
+          ? [
+              {
+                label: "$(debug-restart) Reconnect",
+                description: "Try to reach Gazepoint Control again",
+                command: "gp3attention.reconnect",
+              },
+            ]
+          : []),
+        {
+          label: "$(target) Recalibrate",
+          description: "Launch a new tracking session",
+          command: "gp3attention.launchTrackingSession",
+        },
+        recording
+          ? {
+              label: "$(debug-stop) Stop Recording",
+              description: "Stop the face video",
+              command: "gp3attention.stopRecording",
+            }
+          : {
+              label: "$(record) Start Recording",
+              description: "Record the face video",
+              command: "gp3attention.startRecording",
+            },
+        session
+          ? {
+              label: "$(tag) Add Tag",
+              command: "gp3attention.addTag",
+            }
+          : {
+              label: "$(tag) Initialize Tag Manager",
+              description: "Start recording tags and logs",
+              command: "gp3attention.initializeTagManager",
+            },
+        ...(session
+          ? [
+              {
+                label: "$(check-all) Finalize Session",
+                description: "Close the visible tags and the logs",
+                command: "gp3attention.finalizeSession",
+              },
+            ]
+          : []),
+      ];
+
+      const picked = await vscode.window.showQuickPick(actions, {
+        placeHolder: "Eye tracking session",
+      });
+      if (picked) {
+        await vscode.commands.executeCommand(picked.command);
+      }
+    }
+  );
+  return vscode.Disposable.from(statusBar, command);
+}
+
+export function reconnectTracker() {
+  return vscode.commands.registerCommand("gp3attention.reconnect", () => {
+    const tracker = getActiveTracker();
+    if (!tracker) {
+      vscode.window.showInformationMessage("Launch a tracking session first.");
+      return;
+    }
+    if (tracker.getState() === "connected") {
+      vscode.window.showInformationMessage(
+        "The eye tracker is already connected."
+      );
+      return;
+    }
+    tracker.reconnect();
+  });
+}
@@ -0,0 +1,193 @@
+import * as vscode from "vscode";
+
+import { AttentionRecorder } from "./attentionRecorder";
+import { CalibrationResult } from "./calibration";
+import { ImplicitAnchorCollector } from "./driftAnchors";
+import { GazePipeline } from "./gazePipeline";
+import { gp3Interface } from "./gp3Interface";
+import { SessionBundle } from "./sessionBundle";
+import { ViewportTransform } from "./windowCalibration";
+import { WorkbenchRegion } from "./workbenchLayout";
+
+// The tracker and window calibration of the running tracking session
+let activeTracker: gp3Interface | null = null;
+let trackerCalibration: CalibrationResult | null = null;
+let viewportTransform: ViewportTransform | null = null;
+let transformViewColumn: number | undefined; // The editor group the transform was measured in
+let workbenchRegions: WorkbenchRegion[] | null = null;
+let gazePipeline: GazePipeline | null = null;
+let attentionRecorder: AttentionRecorder | null = null;
+let driftAnchorCollector: ImplicitAnchorCollector | null = null;
+// The session the tag manager records to
+let recordingSession: SessionBundle | null = null;
+
+const activeTrackerEmitter = new vscode.EventEmitter<gp3Interface | null>();
+const gazePipelineEmitter = new vscode.EventEmitter<GazePipeline | null>();
+const attentionRecorderEmitter =
+  new vscode.EventEmitter<AttentionRecorder | null>();
+const recordingSessionEmitter = new vscode.EventEmitter<SessionBundle | null>();
+
+/** Fires when a tracking session starts with a new tracker or stops. */
+export const onDidChangeActiveTracker: vscode.Event<gp3Interface | null> =
+  activeTrackerEmitter.event;
+
+/** Fires when a tracking session starts or stops its fixation detection. */
+export const onDidChangeGazePipeline: vscode.Event<GazePipeline | null> =
+  gazePipelineEmitter.event;
+
+/** Fires when a tracking session starts or stops attributing fixations to code. */
+export const onDidChangeAttentionRecorder: vscode.Event<AttentionRecorder | null> =
+  attentionRecorderEmitter.event;
+
+/** Fires when the tag manager starts or finalizes a session. */
+export const onDidChangeRecordingSession: vscode.Event<SessionBundle | null> =
+  recordingSessionEmitter.event;
+
+/**
+ * The tracker of the running tracking session, if one was launched.
+ */
+export function getActiveTracker(): gp3Interface | null {
+  return activeTracker;
+}
+
+/**
+ * The calibration the tracker of the running tracking session was accepted with.
+ */
+export function getTrackerCalibration(): CalibrationResult | null {
+  return trackerCalibration;
+}
+
+/**
+ * Makes a tracker the one used by the rest of the extension, closing the previous one.
+ *
+ * @param tracker - The connected and calibrated tracker, or `null` to stop tracking.
+ * @param calibration - The calibration the tracker was accepted with.
+ */
+export function setActiveTracker(
+  tracker: gp3Interface | null,
+  calibration: CalibrationResult | null = null
+) {
+  if (activeTracker && activeTracker !== tracker) {
+    setAttentionRecorder(null);
+    setDriftAnchorCollector(null);
+    setGazePipeline(null);
+    activeTracker.close();
+  }
+  trackerCalibration = calibration;
+  if (activeTracker !== tracker) {
+    activeTracker = tracker;
+    activeTrackerEmitter.fire(tracker);
+  }
+}
+
+/**
+ * The fixation detection of the running tracking session.
+ */
+export function getGazePipeline(): GazePipeline | null {
+  return gazePipeline;
+}
+
+/**
+ * Replaces the fixation detection, disposing the previous one.
+ *
+ * @param pipeline - The pipeline, or `null` to stop detecting fixations.
+ */
+export function setGazePipeline(pipeline: GazePipeline | null) {
+  if (gazePipeline === pipeline) {
+    return;
+  }
+  gazePipeline?.dispose();
+  gazePipeline = pipeline;
+  gazePipelineEmitter.fire(pipeline);
+}
+
+/**
+ * The recorder attributing the fixations of the running tracking session to code.
+ */
+export function getAttentionRecorder(): AttentionRecorder | null {
+  return attentionRecorder;
+}
+
+/**
+ * Replaces the attention recorder, disposing the previous one.
+ *
+ * @param recorder - The recorder, or `null` to stop attributing fixations.
+ */
+export function setAttentionRecorder(recorder: AttentionRecorder | null) {
+  if (attentionRecorder === recorder) {
+    return;
+  }
+  attentionRecorder?.dispose();
+  attentionRecorder = recorder;
+  attentionRecorderEmitter.fire(recorder);
+}
+
+/**
+ * Where the editor's text area is on screen, as measured by the window calibration.
+ */
+export function getViewportTransform(): ViewportTransform | null {
+  return viewportTransform;
+}
+
+/**
+ * The editor group the window calibration was measured in.
+ */
+export function getTransformViewColumn(): number | undefined {
+  return transformViewColumn;
+}
+
+/**
+ * Stores the window calibration.
+ *
+ * @param transform - The measured transform, or `null` to forget it.
+ * @param viewColumn - The editor group it was measured in.
+ */
+export function setViewportTransform(
+  transform: ViewportTransform | null,
+  viewColumn?: number
+) {
+  viewportTransform = transform;
+  transformViewColumn = viewColumn;
+}
+
+/**
+ * The workbench regions measured for the running tracking session, if any.
+ */
+export function getCalibratedWorkbenchRegions(): WorkbenchRegion[] | null {
+  return workbenchRegions;
+}
+
+export function setCalibratedWorkbenchRegions(
+  regions: WorkbenchRegion[] | null
+) {
+  workbenchRegions = regions;
+}
+
+/**
+ * Replaces the collector of implicit drift anchors, disposing the previous one.
+ *
+ * @param collector - The collector, or `null` to stop collecting anchors.
+ */
+export function setDriftAnchorCollector(
+  collector: ImplicitAnchorCollector | null
+) {
+  if (driftAnchorCollector && driftAnchorCollector !== collector) {
+    driftAnchorCollector.dispose();
+  }
+  driftAnchorCollector = collector;
+}
+
+/**
+ * The session the tag manager records to, if one was initialized and not finalized yet.
+ */
+export function getRecordingSession(): SessionBundle | null {
+  return recordingSession;
+}
+
+/**
+ * @param session - The session the tag manager started, or `null` once it is finalized.
+ */
+export function setRecordingSession(session: SessionBundle | null) {
+  recordingSession = session;
+  recordingSessionEmitter.fire(session);
+}
@@ -0,0 +1,334 @@
+/**
+ * Rebuilds the rows an editor shows from the visible ranges, folding, word wrap and the extra
+ * rows and columns the editor inserts (code lenses, sticky scroll headers, inlay hints). A row
+ * on screen is not always a document line, and a gaze point on a code lens or a sticky header
+ * must not be credited to the line that happens to have the same index.
+ */
+
+/**
+ * A part of the document shown without interruption. Ranges are split where regions are folded.
+ */
+export interface VisibleRange {
+  start: number; // First line, 0-based
+  end: number; // Last line, inclusive
+  startCharacter?: number; // Where the first visible wrapped segment of the first line begins
+}
+
+export type WrappingIndent = "none" | "same" | "indent" | "deepIndent";
+
+/**
+ * Extra columns shown inside a line, e.g. an inlay hint showing a parameter name.
+ */
+export interface InlineInsertion {
+  character: number; // The insertion is shown before this character
+  width: number; // Columns taken up
+}
+
+/**
+ * Everything needed to rebuild the rows shown by an editor.
+ */
+export interface LayoutInput {
+  visibleRanges: VisibleRange[]; // Top to bottom
+  lineText: (line: number) => string;
+  tabSize: number;
+  wrapColumn?: number; // Columns per row when word wrap is on, undefined when it is off
+  wrappingIndent: WrappingIndent;
+  codeLensLines: number[]; // Lines with a code lens row above them
+  stickyHeaderLines: number[]; // Lines pinned to the top by sticky scroll, top to bottom
+  insertions: Map<number, InlineInsertion[]>; // Inlay hints and other insertions per line
+  maxRows: number; // Stop once this many rows are laid out
+}
+
+/** A segment of a line that is shown on one row. */
+export interface TextRow {
+  kind: "text";
+  line: number;
+  segment: number; // 0 for the first row of the line, 1 for the first wrapped row, ...
+  startCharacter: number;
+  endCharacter: number; // Exclusive
+  indent: number; // Columns of wrapping indent before the text
+}
+
+/** A row that shows something other than document text. */
+export interface DecorationRow {
+  kind: "codeLens" | "stickyHeader";
+  line: number; // The line the code lens belongs to, or the line shown in the sticky header
+}
+
+export type VisualRow = TextRow | DecorationRow;
+
+/**
+ * Where a visual column of a text row falls.
+ */
+export interface ColumnHit {
+  character: number; // Character index in the line
+  overshoot: number; // Columns past the end of the row, 0 when on the text
+  onInsertion: boolean; // Whether the column shows an inlay hint rather than document text
+}
+
+/**
+ * Lays out the rows of an editor, top to bottom.
+ *
+ * @param input - The state of the editor.
+ */
+export function buildVisualRows(input: LayoutInput): VisualRow[] {
+  const rows: VisualRow[] = [];
+  const codeLensLines = new Set(input.codeLensLines);
+
+  for (const range of input.visibleRanges) {
+    for (let line = range.start; line <= range.end; line++) {
+      const firstLine = line === range.start;
+      if (codeLensLines.has(line) && !(firstLine && range.startCharacter)) {
+        rows.push({ kind: "codeLens", line });
+      }
+
+      const segments = wrapLine(
+        input.lineText(line),
+        input.wrapColumn,
+        input.tabSize,
+        input.wrappingIndent
+      );
+      for (const [segment, row] of segments.entries()) {
+        // The first line of a range may be scrolled part way through its wrapped rows
+        if (firstLine && row.endCharacter <= (range.startCharacter ?? 0)) {
+          continue;
+        }
+        rows.push({ kind: "text", line, segment, ...row });
+      }
+
+      if (rows.length >= input.maxRows) {
+        return overlayStickyHeaders(rows.slice(0, input.maxRows), input);
+      }
+    }
+  }
+  return overlayStickyHeaders(rows, input);
+}
+
+/**
+ * Splits a line into the segments shown on separate rows when word wrap is on. Lines are broken
+ * after whitespace where possible, and in the middle of a word when a word is wider than a row.
+ *
+ * @param text - The text of the line.
+ * @param wrapColumn - Columns per row, or undefined when word wrap is off.
+ * @param tabSize - Width of a tab stop.
+ * @param wrappingIndent - How wrapped rows are indented.
+ */
+export function wrapLine(
+  text: string,
+  wrapColumn: number | undefined,
+  tabSize: number,
+  wrappingIndent: WrappingIndent
+): { startCharacter: number; endCharacter: number; indent: number }[] {
+  if (!wrapColumn || wrapColumn <= 0) {
+    return [{ startCharacter: 0, endCharacter: text.length, indent: 0 }];
+  }
+
+  const continuationIndent = Math.min(
+    wrappedIndent(text, tabSize, wrappingIndent),
+    Math.floor(wrapColumn / 2) // Never leave less than half a row for the text
+  );
+  const leadingWhitespace = text.length - text.trimStart().length;
+  const segments = [];
+  let start = 0;
+  let indent = 0;
+
+  while (true) {
+    let width = indent;
+    let breakAt = -1; // Last break opportunity in this segment
+    let end = start;
+    for (; end < text.length; end++) {
+      const characterWidth =
+        text[end] === "\t" ? tabSize - (width % tabSize) : 1;
+      if (width + characterWidth > wrapColumn && end > start) {
+        break;
+      }
+      width += characterWidth;
+      // Whitespace is a break opportunity, except in the leading indentation
+      const whitespace = text[end] === " " || text[end] === "\t";
+      if (whitespace && end >= leadingWhitespace) {
+        breakAt = end + 1;
+      }
+    }
+
+    if (end >= text.length) {
+      segments.push({
+        startCharacter: start,
+        endCharacter: text.length,
+        indent,
+      });
+      return segments;
+    }
+
+    const segmentEnd = breakAt > start ? breakAt : end;
+    segments.push({ startCharacter: start, endCharacter: segmentEnd, indent });
+    start = segmentEnd;
+    indent = continuationIndent;
+  }
+}
+
+/**
+ * Finds the character shown at a visual column of a text row.
+ *
+ * @param text - The text of the whole line.
+ * @param row - The row.
+ * @param column - 0-based visual column within the row.
+ * @param tabSize - Width of a tab stop.
+ * @param insertions - Inlay hints and other insertions in the line.
+ */
+export function characterAtColumn(
+  text: string,
+  row: Pick<TextRow, "startCharacter" | "endCharacter" | "indent">,
+  column: number,
+  tabSize: number,
+  insertions: InlineInsertion[] = []
+): ColumnHit {
+  if (column < row.indent) {
+    return { character: row.startCharacter, overshoot: 0, onInsertion: false };
+  }
+
+  let visual = row.indent;
+  for (
+    let character = row.startCharacter;
+    character < row.endCharacter;
+    character++
+  ) {
+    for (const insertion of insertions) {
+      if (insertion.character === character) {
+        if (column < visual + insertion.width) {
+          return { character, overshoot: 0, onInsertion: true };
+        }
+        visual += insertion.width;
+      }
+    }
+
+    const width = text[character] === "\t" ? tabSize - (visual % tabSize) : 1;
+    if (column < visual + width) {
+      return { character, overshoot: 0, onInsertion: false };
+    }
+    visual += width;
+  }
+
+  // Insertions after the last character, e.g. a type hint at the end of a line
+  for (const insertion of insertions) {
+    if (
+      insertion.character === row.endCharacter &&
+      row.endCharacter === text.length
+    ) {
+      if (column < visual + insertion.width) {
+        return { character: row.endCharacter, overshoot: 0, onInsertion: true };
+      }
+      visual += insertion.width;
+    }
+  }
+  return {
+    character: row.endCharacter,
+    overshoot: column - visual,
+    onInsertion: false,
+  };
+}
+
+/**
+ * Finds the visual column a character of a text row is shown at, the inverse of
+ * `characterAtColumn`.
+ *
+ * @param text - The text of the whole line.
+ * @param row - The row, which must contain the character.
+ * @param character - Character index in the line.
+ * @param tabSize - Width of a tab stop.
+ * @param insertions - Inlay hints and other insertions in the line.
+ */
+export function columnOfCharacter(
+  text: string,
+  row: Pick<TextRow, "startCharacter" | "indent">,
+  character: number,
+  tabSize: number,
+  insertions: InlineInsertion[] = []
+): number {
+  let visual = row.indent;
+  for (let index = row.startCharacter; index <= character; index++) {
+    // Insertions are shown before the character they belong to
+    for (const insertion of insertions) {
+      if (insertion.character === index) {
+        visual += insertion.width;
+      }
+    }
+    if (index === character) {
+      break;
+    }
+    visual += text[index] === "\t" ? tabSize - (visual % tabSize) : 1;
+  }
+  return visual;
+}
+
+/**
+ * Picks the scopes sticky scroll pins to the top of the editor: every scope that starts above
+ * the first visible line and is still open there, outermost first.
+ *
+ * @param scopes - Ranges of classes, functions, blocks etc. as `[start, end]` lines.
+ * @param firstVisibleLine - The first line shown in the editor.
+ * @param maxLineCount - `editor.stickyScroll.maxLineCount`.
+ */
+export function stickyHeaderLines(
+  scopes: { start: number; end: number }[],
+  firstVisibleLine: number,
+  maxLineCount: number
+): number[] {
+  const headers: number[] = [];
+  const sorted = [...scopes].sort((a, b) => a.start - b.start);
+  for (const scope of sorted) {
+    // Every header covers a row, so the scope must still be open below the headers
+    const topLine = firstVisibleLine + headers.length;
+    if (
+      scope.start < topLine &&
+      scope.end > topLine &&
+      !headers.includes(scope.start)
+    ) {
+      headers.push(scope.start);
+      if (headers.length >= maxLineCount) {
+        break;
+      }
+    }
+  }
+  return headers;
+}
+
+// Sticky headers are drawn over the first rows of the viewport
+function overlayStickyHeaders(
+  rows: VisualRow[],
+  input: LayoutInput
+): VisualRow[] {
+  input.stickyHeaderLines.forEach((line, index) => {
+    if (index < rows.length) {
+      rows[index] = { kind: "stickyHeader", line };
+    }
+  });
+  return rows;
+}
+
+function wrappedIndent(
+  text: string,
+  tabSize: number,
+  wrappingIndent: WrappingIndent
+): number {
+  if (wrappingIndent === "none") {
+    return 0;
+  }
+
+  let indent = 0;
+  for (const character of text) {
+    if (character === " ") {
+      indent++;
+    } else if (character === "\t") {
+      indent += tabSize - (indent % tabSize);
+    } else {
+      break;
+    }
+  }
+
+  if (wrappingIndent === "indent") {
+    return indent + tabSize;
+  } else if (wrappingIndent === "deepIndent") {
+    return indent + 2 * tabSize;
+  }
+  return indent;
+}
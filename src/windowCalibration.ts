@@ -0,0 +1,229 @@
+/**
+ * Measures where the editor's text area is on screen. The participant fixates the first and the
+ * last visible letter of the calibration text, and the two fixations give the position of the
+ * text area and the size of a row in normalized screen coordinates.
+ */
+
+import { ScreenPoint } from "./calibration";
+import { GazeSample } from "./gp3Interface";
+import { VisualRow } from "./visualLayout";
+
+/**
+ * Editor settings that change the size of the text on screen. A transform is only valid for the
+ * metrics it was measured at and has to be rescaled when they change.
+ */
+export interface EditorMetrics {
+  fontSize: number; // editor.fontSize, in pixels
+  lineHeight: number; // Effective line height, in pixels
+  zoomLevel: number; // window.zoomLevel
+  characterWidthRatio: number; // Width of a character relative to the font size
+}
+
+/**
+ * Maps normalized screen coordinates (FPOGX/FPOGY) to the text area of an editor.
+ */
+export interface ViewportTransform {
+  originX: number; // Screen X of the left edge of the first column
+  originY: number; // Screen Y of the top edge of the first visible row
+  columnWidth: number; // Screen width of one character
+  rowHeight: number; // Screen height of one row
+  width: number; // Screen width of the text area
+  height: number; // Screen height of the text area
+  metrics: EditorMetrics; // The settings the transform was measured at
+  measuredAt: number; // Wall clock time of the measurement, in ms since the epoch
+}
+
+/**
+ * The steady point found while the participant looked at a calibration anchor.
+ */
+export interface FixationCapture extends ScreenPoint {
+  dispersion: number; // Spread of the samples, as the diagonal of their bounding box
+  duration: number; // Seconds covered by the fixation
+  sampleCount: number;
+}
+
+/**
+ * Limits a capture must meet to count as a steady fixation.
+ */
+export interface CaptureThresholds {
+  maxDispersion: number; // In normalized screen units
+  minFixationRatio: number; // Share of the capture window the longest fixation must cover
+}
+
+/**
+ * Where the anchors are in the document, counted from the first visible row, and where the text
+ * area ends.
+ */
+export interface AnchorLayout {
+  lastRow: number; // Row of the last visible letter, 0 is the first visible row
+  textAreaRight: number; // Screen X of the right edge of the editor, e.g. of its group
+}
+
+// The Mac vs Everybody else line height ratio used by VS Code when editor.lineHeight is 0
+const GOLDEN_LINE_HEIGHT_RATIO_MAC = 1.5;
+const GOLDEN_LINE_HEIGHT_RATIO = 1.35;
+const MINIMUM_LINE_HEIGHT = 8;
+
+/**
+ * Computes the effective line height the way VS Code does from `editor.lineHeight`.
+ *
+ * @param fontSize - `editor.fontSize`.
+ * @param configured - `editor.lineHeight`. 0 derives it from the font size, values below 8 are
+ *                     multipliers of the font size, anything else is in pixels.
+ * @param isMac - Whether VS Code runs on macOS.
+ */
+export function computeLineHeight(
+  fontSize: number,
+  configured: number,
+  isMac: boolean
+): number {
+  let lineHeight: number;
+  if (configured <= 0) {
+    const ratio = isMac
+      ? GOLDEN_LINE_HEIGHT_RATIO_MAC
+      : GOLDEN_LINE_HEIGHT_RATIO;
+    lineHeight = Math.round(ratio * fontSize);
+  } else if (configured < MINIMUM_LINE_HEIGHT) {
+    lineHeight = Math.round(configured * fontSize);
+  } else {
+    lineHeight = configured;
+  }
+  return Math.max(lineHeight, MINIMUM_LINE_HEIGHT);
+}
+
+/**
+ * Finds the steady fixation among the samples recorded while the participant looked at an
+ * anchor. The samples are grouped by fixation ID and the longest fixation is used.
+ *
+ * @param samples - Every sample recorded during the capture window.
+ * @param windowSeconds - The length of the capture window.
+ * @param thresholds - The limits the fixation must meet.
+ * @returns The capture, or a string explaining why the fixation was rejected.
+ */
+export function summarizeCapture(
+  samples: GazeSample[],
+  windowSeconds: number,
+  thresholds: CaptureThresholds
+): FixationCapture | string {
+  const fixations = new Map<number, GazeSample[]>();
+  for (const sample of samples) {
+    if (!sample.fpogv || isNaN(sample.fpogx) || isNaN(sample.fpogy)) {
+      continue;
+    }
+    const group = fixations.get(sample.fpogid) ?? [];
+    group.push(sample);
+    fixations.set(sample.fpogid, group);
+  }
+  if (fixations.size === 0) {
+    return "No valid gaze data was received.";
+  }
+
+  const longest = [...fixations.values()].reduce((best, group) =>
+    group.length > best.length ? group : best
+  );
+  const last = longest[longest.length - 1];
+  const duration = last.fpogd;
+  if (duration < windowSeconds * thresholds.minFixationRatio) {
+    return `The gaze did not settle (longest fixation ${duration.toFixed(1)}s).`;
+  }
+
+  const xs = longest.map((sample) => sample.fpogx);
+  const ys = longest.map((sample) => sample.fpogy);
+  const dispersion = Math.hypot(
+    Math.max(...xs) - Math.min(...xs),
+    Math.max(...ys) - Math.min(...ys)
+  );
+  if (dispersion > thresholds.maxDispersion) {
+    return `The gaze was unstable (dispersion ${dispersion.toFixed(3)}).`;
+  }
+
+  return {
+    x: median(xs),
+    y: median(ys),
+    dispersion,
+    duration,
+    sampleCount: longest.length,
+  };
+}
+
+/**
+ * The row the last visible letter is on, the anchor of the lower right corner. Rows are counted
+ * on screen, so folded lines are not counted and wrapped lines count once per row.
+ *
+ * @param rows - The rows the editor shows, see `buildVisualRows`.
+ * @param lineText - The text of a document line.
+ * @returns The index of the row, or -1 if no row shows a letter.
+ */
+export function lastLetterRow(
+  rows: VisualRow[],
+  lineText: (line: number) => string
+): number {
+  for (let index = rows.length - 1; index >= 0; index--) {
+    const row = rows[index];
+    if (
+      row.kind === "text" &&
+      /\S/.test(lineText(row.line).slice(row.startCharacter, row.endCharacter))
+    ) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Computes the viewport transform from the two anchor fixations. Both anchors are taken to be
+ * the centre of a character: the first letter of the first visible row and the last letter of
+ * the last visible row. The row height follows from the vertical distance between them, and the
+ * column width from the row height and the font metrics. The text area reaches from the first
+ * letter to the right edge of the editor, however short the last row is.
+ *
+ * @param upperLeft - The fixation on the first visible letter.
+ * @param lowerRight - The fixation on the last visible letter.
+ * @param layout - Where the last visible letter is.
+ * @param metrics - The editor settings at the time of measurement.
+ * @param measuredAt - Wall clock time of the measurement.
+ * @returns The transform, or a string explaining why the anchors cannot be used.
+ */
+export function computeViewportTransform(
+  upperLeft: ScreenPoint,
+  lowerRight: ScreenPoint,
+  layout: AnchorLayout,
+  metrics: EditorMetrics,
+  measuredAt: number
+): ViewportTransform | string {
+  if (layout.lastRow < 1) {
+    return "The calibration text must show at least two rows.";
+  }
+  if (lowerRight.y <= upperLeft.y) {
+    return "The last letter was not below the first letter.";
+  }
+
+  const rowHeight = (lowerRight.y - upperLeft.y) / layout.lastRow;
+  const columnWidth =
+    (rowHeight * metrics.fontSize * metrics.characterWidthRatio) /
+    metrics.lineHeight;
+  const originX = upperLeft.x - columnWidth / 2;
+  const originY = upperLeft.y - rowHeight / 2;
+  if (layout.textAreaRight <= upperLeft.x) {
+    return "The first letter was not inside the editor.";
+  }
+
+  return {
+    originX,
+    originY,
+    columnWidth,
+    rowHeight,
+    width: layout.textAreaRight - originX,
+    height: lowerRight.y + rowHeight / 2 - originY,
+    metrics,
+    measuredAt,
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
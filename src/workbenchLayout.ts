@@ -0,0 +1,102 @@
+/**
+ * A model of where the parts of the VS Code window are on screen, so gaze can be attributed to
+ * the editor group, side bar, panel etc. it falls on rather than always to the active editor.
+ */
+
+import { ScreenPoint } from "./calibration";
+import { ViewportTransform } from "./windowCalibration";
+
+export type WorkbenchRegionKind =
+  | "editorGroup"
+  | "sidebar"
+  | "panel"
+  | "statusBar"
+  | "activityBar"
+  | "titleBar";
+
+/** A rectangle in normalized screen coordinates. */
+export interface ScreenRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface WorkbenchRegion {
+  kind: WorkbenchRegionKind;
+  viewColumn?: number; // For editor groups, the ViewColumn of the group
+  rect: ScreenRect;
+}
+
+/**
+ * Where a gaze point landed. `offScreen` covers invalid samples and points outside the screen,
+ * `other` points on the screen that are in none of the known regions.
+ */
+export interface GazeRegion {
+  kind: WorkbenchRegionKind | "offScreen" | "other";
+  viewColumn?: number;
+}
+
+/**
+ * Classifies a gaze point into a region of the workbench.
+ *
+ * @param point - The gaze point in normalized screen coordinates.
+ * @param regions - The regions of the workbench. Regions are expected not to overlap; if they
+ *                  do, the first match wins.
+ */
+export function classifyGaze(
+  point: ScreenPoint,
+  regions: WorkbenchRegion[]
+): GazeRegion {
+  if (
+    !Number.isFinite(point.x) ||
+    !Number.isFinite(point.y) ||
+    point.x < 0 ||
+    point.x > 1 ||
+    point.y < 0 ||
+    point.y > 1
+  ) {
+    return { kind: "offScreen" };
+  }
+
+  const region = regions.find((candidate) => contains(candidate.rect, point));
+  if (!region) {
+    return { kind: "other" };
+  }
+  return region.kind === "editorGroup"
+    ? { kind: region.kind, viewColumn: region.viewColumn }
+    : { kind: region.kind };
+}
+
+/**
+ * Moves a viewport transform measured in one editor group to another group. The text area is
+ * assumed to sit at the same offset inside every group, and is cut off where the group ends.
+ *
+ * @param transform - The transform measured by the window calibration.
+ * @param measuredIn - The rectangle of the group the transform was measured in.
+ * @param target - The rectangle of the group to move the transform to.
+ */
+export function transformForGroup(
+  transform: ViewportTransform,
+  measuredIn: ScreenRect,
+  target: ScreenRect
+): ViewportTransform {
+  const originX = transform.originX - measuredIn.left + target.left;
+  const originY = transform.originY - measuredIn.top + target.top;
+  return {
+    ...transform,
+    originX,
+    originY,
+    width: Math.min(transform.width, target.right - originX),
+    height: Math.min(transform.height, target.bottom - originY),
+  };
+}
+
+function contains(rect: ScreenRect, point: ScreenPoint): boolean {
+  return (
+    point.x >= rect.left &&
+    point.x <= rect.right &&
+    point.y >= rect.top &&
+    point.y <= rect.bottom
+  );
+}